@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.23;
+
+// Pulls the contracts deployed by the local (unforked anvil) test mode into `dist/contracts`:
+// the Limit Order Protocol, a wrapped native token, a mintable ERC20 with permit standing in for USDC,
+// the always-succeeding ERC20 the SDK uses as `takerAsset` on the source chain
+// and an EIP-1271 wallet acting as a contract maker.
+import {LimitOrderProtocol} from "@1inch/limit-order-protocol-contract/contracts/LimitOrderProtocol.sol";
+import {WrappedTokenMock} from "@1inch/limit-order-protocol-contract/contracts/mocks/WrappedTokenMock.sol";
+import {TokenCustomDecimalsMock} from "@1inch/solidity-utils/contracts/mocks/TokenCustomDecimalsMock.sol";
+import {ERC1271WalletMock} from "@1inch/solidity-utils/contracts/tests/mocks/ERC1271WalletMock.sol";
+import {ERC20True} from "cross-chain-swap/mocks/ERC20True.sol";
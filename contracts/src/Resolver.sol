@@ -53,18 +53,24 @@ contract Resolver is Ownable {
         TakerTraits takerTraits,
         bytes calldata args
     ) external payable onlyOwner {
+        address computed = _sendSafetyDeposit(immutables);
+        _LOP.fillOrderArgs(order, r, vs, amount, _withTarget(takerTraits), abi.encodePacked(computed, args));
+    }
 
-        IBaseEscrow.Immutables memory immutablesMem = immutables;
-        immutablesMem.timelocks = TimelocksLib.setDeployedAt(immutables.timelocks, block.timestamp);
-        address computed = _FACTORY.addressOfEscrowSrc(immutablesMem);
-
-        (bool success,) = address(computed).call{value: immutablesMem.safetyDeposit}("");
-        if (!success) revert IBaseEscrow.NativeTokenSendingFailure();
-
-        // _ARGS_HAS_TARGET = 1 << 251
-        takerTraits = TakerTraits.wrap(TakerTraits.unwrap(takerTraits) | uint256(1 << 251));
-        bytes memory argsMem = abi.encodePacked(computed, args);
-        _LOP.fillOrderArgs(order, r, vs, amount, takerTraits, argsMem);
+    /**
+     * @notice Same as {deploySrc} for an order whose maker is a contract, e.g. a smart-contract wallet.
+     * The protocol checks `signature` with EIP-1271 `isValidSignature` of the maker instead of recovering a signer.
+     */
+    function deploySrcContractOrder(
+        IBaseEscrow.Immutables calldata immutables,
+        IOrderMixin.Order calldata order,
+        bytes calldata signature,
+        uint256 amount,
+        TakerTraits takerTraits,
+        bytes calldata args
+    ) external payable onlyOwner {
+        address computed = _sendSafetyDeposit(immutables);
+        _LOP.fillContractOrderArgs(order, signature, amount, _withTarget(takerTraits), abi.encodePacked(computed, args));
     }
 
     /**
@@ -95,4 +101,18 @@ contract Resolver is Ownable {
             if (!success) RevertReasonForwarder.reRevert();
         }
     }
+
+    function _sendSafetyDeposit(IBaseEscrow.Immutables calldata immutables) private returns (address computed) {
+        IBaseEscrow.Immutables memory immutablesMem = immutables;
+        immutablesMem.timelocks = TimelocksLib.setDeployedAt(immutables.timelocks, block.timestamp);
+        computed = _FACTORY.addressOfEscrowSrc(immutablesMem);
+
+        (bool success,) = address(computed).call{value: immutablesMem.safetyDeposit}("");
+        if (!success) revert IBaseEscrow.NativeTokenSendingFailure();
+    }
+
+    function _withTarget(TakerTraits takerTraits) private pure returns (TakerTraits) {
+        // _ARGS_HAS_TARGET = 1 << 251
+        return TakerTraits.wrap(TakerTraits.unwrap(takerTraits) | uint256(1 << 251));
+    }
 }
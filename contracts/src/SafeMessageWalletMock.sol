@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.23;
+
+import {ECDSA} from "openzeppelin-contracts/contracts/utils/cryptography/ECDSA.sol";
+import {IERC1271} from "openzeppelin-contracts/contracts/interfaces/IERC1271.sol";
+
+/**
+ * @title EIP-1271 wallet checking signatures the way the fallback handler of a Safe does
+ * @notice The owner signs the EIP-712 `SafeMessage(bytes message)` wrapping the hash, under the domain
+ * `EIP712Domain(uint256 chainId,address verifyingContract)` of the wallet.
+ */
+contract SafeMessageWalletMock is IERC1271 {
+    bytes32 private constant _DOMAIN_SEPARATOR_TYPEHASH = keccak256("EIP712Domain(uint256 chainId,address verifyingContract)");
+    bytes32 private constant _SAFE_MSG_TYPEHASH = keccak256("SafeMessage(bytes message)");
+
+    address public immutable OWNER;
+
+    constructor(address owner) {
+        OWNER = owner;
+    }
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        bytes32 domainSeparator = keccak256(abi.encode(_DOMAIN_SEPARATOR_TYPEHASH, block.chainid, address(this)));
+        bytes32 structHash = keccak256(abi.encode(_SAFE_MSG_TYPEHASH, keccak256(abi.encode(hash))));
+        bytes32 messageHash = keccak256(abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator, structHash));
+
+        (address signer, ECDSA.RecoverError err,) = ECDSA.tryRecover(messageHash, signature);
+
+        return err == ECDSA.RecoverError.NoError && signer == OWNER ? this.isValidSignature.selector : bytes4(0);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.23;
+
+import {Timelocks, TimelocksLib} from "cross-chain-swap/libraries/TimelocksLib.sol";
+
+// Exposes TimelocksLib so the TS encoder in tests/timelocks.ts can be checked against it
+contract TimelocksHarness {
+    using TimelocksLib for Timelocks;
+
+    function setDeployedAt(Timelocks timelocks, uint256 value) external pure returns (Timelocks) {
+        return timelocks.setDeployedAt(value);
+    }
+
+    function rescueStart(Timelocks timelocks, uint256 rescueDelay) external pure returns (uint256) {
+        return timelocks.rescueStart(rescueDelay);
+    }
+
+    function get(Timelocks timelocks, TimelocksLib.Stage stage) external pure returns (uint256) {
+        return timelocks.get(stage);
+    }
+}
@@ -0,0 +1,91 @@
+import {expect, describe, it} from '@jest/globals'
+
+import {hexlify, toUtf8String} from 'ethers'
+import {AddressFormatError, codecs, fromUint256, parseAddressOrAsset} from './address-codec'
+
+// SEP-23 test vectors
+const account = 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ'
+const muxed = 'MA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVAAAAAAAAAAAAAJLK'
+const contract = 'CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE'
+
+describe('Stellar strkeys', () => {
+    it('accepts accounts, muxed accounts and contracts with their version byte', () => {
+        expect(codecs.stellar.parseAddress(account).bytes[0]).toBe(6 << 3)
+        expect(codecs.stellar.parseAddress(muxed).bytes.length).toBe(1 + 40)
+        expect(codecs.stellar.parseAddress(contract).bytes[0]).toBe(2 << 3)
+    })
+
+    it('rejects a strkey with a wrong checksum', () => {
+        const flipped = account.slice(0, -1) + (account.endsWith('Z') ? 'A' : 'Z')
+
+        expect(() => codecs.stellar.parseAddress(flipped)).toThrow(/checksum mismatch/)
+    })
+
+    it('rejects a strkey of an unsupported version', () => {
+        // secret seed, version byte 18 << 3
+        expect(() => codecs.stellar.parseAddress('SBU2RRGLXH3E5CQHTD3ODLDF2BWDCYUSSBLLZ5GNW7JXHDIYKXZWHOKR')).toThrow(
+            /unsupported strkey version/
+        )
+    })
+
+    it('rejects a strkey whose payload does not match its version', () => {
+        expect(() => codecs.stellar.parseAddress(account.slice(0, -8))).toThrow(AddressFormatError)
+    })
+
+    it('parses classic assets issued by an account', () => {
+        expect(codecs.stellar.parseAsset(`USDC:${account}`).canonical).toBe(`USDC:${account}`)
+        expect(toUtf8String(codecs.stellar.parseAsset('native').bytes)).toBe('native')
+        expect(() => codecs.stellar.parseAsset(`USDC:${contract}`)).toThrow(/issuer must be an account/)
+        expect(() => codecs.stellar.parseAsset(`TOOLONGCODE13:${account}`)).toThrow(/1-12 character code/)
+    })
+})
+
+describe('Solana base58', () => {
+    it('decodes 32 byte keys, keeping leading zero bytes', () => {
+        expect(hexlify(codecs.solana.parseAddress('11111111111111111111111111111111').bytes)).toBe(
+            '0x' + '00'.repeat(32)
+        )
+        expect(codecs.solana.parseAddress('So11111111111111111111111111111111111111112').bytes.length).toBe(32)
+    })
+
+    it('rejects encodings of another length', () => {
+        expect(() => codecs.solana.parseAddress('1'.repeat(33))).toThrow(/does not decode to 32 bytes/)
+        expect(() => codecs.solana.parseAddress('z'.repeat(44))).toThrow(/does not decode to 32 bytes/)
+        expect(() => codecs.solana.parseAddress('0OIl' + '1'.repeat(30))).toThrow(/base58 characters/)
+    })
+
+    it('round trips the uint256 emitted on the EVM side', () => {
+        const mint = 'So11111111111111111111111111111111111111112'
+        const value = BigInt(hexlify(codecs.solana.parseAddress(mint).bytes))
+
+        expect(fromUint256('solana', value).canonical).toBe(mint)
+    })
+})
+
+describe('NEAR account ids', () => {
+    it('accepts named, implicit and eth-implicit accounts', () => {
+        for (const id of ['alice.near', 'a-b_c.testnet', 'ab', 'f'.repeat(64), '0x' + 'ab'.repeat(20)]) {
+            expect(codecs.near.parseAddress(id).canonical).toBe(id)
+        }
+    })
+
+    it('rejects ids breaking the account id rules', () => {
+        expect(() => codecs.near.parseAddress('a')).toThrow(/2 to 64 characters/)
+        expect(() => codecs.near.parseAddress('a'.repeat(65))).toThrow(/2 to 64 characters/)
+        expect(() => codecs.near.parseAddress('Alice.near')).toThrow(/lowercase/)
+
+        for (const id of ['alice..near', '.alice', 'alice.', 'a--b', 'alice_.near', 'al ice']) {
+            expect(() => codecs.near.parseAddress(id)).toThrow(/account id parts/)
+        }
+    })
+})
+
+describe('Move addresses', () => {
+    it('pads short addresses and normalizes struct tags', () => {
+        expect(codecs.aptos.parseAddress('0x1').canonical).toBe('0x' + '0'.repeat(63) + '1')
+        expect(parseAddressOrAsset('aptos', '0x1::aptos_coin::AptosCoin').canonical).toBe(
+            '0x' + '0'.repeat(63) + '1::aptos_coin::AptosCoin'
+        )
+        expect(() => parseAddressOrAsset('sui', '0x2::sui')).toThrow(/0x followed by 1 to 64 hex/)
+    })
+})
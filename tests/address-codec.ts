@@ -0,0 +1,296 @@
+import {decodeBase58, encodeBase58, getBytes, hexlify, toBeHex, toUtf8Bytes} from 'ethers'
+
+export type NonEvmChain = 'aptos' | 'sui' | 'near' | 'stellar' | 'solana'
+
+export type ParsedAddress = {
+    chain: NonEvmChain
+    kind: 'address' | 'asset'
+    // normalized text form, equal inputs in different notations give the same value
+    canonical: string
+    // bytes the EVM-side commitment is computed over
+    bytes: Uint8Array
+}
+
+export class AddressFormatError extends Error {
+    constructor(
+        public readonly chain: NonEvmChain,
+        public readonly input: string,
+        public readonly reason: string
+    ) {
+        super(`Invalid ${chain} address "${input}": ${reason}`)
+        this.name = 'AddressFormatError'
+    }
+}
+
+export interface AddressCodec {
+    readonly chain: NonEvmChain
+    parseAddress(input: string): ParsedAddress
+    // token identifier used as `takerAsset`, e.g. a Move coin type or a Stellar `CODE:ISSUER` asset
+    parseAsset(input: string): ParsedAddress
+}
+
+/**
+ * 32 byte hex account addresses, AIP-40 style: short forms are left padded, so `0x1` equals `0x00..01`
+ */
+function parseHex32(chain: NonEvmChain, input: string): string {
+    const match = /^0x([0-9a-fA-F]{1,64})$/.exec(input.trim())
+
+    if (!match) {
+        throw new AddressFormatError(chain, input, 'expected 0x followed by 1 to 64 hex characters')
+    }
+
+    return '0x' + match[1].toLowerCase().padStart(64, '0')
+}
+
+/**
+ * Aptos and Sui: hex account addresses, assets are either object addresses (fungible asset metadata)
+ * or Move struct tags `<address>::<module>::<name>`
+ */
+class MoveCodec implements AddressCodec {
+    constructor(public readonly chain: 'aptos' | 'sui') {}
+
+    public parseAddress(input: string): ParsedAddress {
+        const canonical = parseHex32(this.chain, input)
+
+        return {chain: this.chain, kind: 'address', canonical, bytes: getBytes(canonical)}
+    }
+
+    public parseAsset(input: string): ParsedAddress {
+        const parts = input.trim().split('::')
+
+        if (parts.length === 1) {
+            return {...this.parseAddress(input), kind: 'asset'}
+        }
+
+        const [address, module, name] = parts
+
+        if (parts.length !== 3 || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(module) || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            throw new AddressFormatError(this.chain, input, 'expected a struct tag <address>::<module>::<name>')
+        }
+
+        const canonical = `${parseHex32(this.chain, address)}::${module}::${name}`
+
+        return {chain: this.chain, kind: 'asset', canonical, bytes: toUtf8Bytes(canonical)}
+    }
+}
+
+/**
+ * NEAR account ids: named (`alice.near`), implicit (64 lowercase hex) and eth-implicit (`0x` + 40 hex)
+ * https://nomicon.io/DataStructures/Account#account-id-rules
+ */
+class NearCodec implements AddressCodec {
+    public readonly chain = 'near'
+
+    public parseAddress(input: string): ParsedAddress {
+        const id = input.trim()
+
+        if (id.length < 2 || id.length > 64) {
+            throw new AddressFormatError(this.chain, input, 'account id must be 2 to 64 characters long')
+        }
+
+        if (id !== id.toLowerCase()) {
+            throw new AddressFormatError(this.chain, input, 'account ids are lowercase')
+        }
+
+        if (!/^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/.test(id)) {
+            throw new AddressFormatError(this.chain, input, 'account id parts must be [a-z0-9] separated by - _ or .')
+        }
+
+        return {chain: this.chain, kind: 'address', canonical: id, bytes: toUtf8Bytes(id)}
+    }
+
+    // NEP-141 tokens are identified by their contract account id
+    public parseAsset(input: string): ParsedAddress {
+        return {...this.parseAddress(input), kind: 'asset'}
+    }
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function decodeBase32(input: string): Uint8Array | undefined {
+    const bytes: number[] = []
+    let buffer = 0
+    let bits = 0
+
+    for (const char of input) {
+        const value = BASE32_ALPHABET.indexOf(char)
+
+        if (value === -1) {
+            return undefined
+        }
+
+        buffer = (buffer << 5) | value
+        bits += 5
+
+        if (bits >= 8) {
+            bits -= 8
+            bytes.push((buffer >> bits) & 0xff)
+        }
+    }
+
+    return Uint8Array.from(bytes)
+}
+
+// unpadded base32 length of `n` bytes
+function encodeBase32Length(n: number): number {
+    return Math.ceil((n * 8) / 5)
+}
+
+// CRC16-XModem, the strkey checksum
+function crc16(bytes: Uint8Array): number {
+    let crc = 0
+
+    for (const byte of bytes) {
+        crc ^= byte << 8
+
+        for (let i = 0; i < 8; i++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+        }
+    }
+
+    return crc
+}
+
+/**
+ * Stellar strkeys (SEP-23): accounts `G...`, muxed accounts `M...` and contracts `C...`.
+ * Assets are `native` or classic `CODE:ISSUER` assets.
+ */
+class StellarCodec implements AddressCodec {
+    // version byte => payload length
+    private static readonly versions: Record<number, number> = {
+        [6 << 3]: 32, // G, ed25519 public key
+        [12 << 3]: 40, // M, ed25519 public key + uint64 id
+        [2 << 3]: 32 // C, contract
+    }
+
+    public readonly chain = 'stellar'
+
+    public parseAddress(input: string): ParsedAddress {
+        const strkey = input.trim()
+        const decoded = decodeBase32(strkey)
+
+        if (!decoded || decoded.length < 3) {
+            throw new AddressFormatError(this.chain, input, 'not a base32 strkey')
+        }
+
+        const [version] = decoded
+        const payload = decoded.subarray(1, -2)
+        const expectedLength = StellarCodec.versions[version]
+
+        if (expectedLength === undefined) {
+            throw new AddressFormatError(this.chain, input, `unsupported strkey version byte ${version}`)
+        }
+
+        if (payload.length !== expectedLength || encodeBase32Length(decoded.length) !== strkey.length) {
+            throw new AddressFormatError(this.chain, input, 'invalid strkey length')
+        }
+
+        const checksum = decoded[decoded.length - 2] | (decoded[decoded.length - 1] << 8)
+
+        if (checksum !== crc16(decoded.subarray(0, -2))) {
+            throw new AddressFormatError(this.chain, input, 'strkey checksum mismatch')
+        }
+
+        return {chain: this.chain, kind: 'address', canonical: strkey, bytes: decoded.slice(0, -2)}
+    }
+
+    public parseAsset(input: string): ParsedAddress {
+        const asset = input.trim()
+
+        if (asset === 'native') {
+            return {chain: this.chain, kind: 'asset', canonical: asset, bytes: toUtf8Bytes(asset)}
+        }
+
+        const [code, issuer, ...rest] = asset.split(':')
+
+        if (rest.length > 0 || issuer === undefined || !/^[A-Za-z0-9]{1,12}$/.test(code)) {
+            throw new AddressFormatError(
+                this.chain,
+                input,
+                'expected "native" or CODE:ISSUER with a 1-12 character code'
+            )
+        }
+
+        if (!issuer.startsWith('G')) {
+            throw new AddressFormatError(this.chain, input, 'asset issuer must be an account (G...) strkey')
+        }
+
+        const canonical = `${code}:${this.parseAddress(issuer).canonical}`
+
+        return {chain: this.chain, kind: 'asset', canonical, bytes: toUtf8Bytes(canonical)}
+    }
+}
+
+/**
+ * Solana: base58 encoded 32 byte public keys, SPL tokens are identified by their mint address
+ */
+class SolanaCodec implements AddressCodec {
+    public readonly chain = 'solana'
+
+    public parseAddress(input: string): ParsedAddress {
+        const address = input.trim()
+
+        if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+            throw new AddressFormatError(this.chain, input, 'expected 32 to 44 base58 characters')
+        }
+
+        const value = decodeBase58(address)
+
+        // base58 of a byte string is unique, any other number of leading `1`s means another length
+        if (value >= 1n << 256n || encodeBase58(toBeHex(value, 32)) !== address) {
+            throw new AddressFormatError(this.chain, input, 'does not decode to 32 bytes')
+        }
+
+        const bytes = getBytes(toBeHex(value, 32))
+        const canonical = address
+
+        return {chain: this.chain, kind: 'address', canonical, bytes}
+    }
+
+    public parseAsset(input: string): ParsedAddress {
+        return {...this.parseAddress(input), kind: 'asset'}
+    }
+}
+
+export const codecs: Record<NonEvmChain, AddressCodec> = {
+    aptos: new MoveCodec('aptos'),
+    sui: new MoveCodec('sui'),
+    near: new NearCodec(),
+    stellar: new StellarCodec(),
+    solana: new SolanaCodec()
+}
+
+/**
+ * Parse `input` as an address of `chain` or, when it is not one, as an asset identifier
+ */
+export function parseAddressOrAsset(chain: NonEvmChain, input: string): ParsedAddress {
+    const codec = codecs[chain]
+
+    try {
+        return codec.parseAddress(input)
+    } catch (addressError) {
+        try {
+            return codec.parseAsset(input)
+        } catch {
+            throw addressError
+        }
+    }
+}
+
+/**
+ * Canonical bytes of an address or asset identifier of `chain`, plugs into `registerAddressCommitment`
+ */
+export function encoderFor(chain: NonEvmChain): (input: string) => Uint8Array {
+    return (input: string): Uint8Array => parseAddressOrAsset(chain, input).bytes
+}
+
+/**
+ * Destination address of a 32 byte address chain from the uint256 emitted on the EVM side
+ */
+export function fromUint256(chain: 'aptos' | 'sui' | 'solana', value: bigint | string): ParsedAddress {
+    const bytes = getBytes(toBeHex(BigInt(value), 32))
+
+    return chain === 'solana'
+        ? codecs.solana.parseAddress(encodeBase58(bytes))
+        : codecs[chain].parseAddress(hexlify(bytes))
+}
@@ -0,0 +1,61 @@
+import {expect, describe, it} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {getBytes, keccak256} from 'ethers'
+import {AddressFormatError, encoderFor} from './address-codec'
+import {
+    APTOS_CHAIN_ID,
+    APTOS_ORDER_CHAIN_ID,
+    fromOrderChainId,
+    getAddressCommitment,
+    registerAddressCommitment,
+    toOrderChainId
+} from './address-commitment'
+
+const aptosReceiver = '0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497'
+const suiAddress = '0x' + 'ab'.repeat(32)
+
+describe('chain ids', () => {
+    it('gives Aptos an id no SDK chain uses and maps it to the EVM id of its orders', () => {
+        expect(Object.values(Sdk.NetworkEnum)).not.toContain(APTOS_CHAIN_ID)
+        expect(toOrderChainId(APTOS_CHAIN_ID)).toBe(APTOS_ORDER_CHAIN_ID)
+        expect(fromOrderChainId(APTOS_ORDER_CHAIN_ID)).toBe(APTOS_CHAIN_ID)
+        expect(toOrderChainId(Sdk.NetworkEnum.ARBITRUM)).toBe(Sdk.NetworkEnum.ARBITRUM)
+        expect(fromOrderChainId(Sdk.NetworkEnum.ARBITRUM)).toBe(Sdk.NetworkEnum.ARBITRUM)
+    })
+})
+
+describe('AddressCommitment', () => {
+    it('commits Aptos addresses with sha1 over the hex text of their bytes', () => {
+        const aptos = getAddressCommitment(APTOS_CHAIN_ID)
+
+        expect(aptos.algorithm).toBe('sha1')
+        expect(aptos.commit(aptosReceiver)).toBe('0x8dfffd9f7b623d85f5e6ba35a7a34d93600e60ae')
+        // the hex of the UTF-8 text of the struct tag, in its long form
+        expect(aptos.commit('0x1::aptos_coin::AptosCoin')).toBe('0x0683da7fcbf96e7e50612daa5c99e06f69af8f2b')
+    })
+
+    it('verifies a commitment in any case and only for its own address', () => {
+        const aptos = getAddressCommitment(APTOS_CHAIN_ID)
+        const commitment = aptos.commit(aptosReceiver)
+
+        expect(aptos.verify(aptosReceiver, commitment.toUpperCase().replace('0X', '0x'))).toBe(true)
+        expect(aptos.verify('0x' + '00'.repeat(32), commitment)).toBe(false)
+        expect(() => aptos.verify('0xnot-an-address', commitment)).toThrow(AddressFormatError)
+    })
+
+    it('truncates keccak256 and sha256 commitments of registered chains to 20 bytes', () => {
+        const keccak = registerAddressCommitment(1_000_000_101, 'keccak256', encoderFor('sui'))
+        const sha = registerAddressCommitment(1_000_000_102, 'sha256', encoderFor('sui'))
+
+        expect(getAddressCommitment(1_000_000_101)).toBe(keccak)
+        expect(keccak.commit(suiAddress)).toBe('0x' + keccak256(getBytes(suiAddress)).slice(-40))
+        expect(sha.commit(suiAddress)).toBe('0x3ac049c5e718e8f9ce9233876df1a7a1821af885')
+        expect(sha.verify(suiAddress, sha.commit(suiAddress))).toBe(true)
+        expect(sha.verify(suiAddress, keccak.commit(suiAddress))).toBe(false)
+    })
+
+    it('knows no commitment for EVM destinations', () => {
+        expect(() => getAddressCommitment(Sdk.NetworkEnum.ARBITRUM)).toThrow(/No address commitment registered/)
+    })
+})
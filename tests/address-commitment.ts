@@ -0,0 +1,112 @@
+import {hexlify, keccak256, sha256, toUtf8Bytes} from 'ethers'
+import crypto from 'crypto'
+import {encoderFor} from './address-codec'
+import {sdk} from './sdk'
+
+/**
+ * Aptos has no EVM chain id, adapters, swaps and commitments know it by this one, which no EVM chain uses
+ */
+export const APTOS_CHAIN_ID = 1_000_000_001
+
+/**
+ * Destination chain id of orders to Aptos, the SDK only accepts EVM chain ids, so they carry Ethereum's
+ */
+export const APTOS_ORDER_CHAIN_ID = sdk.NetworkEnum.ETHEREUM
+
+/**
+ * Destination chain id to put into an SDK order to `chainId`
+ */
+export function toOrderChainId(chainId: number): number {
+    return chainId === APTOS_CHAIN_ID ? APTOS_ORDER_CHAIN_ID : chainId
+}
+
+/**
+ * Destination chain of an SDK order, the inverse of `toOrderChainId`
+ */
+export function fromOrderChainId(orderChainId: number): number {
+    return orderChainId === APTOS_ORDER_CHAIN_ID ? APTOS_CHAIN_ID : orderChainId
+}
+
+/**
+ * - `sha1`: sha1 over the text `0x` + lowercase hex of the canonical bytes, compatible with commitments of existing
+ *   orders. The canonical bytes of a struct tag asset are its UTF-8 text, so the hex of that text is hashed
+ * - `keccak256`, `sha256`: hash of the canonical address bytes, truncated to the last 20 bytes like an EVM address
+ */
+export type CommitmentAlgorithm = 'sha1' | 'keccak256' | 'sha256'
+
+/**
+ * Canonical bytes of a destination address, throws on a malformed one, see `encoderFor` in `address-codec.ts`
+ */
+export type AddressEncoder = (address: string) => Uint8Array
+
+/**
+ * Maps a non-EVM destination address to the 20 byte value put into the order's receiver / taker asset
+ */
+export class AddressCommitment {
+    constructor(
+        public readonly chainId: number,
+        public readonly algorithm: CommitmentAlgorithm,
+        private readonly encoder: AddressEncoder
+    ) {}
+
+    public canonical(address: string): Uint8Array {
+        return this.encoder(address)
+    }
+
+    /**
+     * @returns 0x prefixed 20 byte commitment
+     */
+    public commit(address: string): string {
+        const bytes = this.canonical(address)
+
+        switch (this.algorithm) {
+            case 'sha1':
+                return (
+                    '0x' +
+                    crypto
+                        .createHash('sha1')
+                        .update(toUtf8Bytes(hexlify(bytes)))
+                        .digest('hex')
+                )
+            case 'keccak256':
+                return '0x' + keccak256(bytes).slice(-40)
+            case 'sha256':
+                return '0x' + sha256(bytes).slice(-40)
+        }
+    }
+
+    /**
+     * True when `commitment` (e.g. emitted in `SrcEscrowCreated`) was made for `address`
+     */
+    public verify(address: string, commitment: string): boolean {
+        return this.commit(address) === commitment.toLowerCase()
+    }
+}
+
+const registry = new Map<number, AddressCommitment>([
+    [APTOS_CHAIN_ID, new AddressCommitment(APTOS_CHAIN_ID, 'sha1', encoderFor('aptos'))]
+])
+
+/**
+ * Set the commitment scheme of a destination chain, makers, the coordinator and verifiers all read it from here
+ */
+export function registerAddressCommitment(
+    chainId: number,
+    algorithm: CommitmentAlgorithm,
+    encoder: AddressEncoder
+): AddressCommitment {
+    const commitment = new AddressCommitment(chainId, algorithm, encoder)
+    registry.set(chainId, commitment)
+
+    return commitment
+}
+
+export function getAddressCommitment(chainId: number): AddressCommitment {
+    const commitment = registry.get(chainId)
+
+    if (!commitment) {
+        throw new Error(`No address commitment registered for destination chain ${chainId}`)
+    }
+
+    return commitment
+}
@@ -1,305 +1,525 @@
-import { Aptos, AptosConfig, Network, Ed25519PrivateKey, Account, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-import { FusionPlusClient } from "./fusion-plus-client";
-import { keccak256 } from 'ethers';
-import crypto from 'crypto';
+import {
+    Aptos,
+    AptosApiError,
+    AptosConfig,
+    Network,
+    Ed25519PrivateKey,
+    Account,
+    PrivateKey,
+    PrivateKeyVariants,
+    InputEntryFunctionData,
+    MoveStructId,
+    TransactionResponse
+} from '@aptos-labs/ts-sdk'
+import {FusionPlusClient} from './fusion-plus-client'
+import {parseAddressOrAsset} from './address-codec'
+import {APTOS_CHAIN_ID, getAddressCommitment} from './address-commitment'
+import {
+    ChainAdapter,
+    DstEscrow,
+    DstEscrowDetails,
+    DstEscrowRequest,
+    DstEscrowState,
+    FeeEstimate,
+    FillPlan,
+    HealthCheck,
+    HealthReport,
+    toHealthReport
+} from './chain-adapter'
+import {AptosClock} from './clock'
+import {logger} from './logger'
+import {defaultRetryPolicy, RetryPolicy} from './retry'
 
 export interface AptosEscrowData {
-  recipientAddress: string;
-  metadata: string;
-  amount: bigint;
-  chainId: number;
-  hash: Uint8Array;
+    recipientAddress: string
+    metadata: string
+    amount: bigint
+    chainId: number
+    hash: Uint8Array
 }
 
-export interface CrossChainEventData {
-  receiverSha1: string;
-  takerAssetSha1: string;
-  amount: bigint;
-  secret: string;
-  originalReceiverAddress: string;
-  originalTakerAssetAddress: string;
+// `Object<T>` values are emitted either as the address or wrapped in `{inner}`
+type MoveObject = string | {inner: string}
+
+/**
+ * Data of the `escrow::EscrowCreatedEvent`, u64 values are emitted as decimal strings
+ */
+type EscrowCreatedEvent = {
+    escrow: MoveObject
+    to: string
+    metadata: MoveObject
+    amount: string
+    hash: string
+    timelock_created_at: string
 }
 
-export class AptosIntegration {
-  private aptos: Aptos;
-  private fusionClient: FusionPlusClient;
-  private contractAddress: string;
-  private resolverAccount: Account;
-
-  constructor(
-    network: Network,
-    contractAddress: string,
-    resolverPrivateKey: string
-  ) {
-    const config = new AptosConfig({ network });
-    this.aptos = new Aptos(config);
-    this.contractAddress = contractAddress;
-    this.fusionClient = new FusionPlusClient(this.aptos, contractAddress);
-    
-    // Create resolver account from private key
-    const formattedPrivateKey = PrivateKey.formatPrivateKey(resolverPrivateKey, PrivateKeyVariants.Ed25519);
-    const resolverPrivateKeyObj = new Ed25519PrivateKey(formattedPrivateKey);
-    this.resolverAccount = Account.fromPrivateKey({ privateKey: resolverPrivateKeyObj });
-  }
-
-  /**
-   * Verify SHA1 hashes match expected Aptos addresses
-   */
-  private verifySha1Hashes(eventData: CrossChainEventData): boolean {
-    const expectedReceiverSha1 = '0x' + crypto.createHash('sha1')
-      .update(eventData.originalReceiverAddress)
-      .digest('hex');
-    
-    const expectedTakerAssetSha1 = '0x' + crypto.createHash('sha1')
-      .update(eventData.originalTakerAssetAddress)
-      .digest('hex');
-
-    // Clean any double 0x prefixes from the incoming data
-    const cleanReceiverSha1 = eventData.receiverSha1.replace(/^0x0x/, '0x');
-    const cleanTakerAssetSha1 = eventData.takerAssetSha1.replace(/^0x0x/, '0x');
-
-    const isReceiverMatch = cleanReceiverSha1.toLowerCase() === expectedReceiverSha1.toLowerCase();
-    const isTakerAssetMatch = cleanTakerAssetSha1.toLowerCase() === expectedTakerAssetSha1.toLowerCase();
-
-    console.log('SHA1 Verification:');
-    console.log('  Receiver match:', isReceiverMatch);
-    console.log('  Taker asset match:', isTakerAssetMatch);
-    console.log('  Expected receiver SHA1:', expectedReceiverSha1);
-    console.log('  Actual receiver SHA1:', cleanReceiverSha1);
-    console.log('  Expected taker asset SHA1:', expectedTakerAssetSha1);
-    console.log('  Actual taker asset SHA1:', cleanTakerAssetSha1);
-
-    return isReceiverMatch && isTakerAssetMatch;
-  }
-
-  /**
-   * Create destination escrow on Aptos based on cross-chain event data
-   */
-  async createDestinationEscrow(eventData: CrossChainEventData): Promise<{
-    txHash: string;
-    escrowAddress?: string;
-  }> {
-    console.log('🔒 Creating destination escrow on Aptos...');
-
-    // Verify SHA1 hashes first
-    if (!this.verifySha1Hashes(eventData)) {
-      throw new Error('SHA1 hash verification failed - addresses do not match');
+// APT as a coin and as its paired fungible asset
+const APT = new Set(['0x1::aptos_coin::AptosCoin', '0xa'].map((id) => parseAddressOrAsset('aptos', id).canonical))
+
+export class AptosIntegration implements ChainAdapter {
+    public readonly chainId = APTOS_CHAIN_ID
+
+    public readonly clock: AptosClock
+
+    private aptos: Aptos
+
+    private fusionClient: FusionPlusClient
+
+    private contractAddress: string
+
+    private resolverAccount: Account
+
+    private log = logger.child({module: 'aptos', chainId: APTOS_CHAIN_ID})
+
+    constructor(
+        network: Network,
+        contractAddress: string,
+        resolverPrivateKey: string,
+        retryPolicy: RetryPolicy = defaultRetryPolicy
+    ) {
+        const config = new AptosConfig({network})
+        this.aptos = new Aptos(config)
+        this.clock = new AptosClock(this.aptos)
+        this.contractAddress = contractAddress
+        this.fusionClient = new FusionPlusClient(this.aptos, contractAddress, retryPolicy)
+
+        // Create resolver account from private key
+        const formattedPrivateKey = PrivateKey.formatPrivateKey(resolverPrivateKey, PrivateKeyVariants.Ed25519)
+        const resolverPrivateKeyObj = new Ed25519PrivateKey(formattedPrivateKey)
+        this.resolverAccount = Account.fromPrivateKey({privateKey: resolverPrivateKeyObj})
     }
 
-    try {
-      // Convert the secret to its Keccak256 hash for hashlock (matching your Aptos contract)
-      const secretBytes = Buffer.from(eventData.secret.replace('0x', ''), 'hex');
-      const hashHex = keccak256(secretBytes); // Returns hex string with 0x prefix
-      const hashBuffer = Buffer.from(hashHex.slice(2), 'hex'); // Remove 0x and convert to buffer
-      const hashArray = Array.from(hashBuffer);
-
-      // Use the original receiver address (not the SHA1 hash)
-      const recipientAddress = eventData.originalReceiverAddress.startsWith('0x') 
-        ? eventData.originalReceiverAddress 
-        : '0x' + eventData.originalReceiverAddress;
-
-      // Use the original taker asset address for metadata (not the SHA1 hash)
-      const metadata = eventData.originalTakerAssetAddress;
-
-      console.log('Escrow parameters:');
-      console.log('  Recipient:', recipientAddress);
-      console.log('  Metadata:', metadata);
-      console.log('  Amount:', eventData.amount.toString());
-      console.log('  Chain ID:', 10); // Optimism chain ID
-      console.log('  Secret length:', eventData.secret.length);
-      console.log('  Hash method: Keccak256');
-      console.log('  Hash hex:', hashHex);
-      console.log('  Hash length:', hashArray.length);
-
-      // Create escrow payload
-      const createEscrowPayload = this.fusionClient.buildTransactionPayload(
-        "escrow::new_from_resolver_entry",
-        [],
-        [
-          recipientAddress, // recipient_address
-          metadata, // metadata (taker asset)
-          Number(eventData.amount), // amount (convert bigint to number)
-          10, // chain_id (Optimism)
-          hashArray, // hash (secret hash)
-        ]
-      );
-
-      console.log('📝 Submitting escrow creation transaction...');
-      const txn = await this.fusionClient.submitTransaction(this.resolverAccount, createEscrowPayload);
-      
-      console.log('✅ Destination escrow created:', txn.hash);
-
-      // Try to get escrow address from events
-      const escrowAddress = await this.getEscrowObjectAddress(txn.hash);
-      
-      return {
-        txHash: txn.hash,
-        escrowAddress
-      };
-
-    } catch (error) {
-      console.error('❌ Failed to create destination escrow:', error);
-      throw error;
+    /**
+     * Create destination escrow on Aptos from the source escrow event
+     */
+    public async createDstEscrow(
+        request: DstEscrowRequest,
+        onSubmitted?: (txHash: string) => void
+    ): Promise<DstEscrow> {
+        const log = this.log.child({orderHash: request.srcImmutables.orderHash})
+        log.info('Creating destination escrow')
+
+        if (!request.receiver || !request.takerAsset) {
+            throw new Error('Aptos escrows need the plaintext receiver and taker asset of the order')
+        }
+
+        // Verify address commitments first
+        if (!this.verifyCommitments(request)) {
+            throw new Error('Address commitment verification failed - addresses do not match')
+        }
+
+        try {
+            const txn = await this.fusionClient.submitTransaction(
+                this.resolverAccount,
+                this.buildCreatePayload(request),
+                onSubmitted
+            )
+            log.info('Destination escrow created', {txHash: txn.hash})
+
+            // Try to get escrow address from events, the transaction is committed once submitTransaction returns
+            const escrowAddress = await this.getEscrowObjectAddress(txn.hash)
+
+            return {
+                chainId: this.chainId,
+                txHash: txn.hash,
+                address: escrowAddress,
+                createdAt: await this.clock.now(),
+                timeLocks: request.srcImmutables.timeLocks
+            }
+        } catch (error) {
+            log.error('Failed to create destination escrow', {error})
+            throw error
+        }
     }
-  }
-
-  /**
-   * Check if escrow is in withdrawable phase
-   */
-  private async checkEscrowPhase(escrowAddress: string): Promise<boolean> {
-    try {
-      // You could add a view function call here to check the escrow phase
-      // For now, we'll just return true and rely on timing
-      console.log('🔍 Checking escrow phase for:', escrowAddress);
-      return true;
-    } catch (error) {
-      console.warn('⚠️ Could not check escrow phase:', error);
-      return false;
+
+    // sequence number of the resolver account
+    public async cursor(): Promise<bigint> {
+        const {sequence_number} = await this.fusionClient.retry('Get resolver account', () =>
+            this.aptos.getAccountInfo({accountAddress: this.resolverAccount.accountAddress})
+        )
+
+        return BigInt(sequence_number)
     }
-  }
-
-  /**
-   * Withdraw from destination escrow using the secret
-   */
-  async withdrawFromDestinationEscrow(escrowAddress: string, secret: string): Promise<string> {
-    console.log('💸 Withdrawing from destination escrow on Aptos...');
-
-    try {
-      // Check if escrow is in correct phase
-      const isWithdrawable = await this.checkEscrowPhase(escrowAddress);
-      if (!isWithdrawable) {
-        console.warn('⚠️ Escrow not in withdrawable phase yet');
-      }
-
-      // Convert secret to bytes array
-      const secretBytes = Buffer.from(secret.replace('0x', ''), 'hex');
-      const secretArray = Array.from(secretBytes);
-
-      const withdrawPayload = this.fusionClient.buildTransactionPayload(
-        "escrow::withdraw",
-        [],
-        [
-          escrowAddress, // escrow object address
-          secretArray, // secret to verify against hashlock
-        ]
-      );
 
-      console.log('📝 Submitting escrow withdraw transaction...');
-      const txn = await this.fusionClient.submitTransaction(this.resolverAccount, withdrawPayload);
-      
-      console.log('✅ Destination escrow withdrawn:', txn.hash);
-      return txn.hash;
+    /**
+     * `EscrowCreatedEvent` with the hashlock of `request` in the resolver transactions from sequence number `cursor` on
+     */
+    public async findDstEscrow(
+        request: DstEscrowRequest,
+        sent: {cursor: bigint; txHash?: string}
+    ): Promise<DstEscrow | undefined> {
+        if (sent.txHash) {
+            // a transaction still pending may be the one, a failed one is not
+            await this.aptos.waitForTransaction({transactionHash: sent.txHash}).catch(() => undefined)
+        }
+
+        const txns = await this.fusionClient.retry('Get resolver transactions', () =>
+            this.aptos.getAccountTransactions({
+                accountAddress: this.resolverAccount.accountAddress,
+                options: {offset: Number(sent.cursor)}
+            })
+        )
+        const hashLock = request.srcImmutables.hashLock.toString().toLowerCase()
+
+        for (const txn of txns) {
+            const event = escrowCreatedEvent(txn)
+
+            if (event && event.hash.toLowerCase() === hashLock) {
+                return {
+                    chainId: this.chainId,
+                    txHash: txn.hash,
+                    address: objectAddress(event.escrow),
+                    createdAt: BigInt(event.timelock_created_at),
+                    timeLocks: request.srcImmutables.timeLocks
+                }
+            }
+        }
 
-    } catch (error) {
-      console.error('❌ Failed to withdraw from destination escrow:', error);
-      throw error;
+        return undefined
     }
-  }
-
-  /**
-   * Get escrow object address from transaction events
-   */
-  private async getEscrowObjectAddress(transactionHash: string): Promise<string | undefined> {
-    console.log('🔍 Getting escrow object address from events...');
-    
-    try {
-      // Use the correct fullnode URL for testnet
-      const fullnodeUrl = this.aptos.config.fullnode || 'https://api.testnet.aptoslabs.com';
-      
-      // Get events from specific transaction
-      const txnResponse = await fetch(`${fullnodeUrl}/v1/transactions/by_hash/${transactionHash}`);
-      
-      if (txnResponse.ok) {
-        const txn = await txnResponse.json() as { events?: any[] };
-        console.log(`📡 Found transaction with ${txn.events?.length || 0} events`);
-        
-        if (txn.events) {
-          for (const event of txn.events) {
-            if (event.type && event.type.includes("EscrowCreatedEvent")) {
-              console.log("🔒 Found EscrowCreatedEvent in transaction!");
-              
-              if (event.data && event.data.escrow) {
-                let escrowAddress = event.data.escrow;
-                
-                // Handle different possible formats
-                if (typeof escrowAddress === 'object' && escrowAddress.inner) {
-                  escrowAddress = escrowAddress.inner;
-                } else if (typeof escrowAddress === 'string') {
-                  // Already a string
-                } else {
-                  escrowAddress = JSON.stringify(escrowAddress);
+
+    /**
+     * Withdraw from destination escrow using the secret, once the withdrawal phase is active on the ledger clock
+     */
+    public async withdraw(escrow: DstEscrow, secret: string): Promise<string> {
+        if (!escrow.address) {
+            throw new Error(`Could not determine the Aptos escrow created in ${escrow.txHash}`)
+        }
+
+        const log = this.log.child({escrow: escrow.address})
+
+        const details = await this.readDstEscrow(escrow)
+        log.info('Waiting for the withdrawal phase', {withdrawalStart: details.withdrawalStart})
+        await this.clock.advanceTo(details.withdrawalStart)
+
+        try {
+            // a withdrawal outside of the phase aborts on chain, don't pay gas for it
+            if (!(await this.checkEscrowPhase(escrow, details))) {
+                throw new Error(`Aptos escrow ${escrow.address} is not in its withdrawal phase`)
+            }
+
+            // Convert secret to bytes array
+            const secretBytes = Buffer.from(secret.replace('0x', ''), 'hex')
+            const secretArray = Array.from(secretBytes)
+
+            const withdrawPayload = this.fusionClient.buildTransactionPayload(
+                'escrow::withdraw',
+                [],
+                [
+                    escrow.address, // escrow object address
+                    secretArray // secret to verify against hashlock
+                ]
+            )
+
+            const txn = await this.fusionClient.submitTransaction(this.resolverAccount, withdrawPayload)
+            log.info('Destination escrow withdrawn', {txHash: txn.hash})
+
+            return txn.hash
+        } catch (error) {
+            log.error('Failed to withdraw from destination escrow', {error})
+            throw error
+        }
+    }
+
+    /**
+     * Return the funds to the resolver through `escrow::recovery` once the cancellation phase started on the ledger clock
+     */
+    public async cancel(escrow: DstEscrow): Promise<string> {
+        if (!escrow.address) {
+            throw new Error(`Could not determine the Aptos escrow created in ${escrow.txHash}`)
+        }
+
+        const {cancellationStart} = await this.readDstEscrow(escrow)
+        await this.clock.advanceTo(cancellationStart)
+
+        const payload = this.fusionClient.buildTransactionPayload('escrow::recovery', [], [escrow.address])
+        const txn = await this.fusionClient.submitTransaction(this.resolverAccount, payload)
+
+        this.log.info('Destination escrow cancelled', {escrow: escrow.address, txHash: txn.hash})
+
+        return txn.hash
+    }
+
+    /**
+     * The escrow object is deleted on withdrawal and recovery, so only its existence is observable. Anything but
+     * the node reporting the object gone is rethrown, a failed read must not pass for a closed escrow
+     */
+    public async getEscrowState(escrow: DstEscrow): Promise<DstEscrowState> {
+        if (!escrow.address) {
+            throw new Error(`Could not determine the Aptos escrow created in ${escrow.txHash}`)
+        }
+
+        const resources = await this.fusionClient
+            .retry('Get escrow resources', () => this.aptos.getAccountResources({accountAddress: escrow.address!}))
+            .catch((error) => {
+                // a deleted object has no resources left, the node answers 404
+                if (error instanceof AptosApiError && error.status === 404) {
+                    return []
                 }
-                
-                console.log("📝 Extracted escrow address:", escrowAddress);
-                return escrowAddress;
-              }
+
+                throw error
+            })
+        const exists = resources.some((r) => r.type === `${this.contractAddress}::escrow::Escrow`)
+
+        return {status: exists ? 'active' : 'closed'}
+    }
+
+    /**
+     * Read the escrow back from the `EscrowCreatedEvent` of its creation transaction, Aptos escrows take no safety deposit.
+     * The destination stages of the order timelocks count from the `timelock_created_at` of the event
+     */
+    public async readDstEscrow(escrow: DstEscrow): Promise<DstEscrowDetails> {
+        if (!escrow.timeLocks) {
+            throw new Error(`No timelocks recorded for the Aptos escrow created in ${escrow.txHash}`)
+        }
+
+        const event = await this.findEscrowCreatedEvent(escrow.txHash)
+
+        if (!event) {
+            throw new Error(`No EscrowCreatedEvent in Aptos transaction ${escrow.txHash}`)
+        }
+
+        const stages = escrow.timeLocks.toDstTimeLocks(BigInt(event.timelock_created_at))
+
+        return {
+            hashLock: event.hash,
+            amount: BigInt(event.amount),
+            token: objectAddress(event.metadata),
+            receiver: event.to,
+            withdrawalStart: stages.privateWithdrawal,
+            cancellationStart: stages.privateCancellation
+        }
+    }
+
+    /**
+     * Simulate the escrow creation with the resolver account
+     */
+    public async estimateFee(request: DstEscrowRequest): Promise<FeeEstimate> {
+        const [simulation] = await this.fusionClient.retry('Simulate escrow creation', async () => {
+            const transaction = await this.aptos.transaction.build.simple({
+                sender: this.resolverAccount.accountAddress,
+                data: this.buildCreatePayload(request)
+            })
+
+            return this.aptos.transaction.simulate.simple({
+                signerPublicKey: this.resolverAccount.publicKey,
+                transaction
+            })
+        })
+
+        return {
+            chainId: this.chainId,
+            fee: BigInt(simulation.gas_used) * BigInt(simulation.gas_unit_price),
+            safetyDeposit: 0n // the Aptos escrow takes no safety deposit
+        }
+    }
+
+    /**
+     * The node answers, the escrow module is deployed and the resolver account can pay for `plan`
+     */
+    public async healthCheck(plan?: FillPlan): Promise<HealthReport> {
+        let modules: string[]
+
+        try {
+            modules = (await this.getContractInfo()).modules
+        } catch (error) {
+            return toHealthReport(this.chainId, [
+                {name: 'rpc', ok: false, reason: `Aptos node does not answer: ${(error as Error).message}`}
+            ])
+        }
+
+        const checks: HealthCheck[] = [
+            modules.includes('escrow')
+                ? {name: 'contract', ok: true}
+                : {name: 'contract', ok: false, reason: `no escrow module at ${this.contractAddress}`}
+        ]
+
+        if (plan) {
+            checks.push(...(await this.checkBalances(plan)))
+        }
+
+        return toHealthReport(this.chainId, checks)
+    }
+
+    /**
+     * Get resolver account address
+     */
+    public getResolverAddress(): string {
+        return this.resolverAccount.accountAddress.toString()
+    }
+
+    /**
+     * Get contract info
+     */
+    public async getContractInfo(): ReturnType<FusionPlusClient['getContractInfo']> {
+        return this.fusionClient.getContractInfo()
+    }
+
+    /**
+     * Verify the commitments emitted on the source chain were made for the Aptos addresses we are paying out to
+     */
+    private verifyCommitments(request: DstEscrowRequest): boolean {
+        const commitment = getAddressCommitment(request.dstChainId)
+        const receiverCommitment = request.complement.maker.toString()
+        const takerAssetCommitment = request.complement.token.toString()
+
+        const isReceiverMatch = commitment.verify(request.receiver!, receiverCommitment)
+        const isTakerAssetMatch = commitment.verify(request.takerAsset!, takerAssetCommitment)
+
+        this.log.info('Address commitments verified', {
+            orderHash: request.srcImmutables.orderHash,
+            algorithm: commitment.algorithm,
+            receiverMatch: isReceiverMatch,
+            takerAssetMatch: isTakerAssetMatch,
+            expectedReceiverCommitment: commitment.commit(request.receiver!),
+            receiverCommitment,
+            expectedTakerAssetCommitment: commitment.commit(request.takerAsset!),
+            takerAssetCommitment
+        })
+
+        return isReceiverMatch && isTakerAssetMatch
+    }
+
+    /**
+     * `escrow::new_from_resolver_entry` paying the plaintext receiver and asset, locked by the source hashlock
+     */
+    private buildCreatePayload(request: DstEscrowRequest): InputEntryFunctionData {
+        // Use the original receiver address (not the commitment)
+        const recipientAddress = request.receiver!.startsWith('0x') ? request.receiver! : '0x' + request.receiver
+        const hashArray = Array.from(Buffer.from(request.srcImmutables.hashLock.toString().slice(2), 'hex'))
+
+        this.log.debug('Escrow parameters', {
+            orderHash: request.srcImmutables.orderHash,
+            recipient: recipientAddress,
+            metadata: request.takerAsset,
+            amount: request.complement.amount,
+            srcChainId: request.srcChainId,
+            hashLock: request.srcImmutables.hashLock.toString()
+        })
+
+        return this.fusionClient.buildTransactionPayload(
+            'escrow::new_from_resolver_entry',
+            [],
+            [
+                recipientAddress, // recipient_address
+                request.takerAsset, // metadata (taker asset)
+                request.complement.amount, // amount, u64
+                request.srcChainId, // chain_id of the source escrow
+                hashArray // hash (secret hash)
+            ]
+        )
+    }
+
+    /**
+     * The escrow still exists and the ledger clock is between its withdrawal and cancellation start
+     */
+    private async checkEscrowPhase(escrow: DstEscrow, details: DstEscrowDetails): Promise<boolean> {
+        const [{status}, now] = await Promise.all([this.getEscrowState(escrow), this.clock.now()])
+        this.log.debug('Checking escrow phase', {
+            escrow: escrow.address,
+            status,
+            now,
+            withdrawalStart: details.withdrawalStart,
+            cancellationStart: details.cancellationStart
+        })
+
+        return status === 'active' && now >= details.withdrawalStart && now < details.cancellationStart
+    }
+
+    /**
+     * The resolver account funds the escrow itself, so it must hold the fill and, for APT fills, the APT on top
+     */
+    private async checkBalances(plan: FillPlan): Promise<HealthCheck[]> {
+        const accountAddress = this.resolverAccount.accountAddress
+        const amount = plan.amount ?? 0n
+
+        try {
+            const nativeFill = plan.token === undefined || APT.has(parseAddressOrAsset('aptos', plan.token).canonical)
+            const nativeNeeded = plan.safetyDeposit + (nativeFill ? amount : 0n)
+            const nativeBalance = BigInt(
+                await this.fusionClient.retry('Get resolver APT', () =>
+                    this.aptos.getAccountAPTAmount({accountAddress})
+                )
+            )
+
+            const checks: HealthCheck[] = [
+                nativeBalance >= nativeNeeded
+                    ? {name: 'nativeBalance', ok: true}
+                    : {
+                          name: 'nativeBalance',
+                          ok: false,
+                          reason: `resolver ${accountAddress} has ${nativeBalance} octas, needs ${nativeNeeded}`
+                      }
+            ]
+
+            if (!nativeFill && amount > 0n) {
+                const token = plan.token!
+                const tokenBalance = BigInt(
+                    await this.fusionClient.retry('Get resolver balance', () =>
+                        this.aptos.getAccountCoinAmount(
+                            token.includes('::')
+                                ? {accountAddress, coinType: token as MoveStructId}
+                                : {accountAddress, faMetadataAddress: token}
+                        )
+                    )
+                )
+
+                checks.push(
+                    tokenBalance >= amount
+                        ? {name: 'tokenBalance', ok: true}
+                        : {
+                              name: 'tokenBalance',
+                              ok: false,
+                              reason: `resolver ${accountAddress} holds ${tokenBalance} of ${token}, needs ${amount}`
+                          }
+                )
             }
-          }
+
+            return checks
+        } catch (error) {
+            return [{name: 'balances', ok: false, reason: `balances could not be read: ${(error as Error).message}`}]
         }
-      }
-      
-      console.log("⚠️ No EscrowCreatedEvent found in transaction events");
-      return undefined;
-      
-    } catch (error) {
-      console.error("❌ Error fetching escrow address from events:", error);
-      return undefined;
     }
-  }
-
-  /**
-   * Complete cross-chain swap process
-   */
-  async completeCrossChainSwap(eventData: CrossChainEventData): Promise<{
-    createTxHash: string;
-    withdrawTxHash?: string;
-    escrowAddress?: string;
-  }> {
-    console.log('🌉 Starting cross-chain swap completion on Aptos...');
-
-    // Step 1: Create destination escrow
-    const { txHash: createTxHash, escrowAddress } = await this.createDestinationEscrow(eventData);
-
-    // Step 2: Wait for transaction to be processed
-    console.log('⏳ Waiting for escrow creation to be processed...');
-    await new Promise(resolve => setTimeout(resolve, 5000));
-
-    // Step 3: Wait for withdrawal phase to become active (like in your original tests)
-    console.log('⏳ Waiting for withdrawal phase to become active (15 seconds)...');
-    await new Promise(resolve => setTimeout(resolve, 15000)); // Wait 15 seconds for withdrawal phase
-
-    // Step 4: Withdraw from destination escrow if we have the address
-    let withdrawTxHash: string | undefined;
-    
-    if (escrowAddress) {
-      try {
-        withdrawTxHash = await this.withdrawFromDestinationEscrow(escrowAddress, eventData.secret);
-      } catch (error) {
-        console.warn('⚠️ Failed to withdraw from destination escrow:', error);
-        // Don't throw error here, return partial success
-      }
-    } else {
-      console.warn('⚠️ Could not determine escrow address, skipping withdrawal');
+
+    private async findEscrowCreatedEvent(transactionHash: string): Promise<EscrowCreatedEvent | undefined> {
+        const txn = await this.fusionClient.retry('Get escrow creation', () =>
+            this.aptos.getTransactionByHash({transactionHash})
+        )
+
+        return escrowCreatedEvent(txn)
     }
 
-    return {
-      createTxHash,
-      withdrawTxHash,
-      escrowAddress
-    };
-  }
-
-  /**
-   * Get resolver account address
-   */
-  getResolverAddress(): string {
-    return this.resolverAccount.accountAddress.toString();
-  }
-
-  /**
-   * Get contract info
-   */
-  async getContractInfo() {
-    return this.fusionClient.getContractInfo();
-  }
-}
\ No newline at end of file
+    /**
+     * Get escrow object address from transaction events
+     */
+    private async getEscrowObjectAddress(transactionHash: string): Promise<string | undefined> {
+        try {
+            const event = await this.findEscrowCreatedEvent(transactionHash)
+
+            if (!event?.escrow) {
+                this.log.warn('No EscrowCreatedEvent in transaction', {txHash: transactionHash})
+
+                return undefined
+            }
+
+            const escrowAddress = objectAddress(event.escrow)
+            this.log.debug('Escrow address from EscrowCreatedEvent', {txHash: transactionHash, escrow: escrowAddress})
+
+            return escrowAddress
+        } catch (error) {
+            this.log.error('Could not fetch the escrow address from events', {txHash: transactionHash, error})
+
+            return undefined
+        }
+    }
+}
+
+function escrowCreatedEvent(txn: TransactionResponse): EscrowCreatedEvent | undefined {
+    const events = 'events' in txn ? txn.events : []
+
+    return events.find((e) => e.type.includes('EscrowCreatedEvent'))?.data as EscrowCreatedEvent | undefined
+}
+
+function objectAddress(object: MoveObject): string {
+    return typeof object === 'string' ? object : object.inner
+}
@@ -0,0 +1,134 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {Clock} from './clock'
+
+/**
+ * Everything a destination chain needs to lock the taker side of an order, taken from `SrcEscrowCreated`
+ */
+export type DstEscrowRequest = {
+    srcChainId: number
+    dstChainId: number
+    srcImmutables: Sdk.Immutables
+    complement: Sdk.DstImmutablesComplement
+    // plaintext destination receiver and asset, required when the order only holds commitments to them
+    receiver?: string
+    takerAsset?: string
+}
+
+export type DstEscrow = {
+    chainId: number
+    txHash: string
+    // undefined when the chain did not report it
+    address?: string
+    // escrow creation time on the destination chain clock, seconds
+    createdAt: bigint
+    // set by EVM adapters, needed to withdraw or cancel
+    immutables?: Sdk.Immutables
+    // timelocks of the order, set by adapters whose escrows count the destination stages from `createdAt` on their own
+    timeLocks?: Sdk.TimeLocks
+}
+
+export type DstEscrowStatus =
+    | 'active'
+    | 'withdrawn'
+    | 'cancelled'
+    // gone, but the chain does not tell whether it was withdrawn or cancelled
+    | 'closed'
+
+export type DstEscrowState = {
+    status: DstEscrowStatus
+    // remaining balance of the escrowed token, when the chain exposes it
+    balance?: bigint
+    // revealed secret, when the chain exposes it
+    secret?: string
+}
+
+/**
+ * Destination escrow as read back from the chain, addresses in the chain's own notation
+ */
+export type DstEscrowDetails = {
+    hashLock: string
+    // amount of `token` the escrow holds for the receiver
+    amount: bigint
+    token: string
+    receiver: string
+    // undefined on chains whose escrows take no safety deposit
+    safetyDeposit?: bigint
+    // timestamp from which the receiver can be paid out with the secret
+    withdrawalStart: bigint
+    // timestamp from which the escrow can be cancelled
+    cancellationStart: bigint
+}
+
+export type FeeEstimate = {
+    chainId: number
+    // network fee of creating the escrow in the smallest native unit (wei, octa)
+    fee: bigint
+    // native deposit locked together with the escrow, returned on withdrawal or cancellation
+    safetyDeposit: bigint
+}
+
+/**
+ * What the resolver is about to spend on a chain, so a health check can tell whether it can pay for it
+ */
+export type FillPlan = {
+    // native value sent with the escrow creation
+    safetyDeposit: bigint
+    // token the resolver pays into the escrow in the chain's own notation, native when omitted
+    token?: string
+    amount?: bigint
+    // gas of the escrow creation on EVM chains, a typical `Resolver.deployDst` is assumed when omitted
+    gasLimit?: bigint
+}
+
+export type HealthCheck = {
+    name: string
+    ok: boolean
+    // why the check failed
+    reason?: string
+}
+
+export type HealthReport = {
+    chainId: number
+    healthy: boolean
+    checks: HealthCheck[]
+}
+
+export class UnhealthyChainError extends Error {
+    constructor(public readonly report: HealthReport) {
+        super(
+            `Chain ${report.chainId} is not ready: ` +
+                report.checks
+                    .filter((c) => !c.ok)
+                    .map((c) => `${c.name}: ${c.reason}`)
+                    .join('; ')
+        )
+        this.name = 'UnhealthyChainError'
+    }
+}
+
+export function toHealthReport(chainId: number, checks: HealthCheck[]): HealthReport {
+    return {chainId, healthy: checks.every((c) => c.ok), checks}
+}
+
+/**
+ * Destination chain as seen by `CrossChainCoordinator`, one implementation per chain family
+ */
+export interface ChainAdapter {
+    readonly chainId: number
+    // the escrow timelocks are checked against this clock
+    readonly clock: Clock
+    // `onSubmitted` gets the transaction hash before it is awaited, e.g. to journal it
+    createDstEscrow(request: DstEscrowRequest, onSubmitted?: (txHash: string) => void): Promise<DstEscrow>
+    // chain position `findDstEscrow` searches from, taken before the escrow creation is sent
+    cursor(): Promise<bigint>
+    // escrow of `request` created since `sent.cursor`, to resume a creation interrupted before it was journalled
+    findDstEscrow(request: DstEscrowRequest, sent: {cursor: bigint; txHash?: string}): Promise<DstEscrow | undefined>
+    // waits until the escrow accepts withdrawals on the chain clock
+    withdraw(escrow: DstEscrow, secret: string): Promise<string>
+    cancel(escrow: DstEscrow): Promise<string>
+    getEscrowState(escrow: DstEscrow): Promise<DstEscrowState>
+    readDstEscrow(escrow: DstEscrow): Promise<DstEscrowDetails>
+    estimateFee(request: DstEscrowRequest): Promise<FeeEstimate>
+    // balances are only checked when `plan` is given
+    healthCheck(plan?: FillPlan): Promise<HealthReport>
+}
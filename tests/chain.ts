@@ -0,0 +1,205 @@
+import {createServer, CreateServerReturnType} from 'prool'
+import {anvil} from 'prool/instances'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {
+    computeAddress,
+    Contract,
+    ContractFactory,
+    JsonRpcProvider,
+    JsonRpcApiProviderOptions,
+    Networkish,
+    parseEther,
+    PerformActionRequest,
+    parseUnits,
+    toBeHex,
+    Wallet as SignerWallet
+} from 'ethers'
+import assert from 'node:assert'
+import {ChainConfig, config} from './config'
+import {Clock, EvmClock} from './clock'
+import {ContractArtifact, DeploymentManager} from './deployments'
+import {logger} from './logger'
+import {defaultRetryPolicy, RetryPolicy, withRetry} from './retry'
+import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
+import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
+import lopContract from '../dist/contracts/LimitOrderProtocol.sol/LimitOrderProtocol.json'
+import wrappedNativeContract from '../dist/contracts/WrappedTokenMock.sol/WrappedTokenMock.json'
+import tokenContract from '../dist/contracts/TokenCustomDecimalsMock.sol/TokenCustomDecimalsMock.json'
+import trueErc20Contract from '../dist/contracts/ERC20True.sol/ERC20True.json'
+
+const {Address} = Sdk
+
+export type Chain = {
+    config: ChainConfig
+    node?: CreateServerReturnType | undefined
+    provider: JsonRpcProvider
+    clock: Clock
+    escrowFactory: string
+    resolver: string
+    createFork: boolean
+}
+
+/**
+ * Connect to any registered chain. EscrowFactory and Resolver come from the config when set, otherwise from
+ * the deployments manifest, and are only deployed (deterministically) when the manifest has no matching entry.
+ */
+export async function initChain(chainConfig: ChainConfig): Promise<Chain> {
+    const {node, provider} = await getProvider(chainConfig)
+    const deployer = new SignerWallet(chainConfig.ownerPrivateKey, provider)
+
+    const cnf = chainConfig.local ? await deployLocalProtocol(chainConfig, provider, deployer) : chainConfig
+    const log = logger.child({module: 'chain', chainId: cnf.chainId, chain: cnf.name})
+
+    const deployments = new DeploymentManager(provider, deployer, cnf.chainId, {
+        ...config.deployments,
+        persist: !cnf.createFork && !cnf.local
+    })
+
+    // deploy EscrowFactory
+    const escrowFactory =
+        cnf.escrowFactory ??
+        (await deployments.deploy('TestEscrowFactory', factoryContract, [
+            cnf.limitOrderProtocol,
+            cnf.wrappedNative, // feeToken,
+            Address.fromBigInt(0n).toString(), // accessToken,
+            deployer.address, // owner
+            60 * 30, // src rescue delay
+            60 * 30 // dst rescue delay
+        ]))
+    log.info('Escrow factory ready', {escrowFactory})
+
+    // deploy Resolver contract
+    const resolver =
+        cnf.resolver ??
+        (await deployments.deploy('Resolver', resolverContract, [
+            escrowFactory,
+            cnf.limitOrderProtocol,
+            computeAddress(cnf.resolverPrivateKey) // resolver as owner of contract
+        ]))
+    log.info('Resolver ready', {resolver})
+
+    const clock = new EvmClock(provider, Boolean(node))
+
+    return {config: cnf, node, provider, clock, resolver, escrowFactory, createFork: cnf.createFork}
+}
+
+/**
+ * Deploy the Limit Order Protocol, wrapped native and a mintable token per configured symbol on a bare anvil,
+ * then fund the maker (owner key) and the resolver with native and tokens.
+ *
+ * Orders are signed against the canonical LOP address and the SDK points `takerAsset` at `TRUE_ERC20`,
+ * so the runtime code of both is placed at those addresses.
+ */
+async function deployLocalProtocol(
+    cnf: ChainConfig,
+    provider: JsonRpcProvider,
+    deployer: SignerWallet
+): Promise<ChainConfig> {
+    const wrappedNative = await deploy(wrappedNativeContract, ['Wrapped Ether', 'WETH'], provider, deployer)
+
+    const lop = await deploy(lopContract, [wrappedNative], provider, deployer)
+    await provider.send('anvil_setCode', [cnf.limitOrderProtocol, await provider.getCode(lop)])
+
+    const trueErc20 = Sdk.TRUE_ERC20[cnf.chainId as Sdk.SupportedChain]
+
+    if (trueErc20) {
+        const impl = await deploy(trueErc20Contract, [], provider, deployer)
+        await provider.send('anvil_setCode', [trueErc20.toString(), await provider.getCode(impl)])
+    }
+
+    const tokens: ChainConfig['tokens'] = {}
+
+    for (const [symbol, token] of Object.entries(cnf.tokens)) {
+        tokens[symbol] = {
+            address: await deploy(tokenContract, [symbol, symbol, 0, token.decimals], provider, deployer),
+            decimals: token.decimals
+        }
+    }
+
+    for (const account of [deployer.address, computeAddress(cnf.resolverPrivateKey)]) {
+        await provider.send('anvil_setBalance', [account, toBeHex(parseEther('1000'))])
+
+        for (const token of Object.values(tokens)) {
+            const mintable = new Contract(token.address, tokenContract.abi, deployer)
+            await (await mintable.mint(account, parseUnits('1000000', token.decimals))).wait()
+        }
+    }
+
+    logger.info('Local protocol deployed', {module: 'chain', chainId: cnf.chainId, wrappedNative})
+
+    return {...cnf, wrappedNative, tokens}
+}
+
+/**
+ * Provider retrying the reads it performs under a `RetryPolicy`. Broadcasts are not retried here, `Wallet.send`
+ * retries them signed again, nor are the `send` calls used for anvil cheat codes.
+ */
+export class RetryingJsonRpcProvider extends JsonRpcProvider {
+    constructor(
+        url: string,
+        network: Networkish,
+        options: JsonRpcApiProviderOptions,
+        public readonly retryPolicy: RetryPolicy = defaultRetryPolicy
+    ) {
+        super(url, network, options)
+    }
+
+    public override async _perform(req: PerformActionRequest): Promise<unknown> {
+        if (req.method === 'broadcastTransaction') {
+            return super._perform(req)
+        }
+
+        return withRetry(req.method, () => super._perform(req), {
+            policy: this.retryPolicy,
+            log: logger.child({module: 'provider'})
+        })
+    }
+}
+
+export async function getProvider(
+    cnf: ChainConfig
+): Promise<{node?: CreateServerReturnType; provider: JsonRpcProvider}> {
+    if (!cnf.createFork && !cnf.local) {
+        return {
+            provider: new RetryingJsonRpcProvider(cnf.url, cnf.chainId, {
+                cacheTimeout: -1,
+                staticNetwork: true
+            })
+        }
+    }
+
+    const node = createServer({
+        instance: anvil(cnf.local ? {chainId: cnf.chainId} : {forkUrl: cnf.url, chainId: cnf.chainId}),
+        limit: 1
+    })
+    await node.start()
+
+    const address = node.address()
+    assert(address)
+
+    const provider = new RetryingJsonRpcProvider(`http://[${address.address}]:${address.port}/1`, cnf.chainId, {
+        cacheTimeout: -1,
+        staticNetwork: true
+    })
+
+    return {
+        provider,
+        node
+    }
+}
+
+/**
+ * Deploy contract and return its address
+ */
+export async function deploy(
+    json: ContractArtifact,
+    params: unknown[],
+    provider: JsonRpcProvider,
+    deployer: SignerWallet
+): Promise<string> {
+    const deployed = await new ContractFactory(json.abi, json.bytecode, deployer).deploy(...params)
+    await deployed.waitForDeployment()
+
+    return await deployed.getAddress()
+}
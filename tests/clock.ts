@@ -0,0 +1,157 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {Aptos} from '@aptos-labs/ts-sdk'
+import {JsonRpcProvider} from 'ethers'
+import {withRetry} from './retry'
+
+/**
+ * Chain time source. Escrow timelocks are checked against the block (or ledger) timestamp,
+ * so waiting for a stage means waiting for the chain clock, not the local one.
+ */
+export interface Clock {
+    /** Latest block timestamp in seconds */
+    now(): Promise<bigint>
+    /** Resolves once a block with timestamp >= `timestamp` exists */
+    advanceTo(timestamp: bigint): Promise<void>
+    advance(seconds: bigint): Promise<void>
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Poll `clock` until it reaches `timestamp`, used on chains whose time can not be manipulated
+ */
+async function waitFor(clock: Clock, timestamp: bigint, pollIntervalMs: number): Promise<void> {
+    let now = await clock.now()
+
+    while (now < timestamp) {
+        await sleep(Math.max(Number(timestamp - now) * 1000, pollIntervalMs))
+        now = await clock.now()
+    }
+}
+
+/**
+ * EVM chain clock. On anvil (local node or fork) time is moved with `anvil_setNextBlockTimestamp`/`evm_increaseTime`
+ * and a block is mined right away, on live chains it waits until a block with the requested timestamp appears.
+ */
+export class EvmClock implements Clock {
+    constructor(
+        private readonly provider: JsonRpcProvider,
+        // true for anvil, which accepts the time manipulation RPC methods
+        public readonly controllable: boolean,
+        private readonly pollIntervalMs = 1000
+    ) {}
+
+    public async now(): Promise<bigint> {
+        return BigInt((await this.provider.getBlock('latest'))!.timestamp)
+    }
+
+    public async advanceTo(timestamp: bigint): Promise<void> {
+        if (!this.controllable) {
+            return waitFor(this, timestamp, this.pollIntervalMs)
+        }
+
+        if ((await this.now()) >= timestamp) {
+            return
+        }
+
+        await this.provider.send('anvil_setNextBlockTimestamp', [Number(timestamp)])
+        await this.provider.send('evm_mine', [])
+    }
+
+    public async advance(seconds: bigint): Promise<void> {
+        if (!this.controllable) {
+            return waitFor(this, (await this.now()) + seconds, this.pollIntervalMs)
+        }
+
+        await this.provider.send('evm_increaseTime', [Number(seconds)])
+        await this.provider.send('evm_mine', [])
+    }
+}
+
+/**
+ * Aptos ledger clock, its time can not be moved so it always waits
+ */
+export class AptosClock implements Clock {
+    constructor(
+        private readonly aptos: Aptos,
+        private readonly pollIntervalMs = 1000
+    ) {}
+
+    public async now(): Promise<bigint> {
+        const {ledger_timestamp} = await withRetry('Get ledger info', () => this.aptos.getLedgerInfo())
+
+        // ledger timestamp is in microseconds
+        return BigInt(ledger_timestamp) / 1_000_000n
+    }
+
+    public async advanceTo(timestamp: bigint): Promise<void> {
+        return waitFor(this, timestamp, this.pollIntervalMs)
+    }
+
+    public async advance(seconds: bigint): Promise<void> {
+        return waitFor(this, (await this.now()) + seconds, this.pollIntervalMs)
+    }
+}
+
+/**
+ * Timestamp at which `stage` starts on the source escrow
+ */
+export function srcStageStart(timeLocks: Sdk.SrcTimeLocks, stage: Sdk.SrcStage): bigint {
+    switch (stage) {
+        case Sdk.SrcStage.FinalityLock:
+            return timeLocks.deployedAt
+        case Sdk.SrcStage.PrivateWithdrawal:
+            return timeLocks.privateWithdrawal
+        case Sdk.SrcStage.PublicWithdrawal:
+            return timeLocks.publicWithdrawal
+        case Sdk.SrcStage.PrivateCancellation:
+            return timeLocks.privateCancellation
+        case Sdk.SrcStage.PublicCancellation:
+            return timeLocks.publicCancellation
+    }
+}
+
+/**
+ * Timestamp at which `stage` starts on the destination escrow
+ */
+export function dstStageStart(timeLocks: Sdk.DstTimeLocks, stage: Sdk.DstStage): bigint {
+    switch (stage) {
+        case Sdk.DstStage.FinalityLock:
+            return timeLocks.deployedAt
+        case Sdk.DstStage.PrivateWithdrawal:
+            return timeLocks.privateWithdrawal
+        case Sdk.DstStage.PublicWithdrawal:
+            return timeLocks.publicWithdrawal
+        case Sdk.DstStage.PrivateCancellation:
+            return timeLocks.privateCancellation
+    }
+}
+
+/**
+ * Move the chain to the start of a source escrow stage, e.g. `Sdk.SrcStage.PublicWithdrawal`.
+ * `timeLocks` must carry the escrow deploy time, as the ones from `SrcEscrowCreated` immutables do.
+ */
+export async function advanceToSrcStage(
+    clock: Clock,
+    timeLocks: Sdk.TimeLocks | Sdk.SrcTimeLocks,
+    stage: Sdk.SrcStage
+): Promise<void> {
+    const src = timeLocks instanceof Sdk.TimeLocks ? timeLocks.toSrcTimeLocks() : timeLocks
+
+    await clock.advanceTo(srcStageStart(src, stage))
+}
+
+/**
+ * Move the chain to the start of a destination escrow stage, e.g. `Sdk.DstStage.PrivateWithdrawal`
+ */
+export async function advanceToDstStage(
+    clock: Clock,
+    timeLocks: Sdk.TimeLocks | Sdk.DstTimeLocks,
+    stage: Sdk.DstStage
+): Promise<void> {
+    const dst = timeLocks instanceof Sdk.TimeLocks ? timeLocks.toDstTimeLocks() : timeLocks
+
+    await clock.advanceTo(dstStageStart(dst, stage))
+}
@@ -1,6 +1,8 @@
 import {z} from 'zod'
 import Sdk from '@1inch/cross-chain-sdk'
 import * as process from 'node:process'
+import {GasSettings} from './fees'
+import {redact} from './logger'
 
 const bool = z
     .string()
@@ -8,32 +10,195 @@ const bool = z
     .pipe(z.boolean())
 
 const ConfigSchema = z.object({
-    SRC_CHAIN_RPC: z.string().url().default(process.env.SRC_CHAIN_RPC || 'https://optimism.publicnode.com'),
+    SRC_CHAIN_ID: z.coerce.number().int().default(Sdk.NetworkEnum.OPTIMISM),
+    SRC_CHAIN_RPC: z.string().url().optional(),
     SRC_CHAIN_CREATE_FORK: bool.default('false'), // Changed to false for real Optimism transactions
+    SRC_CHAIN_LOCAL: bool.optional(),
+    DST_CHAIN_ID: z.coerce.number().int().default(Sdk.NetworkEnum.OPTIMISM),
+    DST_CHAIN_RPC: z.string().url().optional(),
+    DST_CHAIN_CREATE_FORK: bool.default('false'),
+    DST_CHAIN_LOCAL: bool.optional(),
+    DEPLOYMENTS_MANIFEST: z.string().default('deployments.json'),
+    DEPLOYMENT_SALT: z
+        .string()
+        .regex(/^0x[0-9a-fA-F]{64}$/)
+        .default('0x0000000000000000000000000000000000000000000000000000000000000000'),
+    CREATE3_DEPLOYER: z.string().optional(), // deploy through an ICreate3Deployer instead of CREATE2
     OPTIMISM_PRIVATE_KEY: z.string().optional(), // Add private key for real transactions
     OPTIMISM_RESOLVER_PRIVATE_KEY: z.string().optional() // Add resolver private key
 })
 
 const fromEnv = ConfigSchema.parse(process.env)
 
+export const LOCAL_CHAIN_ID = 31337
+
+export type TokenConfig = {
+    address: string
+    decimals: number
+    donor?: string // account impersonated on forks to fund test wallets
+}
+
+export type ChainConfig = {
+    chainId: number
+    name: string
+    url: string
+    createFork: boolean
+    // spawn an unforked anvil with this chainId and deploy LOP, tokens and escrow contracts on it, `url` is ignored
+    local?: boolean
+    limitOrderProtocol: string
+    wrappedNative: string
+    ownerPrivateKey: string
+    resolverPrivateKey: string
+    tokens: Record<string, TokenConfig>
+    // already deployed contracts, deployed on the fly by `initChain` when omitted
+    escrowFactory?: string
+    resolver?: string
+    // gas estimation and fee strategy of `Wallet.fromChain` wallets
+    gas?: Partial<GasSettings>
+}
+
+// the same EVM keys are used on every registered chain, defaults are anvil's first and third accounts
+const ownerPrivateKey =
+    fromEnv.OPTIMISM_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const resolverPrivateKey =
+    fromEnv.OPTIMISM_RESOLVER_PRIVATE_KEY || '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+redact(ownerPrivateKey)
+redact(resolverPrivateKey)
+
+// 1inch Limit Order Protocol v4 has the same address on every supported chain
+const limitOrderProtocol = '0x111111125421ca6dc452d289314280a0f8842a65'
+
+const chains: Record<number, ChainConfig> = {
+    [Sdk.NetworkEnum.OPTIMISM]: {
+        chainId: Sdk.NetworkEnum.OPTIMISM,
+        name: 'Optimism',
+        url: 'https://optimism.publicnode.com',
+        createFork: false,
+        limitOrderProtocol,
+        wrappedNative: '0x4200000000000000000000000000000000000006', // WETH on Optimism
+        ownerPrivateKey,
+        resolverPrivateKey,
+        tokens: {
+            USDC: {
+                address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC on Optimism
+                decimals: 6,
+                donor: '0x7f90122bf0700f9e7e1f688fe926940e8839f353' // USDC whale on Optimism
+            }
+        }
+    },
+    [Sdk.NetworkEnum.COINBASE]: {
+        chainId: Sdk.NetworkEnum.COINBASE,
+        name: 'Base',
+        url: 'https://base.publicnode.com',
+        createFork: false,
+        limitOrderProtocol,
+        wrappedNative: '0x4200000000000000000000000000000000000006', // WETH on Base
+        ownerPrivateKey,
+        resolverPrivateKey,
+        tokens: {
+            USDC: {
+                address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base
+                decimals: 6
+            }
+        }
+    },
+    [Sdk.NetworkEnum.ARBITRUM]: {
+        chainId: Sdk.NetworkEnum.ARBITRUM,
+        name: 'Arbitrum',
+        url: 'https://arbitrum-one.publicnode.com',
+        createFork: false,
+        limitOrderProtocol,
+        wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH on Arbitrum
+        ownerPrivateKey,
+        resolverPrivateKey,
+        tokens: {
+            USDC: {
+                address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC on Arbitrum
+                decimals: 6
+            }
+        }
+    },
+    [Sdk.NetworkEnum.BINANCE]: {
+        chainId: Sdk.NetworkEnum.BINANCE,
+        name: 'BSC',
+        url: 'https://bsc-rpc.publicnode.com',
+        createFork: false,
+        limitOrderProtocol,
+        wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+        ownerPrivateKey,
+        resolverPrivateKey,
+        tokens: {
+            USDC: {
+                address: '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d', // Binance-Peg USDC, 18 decimals
+                decimals: 18,
+                donor: '0x4188663a85C92EEa35b5AD3AA5cA7CeB237C6fe9'
+            }
+        }
+    },
+    [LOCAL_CHAIN_ID]: {
+        chainId: LOCAL_CHAIN_ID,
+        name: 'Local',
+        url: 'http://127.0.0.1:8545',
+        createFork: false,
+        local: true,
+        // wrapped native and tokens are deployed by `initChain` and filled in on the returned config
+        limitOrderProtocol,
+        wrappedNative: '0x0000000000000000000000000000000000000000',
+        ownerPrivateKey,
+        resolverPrivateKey,
+        tokens: {
+            USDC: {
+                address: '0x0000000000000000000000000000000000000000',
+                decimals: 6
+            }
+        }
+    }
+}
+
+/**
+ * Returns the registered config of `chainId` with optional rpc/fork overrides applied
+ */
+export function getChainConfig(
+    chainId: number,
+    overrides: {url?: string; createFork?: boolean; local?: boolean} = {}
+): ChainConfig {
+    const cnf = chains[chainId]
+
+    if (!cnf) {
+        throw new Error(`Chain ${chainId} is not registered, known chains: ${Object.keys(chains).join(', ')}`)
+    }
+
+    return {
+        ...cnf,
+        url: overrides.url ?? cnf.url,
+        createFork: overrides.createFork ?? cnf.createFork,
+        local: overrides.local ?? cnf.local
+    }
+}
+
+export function isRegisteredChain(chainId: number): boolean {
+    return chainId in chains
+}
+
 export const config = {
+    chains,
+    deployments: {
+        manifestPath: fromEnv.DEPLOYMENTS_MANIFEST,
+        salt: fromEnv.DEPLOYMENT_SALT,
+        strategy: fromEnv.CREATE3_DEPLOYER
+            ? ({kind: 'create3', deployer: fromEnv.CREATE3_DEPLOYER} as const)
+            : ({kind: 'create2'} as const)
+    },
     chain: {
-        source: {
-            chainId: 10, // Changed to Optimism
+        source: getChainConfig(fromEnv.SRC_CHAIN_ID, {
             url: fromEnv.SRC_CHAIN_RPC,
             createFork: fromEnv.SRC_CHAIN_CREATE_FORK,
-            limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
-            wrappedNative: '0x4200000000000000000000000000000000000006', // WETH on Optimism
-            ownerPrivateKey: fromEnv.OPTIMISM_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-            resolverPrivateKey: fromEnv.OPTIMISM_RESOLVER_PRIVATE_KEY || '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
-            tokens: {
-                USDC: {
-                    address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC on Optimism
-                    donor: '0x7f90122bf0700f9e7e1f688fe926940e8839f353' // USDC whale on Optimism
-                }
-            }
-        }
+            local: fromEnv.SRC_CHAIN_LOCAL
+        }),
+        destination: getChainConfig(fromEnv.DST_CHAIN_ID, {
+            url: fromEnv.DST_CHAIN_RPC,
+            createFork: fromEnv.DST_CHAIN_CREATE_FORK,
+            local: fromEnv.DST_CHAIN_LOCAL
+        })
     }
-} as const
-
-export type ChainConfig = (typeof config.chain)['source']
+}
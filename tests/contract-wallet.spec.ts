@@ -0,0 +1,137 @@
+import {expect, jest, describe, it, beforeAll, afterAll} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {Contract, MaxUint256, parseEther, parseUnits, toBeHex, Wallet as SignerWallet} from 'ethers'
+import {Chain, deploy, initChain} from './chain'
+import {getChainConfig} from './config'
+import {ContractWallet, SigningScheme} from './contract-wallet'
+import {EscrowFactory} from './escrow-factory'
+import {fullFillTraits, newTestOrder} from './order-fixture'
+import {Resolver} from './resolver'
+import {TransactionRevertedError} from './revert-decoder'
+import {Wallet} from './wallet'
+import tokenContract from '../dist/contracts/TokenCustomDecimalsMock.sol/TokenCustomDecimalsMock.json'
+import walletContract from '../dist/contracts/ERC1271WalletMock.sol/ERC1271WalletMock.json'
+import safeWalletContract from '../dist/contracts/SafeMessageWalletMock.sol/SafeMessageWalletMock.json'
+
+jest.setTimeout(1000 * 60)
+
+describe('Contract wallet makers', () => {
+    const srcChainId = Sdk.NetworkEnum.OPTIMISM
+    const dstChainId = Sdk.NetworkEnum.BINANCE
+    const makingAmount = parseUnits('100', 6)
+
+    let src: Chain
+    let usdc: Contract
+    let resolver: Wallet
+    let resolverContract: Resolver
+    let srcFactory: EscrowFactory
+
+    beforeAll(async () => {
+        src = await initChain(getChainConfig(srcChainId, {local: true}))
+        usdc = new Contract(src.config.tokens.USDC.address, tokenContract.abi, src.provider)
+
+        resolver = new Wallet(src.config.resolverPrivateKey, src.provider)
+        resolverContract = new Resolver(src.resolver)
+        srcFactory = new EscrowFactory(src.provider, src.escrowFactory)
+    })
+
+    afterAll(async () => {
+        src.provider.destroy()
+        await src.node?.stop()
+    })
+
+    /**
+     * Wallet mock of `scheme` owned by a fresh key, holding USDC approved to the limit order protocol:
+     * `ERC1271WalletMock` for `ecdsa`, `SafeMessageWalletMock` for `safe`.
+     * The mocks can not send calls, so the approval is sent by impersonating them.
+     */
+    async function newContractMaker(scheme: SigningScheme = 'ecdsa'): Promise<ContractWallet> {
+        const owner = new Wallet(SignerWallet.createRandom().privateKey, src.provider)
+        const deployer = new SignerWallet(src.config.ownerPrivateKey, src.provider)
+        const contract = scheme === 'safe' ? safeWalletContract : walletContract
+        const address = await deploy(contract, [await owner.getAddress()], src.provider, deployer)
+
+        await (await (usdc.connect(deployer) as Contract).mint(address, makingAmount)).wait()
+        await src.provider.send('anvil_setBalance', [address, toBeHex(parseEther('1'))])
+        const impersonated = await Wallet.fromAddress(address, src.provider)
+        await impersonated.approveToken(await usdc.getAddress(), src.config.limitOrderProtocol, MaxUint256)
+        await src.provider.send('anvil_stopImpersonatingAccount', [address])
+
+        return new ContractWallet(address, owner, scheme)
+    }
+
+    async function newOrder(maker: ContractWallet): Promise<Sdk.CrossChainOrder> {
+        return newTestOrder(src, {
+            maker: maker.address,
+            makerAsset: await usdc.getAddress(),
+            makingAmount,
+            dstChainId
+        })
+    }
+
+    it('fills the order of an EIP-1271 wallet through the contract signature path', async () => {
+        const maker = await newContractMaker()
+        const order = await newOrder(maker)
+        const orderHash = order.getOrderHash(srcChainId)
+        const signature = await maker.signOrder(srcChainId, order)
+        expect(await maker.isValidSignature(orderHash, signature)).toBe(true)
+
+        const {blockHash} = await resolver.send(
+            resolverContract.deploySrcContractOrder(srcChainId, order, signature, fullFillTraits(order), makingAmount)
+        )
+
+        const [immutables] = await srcFactory.getSrcDeployEvent(blockHash, {orderHash})
+        const escrow = await srcFactory.addressOfEscrowSrc(immutables)
+        expect(immutables.maker.toString().toLowerCase()).toBe(maker.address.toLowerCase())
+        expect(await usdc.balanceOf(maker.address)).toBe(0n)
+        expect(await usdc.balanceOf(escrow.toString())).toBe(makingAmount)
+        // the owner key only signed
+        expect(await src.provider.getTransactionCount(await maker.owner.getAddress())).toBe(0)
+    })
+
+    it('fills the order of a wallet checking Safe messages with the safe signing scheme', async () => {
+        const maker = await newContractMaker('safe')
+        const order = await newOrder(maker)
+        const orderHash = order.getOrderHash(srcChainId)
+        const signature = await maker.signOrder(srcChainId, order)
+        expect(await maker.isValidSignature(orderHash, signature)).toBe(true)
+        // the owner signature of the bare hash is not a Safe message
+        const ecdsa = await new ContractWallet(maker.address, maker.owner).signOrder(srcChainId, order)
+        expect(await maker.isValidSignature(orderHash, ecdsa)).toBe(false)
+
+        const {blockHash} = await resolver.send(
+            resolverContract.deploySrcContractOrder(srcChainId, order, signature, fullFillTraits(order), makingAmount)
+        )
+
+        const [immutables] = await srcFactory.getSrcDeployEvent(blockHash, {orderHash})
+        expect(await usdc.balanceOf(maker.address)).toBe(0n)
+        expect(await usdc.balanceOf((await srcFactory.addressOfEscrowSrc(immutables)).toString())).toBe(makingAmount)
+    })
+
+    it('rejects the order of an EIP-1271 wallet filled as an EOA order', async () => {
+        const maker = await newContractMaker()
+        const order = await newOrder(maker)
+        const signature = await maker.signOrder(srcChainId, order)
+
+        const fill = resolver.send(
+            resolverContract.deploySrc(srcChainId, order, signature, fullFillTraits(order), makingAmount)
+        )
+
+        await expect(fill).rejects.toThrow(TransactionRevertedError)
+        await expect(fill).rejects.toMatchObject({revert: {name: 'BadSignature'}})
+    })
+
+    it('does not accept a signature of another key', async () => {
+        const maker = await newContractMaker()
+        const order = await newOrder(maker)
+        const stranger = new ContractWallet(
+            maker.address,
+            new Wallet(SignerWallet.createRandom().privateKey, src.provider)
+        )
+
+        expect(
+            await maker.isValidSignature(order.getOrderHash(srcChainId), await stranger.signOrder(srcChainId, order))
+        ).toBe(false)
+    })
+})
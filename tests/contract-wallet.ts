@@ -0,0 +1,71 @@
+import {Contract, Wallet as PKWallet} from 'ethers'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Wallet} from './wallet'
+
+/**
+ * How the owner of a contract wallet signs the EIP-712 hash of an order
+ *
+ * - `ecdsa`: the owner key signs the hash itself, e.g. `ERC1271WalletMock` of solidity-utils or OpenZeppelin
+ * - `safe`: the owner signs a `SafeMessage` wrapping the hash, as the fallback handler of a Safe checks it
+ */
+export type SigningScheme = 'ecdsa' | 'safe'
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = '0x1626ba7e'
+
+const erc1271 = new Contract('0x0000000000000000000000000000000000000000', [
+    'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'
+])
+
+/**
+ * Maker which is a smart-contract wallet. The limit order protocol checks its orders with EIP-1271
+ * `isValidSignature` of the wallet, so they are filled with `Resolver.deploySrcContractOrder`, and the wallet
+ * itself has to hold and approve the maker asset.
+ */
+export class ContractWallet {
+    constructor(
+        public readonly address: string,
+        // owner key of the wallet, it never holds the maker asset
+        public readonly owner: Wallet,
+        public readonly scheme: SigningScheme = 'ecdsa'
+    ) {}
+
+    public async getAddress(): Promise<string> {
+        return this.address
+    }
+
+    public async signOrder(srcChainId: number, order: Sdk.CrossChainOrder): Promise<string> {
+        if (order.maker.toString().toLowerCase() !== this.address.toLowerCase()) {
+            throw new Error(`Order maker ${order.maker} is not the contract wallet ${this.address}`)
+        }
+
+        const orderHash = order.getOrderHash(srcChainId)
+
+        if (this.scheme === 'safe') {
+            return this.owner.signer.signTypedData(
+                {chainId: srcChainId, verifyingContract: this.address},
+                {SafeMessage: [{name: 'message', type: 'bytes'}]},
+                {message: orderHash}
+            )
+        }
+
+        if (!(this.owner.signer instanceof PKWallet)) {
+            throw new Error('The ecdsa signing scheme needs the owner private key, signers only sign typed data')
+        }
+
+        return this.owner.signer.signingKey.sign(orderHash).serialized
+    }
+
+    /**
+     * Whether the wallet accepts `signature` for `hash`, i.e. whether the limit order protocol will
+     */
+    public async isValidSignature(hash: string, signature: string): Promise<boolean> {
+        const wallet = erc1271.attach(this.address).connect(this.owner.provider) as Contract
+
+        try {
+            return (await wallet.isValidSignature(hash, signature)) === ERC1271_MAGIC_VALUE
+        } catch {
+            return false
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import {AddressCommitment, CommitmentAlgorithm} from './address-commitment'
+import {AddressFormatError, codecs, encoderFor, fromUint256, NonEvmChain, parseAddressOrAsset} from './address-codec'
+
+/**
+ * Print the canonical form and the EVM-side commitments of a non-EVM address or asset
+ *
+ * usage: npm run convert-address -- <aptos|sui|near|stellar|solana> <address | asset | uint256 from an event>
+ */
+function main(): void {
+    const [chain, input] = process.argv.slice(2) as [NonEvmChain, string]
+
+    if (!(chain in codecs) || !input) {
+        console.error(`usage: convert-address <${Object.keys(codecs).join('|')}> <address | asset | uint256>`)
+        process.exit(1)
+    }
+
+    try {
+        // a decimal uint256 as emitted in `SrcEscrowCreated` for 32 byte address chains
+        const parsed =
+            /^\d+$/.test(input) && chain !== 'near' && chain !== 'stellar'
+                ? fromUint256(chain, input)
+                : parseAddressOrAsset(chain, input)
+
+        console.log('canonical:', parsed.canonical)
+
+        for (const algorithm of ['sha1', 'keccak256', 'sha256'] as CommitmentAlgorithm[]) {
+            console.log(
+                `${algorithm}:`,
+                new AddressCommitment(0, algorithm, encoderFor(chain)).commit(parsed.canonical)
+            )
+        }
+    } catch (error) {
+        if (error instanceof AddressFormatError) {
+            console.error(error.message)
+            process.exit(1)
+        }
+
+        throw error
+    }
+}
+
+main()
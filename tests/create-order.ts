@@ -4,27 +4,28 @@ import {FusionPlusClient} from './fusion-plus-client'
 import {
     keccak256,
     JsonRpcProvider,
-    ContractFactory,
     parseEther,
     parseUnits,
     MaxUint256,
-    computeAddress,
     Interface,
-    id,
     Wallet as SignerWallet,
     Contract
 } from 'ethers'
 import {randomBytes} from 'crypto'
 import * as dotenv from 'dotenv'
-import {ChainConfig, config} from './config'
+import {config} from './config'
 import Sdk, { ESCROW_FACTORY } from '@1inch/cross-chain-sdk'
 import {Wallet} from './wallet'
 import abi from './abi.json'
 import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
 import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
-import {createServer, CreateServerReturnType} from 'prool'
-import {anvil} from 'prool/instances'
+import {Chain, initChain} from './chain'
+import {EscrowFactory} from './escrow-factory'
 import escrowAbi from './escrow.json'
+import {advanceToDstStage, advanceToSrcStage, AptosClock} from './clock'
+import {Timelocks, TimelockStage} from './timelocks'
+import {logger, redact} from './logger'
+import {APTOS_CHAIN_ID} from './address-commitment'
 
 // Type definitions for missing types
 interface EventData {
@@ -49,39 +50,16 @@ interface EventData {
     [key: string]: any
 }
 
-// Manual timelocks creation function
-function createManualTimelocks(deployedAt: number): bigint {
-    // Based on your Solidity Timelocks structure
-    // We need to create a uint256 that contains:
-    // - deployedAt timestamp (32 bits at the end)
-    // - Various timelock values (32 bits each)
-
-    // For now, let's create a simple structure
-    // deployedAt goes in the lowest 32 bits
-    let timelocks = BigInt(deployedAt)
-
-    // Add some default timelock values
-    // You can adjust these based on your needs
-    const srcWithdrawal = BigInt(10) // 10 seconds
-    const srcPublicWithdrawal = BigInt(20) // 2 minutes
-    const srcCancellation = BigInt(121) // 1 second after public withdrawal
-    const srcPublicCancellation = BigInt(122) // 1 second after cancellation
-    const dstWithdrawal = BigInt(10) // 10 seconds
-    const dstPublicWithdrawal = BigInt(100) // 100 seconds
-    const dstCancellation = BigInt(101) // 1 second after public withdrawal
-
-    // Pack the timelocks into a single uint256
-    // This is a simplified version - you may need to adjust based on your exact structure
-    timelocks = timelocks | (srcWithdrawal << BigInt(32))
-    timelocks = timelocks | (srcPublicWithdrawal << BigInt(64))
-    timelocks = timelocks | (srcCancellation << BigInt(96))
-    timelocks = timelocks | (srcPublicCancellation << BigInt(128))
-    timelocks = timelocks | (dstWithdrawal << BigInt(160))
-    timelocks = timelocks | (dstPublicWithdrawal << BigInt(192))
-    timelocks = timelocks | (dstCancellation << BigInt(224))
-
-    return timelocks
-}
+// Delays of the escrows in seconds, `deployedAt` is filled in by the factory on deployment
+const swapTimelocks = new Timelocks({
+    srcWithdrawal: 10n, // 10sec finality lock
+    srcPublicWithdrawal: 120n, // 2m for private withdrawal
+    srcCancellation: 121n, // 1sec public withdrawal
+    srcPublicCancellation: 122n, // 1sec private cancellation
+    dstWithdrawal: 10n, // 10sec finality lock
+    dstPublicWithdrawal: 100n, // 100sec private withdrawal
+    dstCancellation: 101n // 1sec public withdrawal
+})
 
 // Load environment variables
 dotenv.config({path: './.env'})
@@ -97,12 +75,15 @@ let iface = new Interface(factoryContract.abi)
 // EVM private key to generate destination recipient
 const EVM_PRIVATE_KEY =
     process.env.OPTIMISM_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
-const USDC_ADDRESS = '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' // USDC on Optimism
 
 // EVM Configuration for deploying destination escrow
-const resolverPkForSourceChain = config.chain.source.resolverPrivateKey
+const dstChainConfig = config.chain.destination
+const USDC_ADDRESS = dstChainConfig.tokens.USDC.address
+const resolverPkForDstChain = dstChainConfig.resolverPrivateKey
+
+const log = logger.child({module: 'create-order'})
 
-console.log('🔥 Simple Fusion Order Creation')
+log.info('Simple Fusion Order Creation')
 
 // Initialize Aptos client
 const aptosConfig = new AptosConfig({network: NETWORK})
@@ -116,19 +97,16 @@ const user = Account.fromPrivateKey({privateKey: userPrivateKey})
 const resolverPrivateKey = new Ed25519PrivateKey(RESOLVER_PRIVATE_KEY)
 const resolver = Account.fromPrivateKey({privateKey: resolverPrivateKey})
 
-console.log(`📝 User address: ${user.accountAddress}`)
-console.log(`🔧 Resolver address: ${resolver.accountAddress}`)
+redact(USER_PRIVATE_KEY)
+redact(RESOLVER_PRIVATE_KEY)
+redact(EVM_PRIVATE_KEY)
+log.info('Aptos accounts', {user: user.accountAddress.toString(), resolver: resolver.accountAddress.toString()})
 
 // Initialize FusionPlusClient
 const fusionClient = new FusionPlusClient(aptos, CONTRACT_ADDRESS_TESTNET)
 
-type Chain = {
-    node?: CreateServerReturnType | undefined
-    provider: JsonRpcProvider
-    escrowFactory: string
-    resolver: string
-    createFork: boolean
-}
+// the source escrow timelocks are checked against the ledger timestamp
+const aptosClock = new AptosClock(aptos)
 
 let src: Chain
 
@@ -161,7 +139,7 @@ function generateDestinationRecipient(privateKey: string): number[] {
     const wallet = new Wallet(privateKey)
     const evmAddress = wallet.address
 
-    console.log(`🎯 Generated EVM destination address: ${evmAddress}`)
+    log.info('Generated EVM destination address', {evmAddress})
 
     // Convert to Aptos-compatible vector
     return evmAddressToAptosVector(evmAddress)
@@ -171,8 +149,6 @@ function generateDestinationRecipient(privateKey: string): number[] {
  * Create fusion order with generated parameters
  */
 async function getFusionOrderObjectAddress(transactionHash: string): Promise<string | null> {
-    console.log('🔍 Getting fusion order object address from events...')
-
     try {
         const fullnodeUrl = aptos.config.fullnode || 'https://api.testnet.aptoslabs.com'
 
@@ -181,15 +157,12 @@ async function getFusionOrderObjectAddress(transactionHash: string): Promise<str
 
         if (txnResponse.ok) {
             const txn = (await txnResponse.json()) as {events?: any[]}
-            console.log(`📡 Found transaction with ${txn.events?.length || 0} events`)
+            log.debug('Fetched order transaction', {txHash: transactionHash, events: txn.events?.length ?? 0})
 
             if (txn.events) {
                 for (const event of txn.events) {
-                    console.log(`📋 Event type: ${event.type}`)
-
                     if (event.type && event.type.includes('FusionOrderCreatedEvent')) {
-                        console.log('🔥 Found FusionOrderCreatedEvent!')
-                        console.log('📊 Event data:', JSON.stringify(event.data, null, 2))
+                        log.debug('FusionOrderCreatedEvent', {txHash: transactionHash, event: event.data})
 
                         if (event.data && event.data.fusion_order) {
                             let fusionOrderAddress = event.data.fusion_order
@@ -203,7 +176,6 @@ async function getFusionOrderObjectAddress(transactionHash: string): Promise<str
                                 fusionOrderAddress = JSON.stringify(fusionOrderAddress)
                             }
 
-                            console.log('📝 Extracted fusion order address:', fusionOrderAddress)
                             return fusionOrderAddress
                         }
                     }
@@ -211,49 +183,28 @@ async function getFusionOrderObjectAddress(transactionHash: string): Promise<str
             }
         }
 
-        console.log('⚠️ No FusionOrderCreatedEvent found in transaction events')
+        log.warn('No FusionOrderCreatedEvent in transaction', {txHash: transactionHash})
         return null
     } catch (error) {
-        console.error('❌ Error fetching fusion order address:', error)
+        log.error('Could not fetch the fusion order address', {txHash: transactionHash, error})
         return null
     }
 }
 
-async function getDestinationImpl(provider: JsonRpcProvider, address: string): Promise<any> {
-    return BigInt(
-        BigInt(
-            await provider.call({
-                to: address,
-                data: id('ESCROW_DST_IMPLEMENTATION()').slice(0, 10)
-            })
-        )
-    )
-}
-
-/**
- * Wait for a specified number of seconds
- */
-async function waitSeconds(seconds: number): Promise<void> {
-    console.log(`⏳ Waiting ${seconds} seconds...`)
-    await new Promise((resolve) => setTimeout(resolve, seconds * 1000))
-}
-
 /**
  * Accept fusion order with resolver
  */
 async function acceptFusionOrder(orderTxHash: string): Promise<string | null> {
-    console.log('\n🤝 Accepting fusion order with resolver...')
-
     try {
         // Get the fusion order address from the creation transaction
         const fusionOrderAddress = await getFusionOrderObjectAddress(orderTxHash)
 
         if (!fusionOrderAddress) {
-            console.error('❌ Could not determine fusion order address from transaction events')
+            log.error('Could not determine the fusion order address from transaction events', {txHash: orderTxHash})
             return null
         }
 
-        console.log(`📝 Using fusion order address: ${fusionOrderAddress}`)
+        log.info('Accepting fusion order with resolver', {fusionOrder: fusionOrderAddress})
 
         const acceptOrderPayload = fusionClient.buildTransactionPayload(
             'escrow::new_from_order_entry',
@@ -263,17 +214,17 @@ async function acceptFusionOrder(orderTxHash: string): Promise<string | null> {
             ]
         )
 
-        console.log('📝 Submitting fusion order acceptance transaction...')
         const txn = await fusionClient.submitTransaction(resolver, acceptOrderPayload)
 
-        console.log(`✅ Fusion order accepted and source escrow created!`)
-        console.log(`📋 Acceptance Transaction Details:`)
-        console.log(`   Transaction hash: ${txn.hash}`)
-        console.log(`   Explorer: https://explorer.aptoslabs.com/txn/${txn.hash}?network=testnet`)
+        log.info('Fusion order accepted, source escrow created', {
+            fusionOrder: fusionOrderAddress,
+            txHash: txn.hash,
+            explorer: `https://explorer.aptoslabs.com/txn/${txn.hash}?network=testnet`
+        })
 
         return txn.hash
     } catch (error) {
-        console.error('❌ Failed to accept fusion order:', error)
+        log.error('Failed to accept fusion order', {txHash: orderTxHash, error})
         return null
     }
 }
@@ -282,8 +233,6 @@ async function acceptFusionOrder(orderTxHash: string): Promise<string | null> {
  * Get escrow event data from transaction events
  */
 async function getEscrowEventData(acceptTxHash: string): Promise<EventData | null> {
-    console.log('\n🔍 Getting escrow event data from acceptance transaction...')
-
     try {
         const fullnodeUrl = aptos.config.fullnode || 'https://api.testnet.aptoslabs.com'
 
@@ -292,64 +241,55 @@ async function getEscrowEventData(acceptTxHash: string): Promise<EventData | nul
 
         if (txnResponse.ok) {
             const txn = (await txnResponse.json()) as {events?: any[]}
-            console.log(`📡 Found transaction with ${txn.events?.length || 0} events`)
+            log.debug('Fetched acceptance transaction', {txHash: acceptTxHash, events: txn.events?.length ?? 0})
 
             let fusionOrderAcceptedEvent = null
             let escrowCreatedEvent = null
 
             if (txn.events) {
                 for (const event of txn.events) {
-                    console.log(`📋 Event type: ${event.type}`)
-
                     // Look for FusionOrderAcceptedEvent
                     if (event.type && event.type.includes('FusionOrderAcceptedEvent')) {
-                        console.log('🔥 Found FusionOrderAcceptedEvent!')
                         fusionOrderAcceptedEvent = event.data
                     }
 
                     // Look for EscrowCreatedEvent
                     if (event.type && event.type.includes('EscrowCreatedEvent')) {
-                        console.log('🔒 Found EscrowCreatedEvent!')
                         escrowCreatedEvent = event.data
                     }
                 }
             }
 
             if (fusionOrderAcceptedEvent && escrowCreatedEvent) {
-                console.log('\n📊 FUSION ORDER ACCEPTED EVENT:')
-                console.log('='.repeat(50))
-                console.log(`   Fusion Order: ${fusionOrderAcceptedEvent.fusion_order?.inner || 'N/A'}`)
-                console.log(`   Owner: ${fusionOrderAcceptedEvent.owner}`)
-                console.log(`   Resolver: ${fusionOrderAcceptedEvent.resolver}`)
-                console.log(`   Source Amount: ${fusionOrderAcceptedEvent.source_amount}`)
-                console.log(`   Source Metadata: ${fusionOrderAcceptedEvent.source_metadata?.inner || 'N/A'}`)
-                console.log(
-                    `   Destination Asset: 0x${Buffer.from(fusionOrderAcceptedEvent.destination_asset.slice(2), 'hex').toString('hex')}`
-                )
-                console.log(
-                    `   Destination Recipient: 0x${Buffer.from(fusionOrderAcceptedEvent.destination_recipient.slice(2), 'hex').toString('hex')}`
-                )
-                console.log(`   Chain ID: ${fusionOrderAcceptedEvent.chain_id}`)
-                console.log(`   Hash (Secret Hash): ${fusionOrderAcceptedEvent.hash}`)
-                console.log(`   Initial Price: ${fusionOrderAcceptedEvent.initial_destination_amount}`)
-                console.log(`   Min Price: ${fusionOrderAcceptedEvent.min_destination_amount}`)
-                console.log(`   Current Price (ACCEPTED): ${fusionOrderAcceptedEvent.current_price}`)
-                console.log(`   Decay Per Second: ${fusionOrderAcceptedEvent.decay_per_second}`)
-                console.log(`   Auction Start Time: ${fusionOrderAcceptedEvent.auction_start_time}`)
-
-                console.log('\n📊 ESCROW CREATED EVENT:')
-                console.log('='.repeat(50))
-                console.log(`   Escrow Address: ${escrowCreatedEvent.escrow?.inner || 'N/A'}`)
-                console.log(`   From: ${escrowCreatedEvent.from}`)
-                console.log(`   To: ${escrowCreatedEvent.to}`)
-                console.log(`   Resolver: ${escrowCreatedEvent.resolver}`)
-                console.log(`   Amount: ${escrowCreatedEvent.amount}`)
-                console.log(`   Chain ID: ${escrowCreatedEvent.chain_id}`)
-                console.log(`   Is Source Chain: ${escrowCreatedEvent.is_source_chain}`)
-                console.log(`   Hash: ${escrowCreatedEvent.hash}`)
-                console.log(`   Metadata: ${escrowCreatedEvent.metadata?.inner || 'N/A'}`)
-                console.log(`   Timelock Created At: ${escrowCreatedEvent.timelock_created_at}`)
-                console.log(`   Timelock Chain Type: ${escrowCreatedEvent.timelock_chain_type}`)
+                log.info('Fusion order accepted', {
+                    fusionOrder: fusionOrderAcceptedEvent.fusion_order?.inner,
+                    owner: fusionOrderAcceptedEvent.owner,
+                    resolver: fusionOrderAcceptedEvent.resolver,
+                    sourceAmount: fusionOrderAcceptedEvent.source_amount,
+                    sourceMetadata: fusionOrderAcceptedEvent.source_metadata?.inner,
+                    destinationAsset: fusionOrderAcceptedEvent.destination_asset,
+                    destinationRecipient: fusionOrderAcceptedEvent.destination_recipient,
+                    dstChainId: fusionOrderAcceptedEvent.chain_id,
+                    secretHash: fusionOrderAcceptedEvent.hash,
+                    initialPrice: fusionOrderAcceptedEvent.initial_destination_amount,
+                    minPrice: fusionOrderAcceptedEvent.min_destination_amount,
+                    acceptedPrice: fusionOrderAcceptedEvent.current_price,
+                    decayPerSecond: fusionOrderAcceptedEvent.decay_per_second,
+                    auctionStartTime: fusionOrderAcceptedEvent.auction_start_time
+                })
+                log.info('Source escrow created', {
+                    escrow: escrowCreatedEvent.escrow?.inner,
+                    from: escrowCreatedEvent.from,
+                    to: escrowCreatedEvent.to,
+                    resolver: escrowCreatedEvent.resolver,
+                    amount: escrowCreatedEvent.amount,
+                    chainId: escrowCreatedEvent.chain_id,
+                    isSourceChain: escrowCreatedEvent.is_source_chain,
+                    secretHash: escrowCreatedEvent.hash,
+                    metadata: escrowCreatedEvent.metadata?.inner,
+                    timelockCreatedAt: escrowCreatedEvent.timelock_created_at,
+                    timelockChainType: escrowCreatedEvent.timelock_chain_type
+                })
 
                 // Return combined data for cross-chain use
                 return {
@@ -387,43 +327,38 @@ async function getEscrowEventData(acceptTxHash: string): Promise<EventData | nul
                     }
                 }
             } else {
-                console.log('⚠️ Could not find both FusionOrderAcceptedEvent and EscrowCreatedEvent')
+                log.warn('FusionOrderAcceptedEvent or EscrowCreatedEvent missing', {txHash: acceptTxHash})
                 return null
             }
         }
 
-        console.log('⚠️ No events found in transaction')
+        log.warn('No events in transaction', {txHash: acceptTxHash})
         return null
     } catch (error) {
-        console.error('❌ Error fetching escrow event data:', error)
+        log.error('Could not fetch escrow event data', {txHash: acceptTxHash, error})
         return null
     }
 }
 async function createFusionOrder() {
-    console.log('\n🔥 Creating fusion order...')
-
-    try {
-        // Generate random secret (32 bytes)
-        const secret = randomBytes(32)
-        const secretHex = '0x' + secret.toString('hex')
-        console.log(`🔐 Generated secret: ${secretHex}`)
+    // Generate random secret (32 bytes)
+    const secret = randomBytes(32)
+    const secretHex = '0x' + secret.toString('hex')
+    redact(secretHex)
 
-        // Create Keccak256 hash of secret for hashlock
-        const hashHex = keccak256(secret)
-        const hashBuffer = Buffer.from(hashHex.slice(2), 'hex') // Remove 0x prefix
-        const hashArray = Array.from(hashBuffer)
+    // Create Keccak256 hash of secret for hashlock, it doubles as the order hash of the destination escrow
+    const hashHex = keccak256(secret)
+    const hashBuffer = Buffer.from(hashHex.slice(2), 'hex') // Remove 0x prefix
+    const hashArray = Array.from(hashBuffer)
+    const orderLog = log.child({orderHash: hashHex})
 
-        console.log(`🔒 Hash (Keccak256): ${hashHex}`)
-        console.log(`📊 Hash array length: ${hashArray.length}`)
+    try {
+        orderLog.info('Creating fusion order')
 
         // Generate destination recipient from EVM private key
         const destinationRecipient = generateDestinationRecipient(EVM_PRIVATE_KEY)
-        console.log(`👤 Destination recipient vector length: ${destinationRecipient.length}`)
 
         // Convert USDC address to Aptos-compatible vector
         const destinationAsset = evmAddressToAptosVector(USDC_ADDRESS)
-        console.log(`💰 USDC address: ${USDC_ADDRESS}`)
-        console.log(`💰 Destination asset vector length: ${destinationAsset.length}`)
 
         // APT metadata (0xa for APT)
         const aptMetadata = '0xa'
@@ -435,18 +370,15 @@ async function createFusionOrder() {
         const minDestinationAmount = Math.floor(initialDestinationAmount * 0.9) // 90% of initial
         const decayPerSecond = 100 // Decay rate
 
-        console.log('\n📋 Order Parameters:')
-        console.log(`   Source metadata: ${aptMetadata}`)
-        console.log(`   Source amount: ${sourceAmount} (${sourceAmount / 1e8} APT)`)
-        console.log(`   Destination asset: USDC (${destinationAsset.length} bytes)`)
-        console.log(`   Destination recipient: EVM address (${destinationRecipient.length} bytes)`)
-        console.log(`   Chain ID: ${chainId} (Optimism)`)
-        console.log(`   Hash: ${hashArray.length} bytes`)
-        console.log(
-            `   Initial destination amount: ${initialDestinationAmount} (${initialDestinationAmount / 1e6} USDC)`
-        )
-        console.log(`   Min destination amount: ${minDestinationAmount} (${minDestinationAmount / 1e6} USDC)`)
-        console.log(`   Decay per second: ${decayPerSecond}`)
+        orderLog.info('Order parameters', {
+            sourceMetadata: aptMetadata,
+            sourceAmount,
+            destinationAsset: USDC_ADDRESS,
+            dstChainId: chainId,
+            initialDestinationAmount,
+            minDestinationAmount,
+            decayPerSecond
+        })
 
         // Build transaction payload
         const createOrderPayload = fusionClient.buildTransactionPayload(
@@ -465,16 +397,13 @@ async function createFusionOrder() {
             ]
         )
 
-        console.log('\n📝 Submitting fusion order creation transaction...')
-
         // Submit the transaction
         const txn = await fusionClient.submitTransaction(user, createOrderPayload)
 
-        console.log(`✅ Fusion order created successfully!`)
-        console.log(`📋 Transaction Details:`)
-        console.log(`   Transaction hash: ${txn.hash}`)
-        console.log(`   Secret for withdrawal: ${secretHex}`)
-        console.log(`   Explorer: https://explorer.aptoslabs.com/txn/${txn.hash}?network=testnet`)
+        orderLog.info('Fusion order created', {
+            txHash: txn.hash,
+            explorer: `https://explorer.aptoslabs.com/txn/${txn.hash}?network=testnet`
+        })
 
         return {
             txHash: txn.hash,
@@ -484,93 +413,23 @@ async function createFusionOrder() {
             destinationAsset
         }
     } catch (error) {
-        console.error('❌ Fusion order creation failed:', error)
+        orderLog.error('Fusion order creation failed', {error})
         throw error
     }
 }
 
-async function getProvider(cnf: ChainConfig): Promise<{provider: JsonRpcProvider}> {
-    return {
-        provider: new JsonRpcProvider(cnf.url, cnf.chainId, {
-            cacheTimeout: -1,
-            staticNetwork: true
-        })
-    }
-}
-
-async function initChain(cnf: ChainConfig): Promise<{
-    node?: CreateServerReturnType
-    provider: JsonRpcProvider
-    escrowFactory: string
-    resolver: string
-    createFork: boolean
-}> {
-    const provider = await getProvider(cnf)
-    const deployer = new SignerWallet(process.env.OPTIMISM_PRIVATE_KEY || '', provider.provider)
-
-    // For Optimism mainnet, deploy contracts on-the-fly
-    if (cnf.chainId === 10 && !cnf.createFork) {
-        console.log(`[${cnf.chainId}]`, `Using real Optimism mainnet - deploying contracts on-the-fly...`)
-    }
-
-    // deploy EscrowFactory
-    const escrowFactory = await deploy(
-        factoryContract,
-        [
-            cnf.limitOrderProtocol,
-            cnf.wrappedNative, // feeToken,
-            '0x0000000000000000000000000000000000000000', // accessToken,
-            deployer.address, // owner
-            60 * 30, // src rescue delay
-            60 * 30 // dst rescue delay
-        ],
-        provider.provider,
-        deployer
-    )
-    console.log(
-        `Escrow factory contract deployed to`,
-        escrowFactory,
-        ' at chain ',
-        cnf.chainId == 10 ? 'Optimism' : 'BSC'
-    )
-
-    // deploy Resolver contract
-    const resolver = await deploy(
-        resolverContract,
-        [
-            escrowFactory,
-            cnf.limitOrderProtocol,
-            await new Wallet(process.env.OPTIMISM_PRIVATE_KEY || '', provider.provider).getAddress() // resolver as owner of contract
-        ],
-        provider.provider,
-        deployer
-    )
-    console.log(`Resolver contract deployed to`, resolver, ' at chain ', cnf.chainId == 10 ? 'Optimism' : 'BSC')
-
-    return {provider: provider.provider, resolver, escrowFactory, createFork: cnf.createFork}
-}
-
 async function deployDst(
     resolverAddress: string,
     escrowEventData: EventData,
     escrowFactoryAddress: string
 ): Promise<any> {
-    // Use the existing provider and create a wallet with it
-    const wallet = new Wallet(process.env.OPTIMISM_PRIVATE_KEY || '', src.provider)
+    const dstLog = log.child({orderHash: escrowEventData.fusionOrder.hash, chainId: src.config.chainId})
+    // Use the existing provider and create a wallet with it, the resolver key owns the Resolver contract
+    const wallet = new Wallet(resolverPkForDstChain, src.provider)
 
     const erc20 = new Contract(USDC_ADDRESS, abi, wallet)
 
     const transfer = erc20.interface.encodeFunctionData('transfer', [resolverAddress, '10000'])
-    const tx = await wallet.send({
-        to: USDC_ADDRESS,
-        data: transfer,
-        value: 0,
-        from: await wallet.getAddress()
-    })
-
-    const receipt = await tx.txHash
-    console.log('Transaction hash:', receipt)
-    console.log('Transaction receipt:', receipt)
 
     // First, let's create the approve call data
     const approveCallData = erc20.interface.encodeFunctionData('approve', [
@@ -578,8 +437,6 @@ async function deployDst(
         '10000' 
     ])
 
-    console.log('Approve call data:', approveCallData)
-
     // Now create the call data for arbitraryCalls function
     // arbitraryCalls(address[] calldata targets, bytes[] calldata arguments)
 
@@ -595,18 +452,23 @@ async function deployDst(
     // Encode the arbitraryCalls function call
     const arbitraryCallsData = resolverInterface.encodeFunctionData('arbitraryCalls', [targets, argumentsForApproval])
 
-    console.log('arbitraryCalls call data:', arbitraryCallsData)
-
-    // Execute the arbitraryCalls function on the resolver contract
-    const approvalTx = await wallet.send({
-        to: resolverAddress, // The resolver contract address
-        data: arbitraryCallsData,
-        value: 0,
-        from: await wallet.getAddress()
-    })
+    // Fund the resolver and execute the arbitraryCalls function on it, the approval does not need the balance
+    // so both are sent without waiting for each other
+    const [fundingTx, approvalTx] = await wallet.sendAll([
+        {
+            to: USDC_ADDRESS,
+            data: transfer,
+            value: 0
+        },
+        {
+            to: resolverAddress, // The resolver contract address
+            data: arbitraryCallsData,
+            value: 0
+        }
+    ])
 
-    const approvalReceipt = await approvalTx.txHash
-    console.log('Approval transaction hash:', approvalReceipt)
+    dstLog.info('Funded resolver with USDC', {txHash: fundingTx.txHash})
+    dstLog.info('Approved USDC to the escrow factory', {txHash: approvalTx.txHash})
 
     // Create contract with signer directly
     const deployedResolverContract = new Contract(resolverAddress, resolverContract.abi, wallet)
@@ -626,7 +488,7 @@ async function deployDst(
         escrowEventData.fusionOrder.destinationAsset, // token // Address
         escrowEventData.fusionOrder.currentPrice, // amount // uint256
         parseEther('0.00001'), // safetyDeposit
-        createManualTimelocks(escrowEventData.fusionOrder.auctionStartTime) // timelocks,
+        swapTimelocks.encode() // timelocks
     ]
     // Calculate the native amount (ETH) to send with the transaction
     const token = escrowEventData.fusionOrder.destinationAsset
@@ -637,27 +499,25 @@ async function deployDst(
         nativeAmount = nativeAmount + BigInt(escrowEventData.fusionOrder.currentPrice)
     }
 
-    // Call createDstEscrow with the immutables and srcCancellationTimestamp
-    // The srcCancellationTimestamp should be the cancellation time from the source chain
-    const srcCancellationTimestamp = escrowEventData.fusionOrder.auctionStartTime // This should be the actual cancellation timestamp
-    const cancellationTimestamp = createManualTimelocks(srcCancellationTimestamp)
-    console.log('Calling createDstEscrow with:')
-    console.log('  - Immutables:', immutables)
-    console.log('  - srcCancellationTimestamp:', srcCancellationTimestamp)
-    console.log('  - nativeAmount:', nativeAmount)
-    console.log('  - Wallet address:', await wallet.getAddress())
-    console.log('  - Escrow factory address:', src.escrowFactory)
-    console.log('  - Wallet balance:', await wallet.provider.getBalance(await wallet.getAddress()))
-    console.log('  - Contract runner type:', deployedResolverContract.runner?.constructor.name)
+    // Call createDstEscrow with the immutables and srcCancellationTimestamp, the start of private cancellation
+    // on the Aptos source escrow which is created when the auction starts
+    const cancellationTimestamp = swapTimelocks
+        .withDeployedAt(BigInt(escrowEventData.fusionOrder.auctionStartTime))
+        .get(TimelockStage.SrcCancellation)
+    dstLog.info('Deploying destination escrow', {
+        immutables,
+        srcCancellationTimestamp: cancellationTimestamp,
+        nativeAmount,
+        wallet: await wallet.getAddress(),
+        escrowFactory: src.escrowFactory,
+        walletBalance: await wallet.provider.getBalance(await wallet.getAddress())
+    })
 
     try {
         // Try using the contract interface directly
         const resolverInterface = new Interface(resolverContract.abi)
         const data = resolverInterface.encodeFunctionData('deployDst', [immutables, cancellationTimestamp])
 
-        console.log('Encoded function data:', data)
-        console.log('Function signature:', resolverInterface.getFunction('deployDst')?.format())
-
         const tx = await wallet.send({
             to: resolverAddress,
             data: data,
@@ -666,52 +526,30 @@ async function deployDst(
         })
 
         const receipt = await tx.txHash
-        console.log('Transaction hash:', receipt)
-        console.log('Transaction receipt:', receipt)
+        dstLog.info('Destination escrow deployed', {txHash: receipt})
 
-        // Extract escrow address from transaction logs
+        // Extract escrow address from the DstEscrowCreated event
         let deployedEscrowAddress = null
-        // Alternative approach using ethers Interface for cleaner decoding
         try {
-            const txReceipt = await wallet.provider.getTransactionReceipt(receipt)
-            if (txReceipt && txReceipt.logs) {
-                // Create interface for the event
-                const eventInterface = new Interface([
-                    'event DstEscrowCreated(address escrow, bytes32 hashlock, uint256 taker)'
-                ])
-
-                for (const log of txReceipt.logs) {
-                    try {
-                        // Try to parse the log using the interface
-                        const parsedLog = eventInterface.parseLog({
-                            topics: log.topics,
-                            data: log.data
-                        })
-
-                        if (parsedLog && parsedLog.name === 'DstEscrowCreated') {
-                            deployedEscrowAddress = parsedLog.args.escrow
-                            console.log('Found DstEscrowCreated event with escrow address:', deployedEscrowAddress)
-                            console.log('Hashlock:', parsedLog.args.hashlock)
-                            console.log('Taker:', parsedLog.args.taker)
-                            break
-                        }
-                    } catch (parseError) {
-                        // This log doesn't match our event, continue to next log
-                        continue
-                    }
-                }
-            }
+            const dstEvent = await new EscrowFactory(src.provider, src.escrowFactory).getDstDeployEvent(tx.txHash)
+            deployedEscrowAddress = dstEvent.escrow.toString()
+            dstLog.info('DstEscrowCreated', {
+                escrow: deployedEscrowAddress,
+                hashLock: dstEvent.hashLock.toString(),
+                taker: dstEvent.taker.toString()
+            })
         } catch (error) {
-            console.error('Error extracting escrow address from logs:', error)
+            dstLog.error('Could not extract the escrow address from logs', {error})
         }
 
         return {
             txHash: receipt,
             escrowAddress: deployedEscrowAddress,
-            immutables: immutables 
+            immutables: immutables,
+            deployedAt: tx.blockTimestamp
         }
     } catch (error) {
-        console.error('Error calling createDstEscrow:', error)
+        dstLog.error('Destination escrow deployment failed', {error})
         // For now, return a mock result for testing
         return {
             txHash: 'mock_tx_hash',
@@ -723,9 +561,9 @@ async function deployDst(
 /**
  * Withdraw from Aptos escrow using the secret
  */
-async function withdrawOnAptos(secret: string, escrowAddress: string): Promise<any> {
-    console.log('🔐 Withdrawing from Aptos escrow...')
-    console.log('   Secret:', secret)
+async function withdrawOnAptos(orderHash: string, secret: string, escrowAddress: string): Promise<any> {
+    const withdrawLog = log.child({orderHash, chainId: APTOS_CHAIN_ID, escrow: escrowAddress})
+    withdrawLog.info('Withdrawing from Aptos escrow')
 
     try {
         // Create resolver account from private key
@@ -733,12 +571,10 @@ async function withdrawOnAptos(secret: string, escrowAddress: string): Promise<a
         const resolverAccount = Account.fromPrivateKey({privateKey: resolverPrivateKey})
 
         if (!escrowAddress) {
-            console.error('❌ No escrow address provided')
+            withdrawLog.error('No escrow address provided')
             return {success: false, error: 'No escrow address'}
         }
 
-        console.log('   Escrow address:', escrowAddress)
-
         // Call the withdraw function on the escrow
         // Convert secret from hex to bytes array for Aptos
         const secretBytes = Array.from(Buffer.from(secret.replace('0x', ''), 'hex'))
@@ -746,9 +582,10 @@ async function withdrawOnAptos(secret: string, escrowAddress: string): Promise<a
 
         const response = await fusionClient.submitTransaction(resolverAccount, payload)
 
-        console.log('✅ Aptos withdrawal successful!')
-        console.log('   Transaction hash:', response.hash)
-        console.log('   Explorer:', `https://explorer.aptoslabs.com/txn/${response.hash}?network=testnet`)
+        withdrawLog.info('Aptos withdrawal successful', {
+            txHash: response.hash,
+            explorer: `https://explorer.aptoslabs.com/txn/${response.hash}?network=testnet`
+        })
 
         return {
             success: true,
@@ -756,7 +593,7 @@ async function withdrawOnAptos(secret: string, escrowAddress: string): Promise<a
             explorer: `https://explorer.aptoslabs.com/txn/${response.hash}?network=testnet`
         }
     } catch (error: any) {
-        console.error('❌ Aptos withdrawal failed:', error)
+        withdrawLog.error('Aptos withdrawal failed', {error})
         return {success: false, error: error.message}
     }
 }
@@ -766,19 +603,20 @@ async function withdrawOnAptos(secret: string, escrowAddress: string): Promise<a
  */
 async function withdrawOnOptimism(
     resolverAddress: string,
+    orderHash: string,
     secret: string,
     escrowAddress: string,
-    immutables?: any[]
+    immutables?: any[],
+    deployedAt?: bigint
 ): Promise<any> {
-    console.log('🔐 Withdrawing from Optimism escrow...')
-    console.log('   Secret:', secret)
+    const withdrawLog = log.child({orderHash, chainId: src.config.chainId, escrow: escrowAddress})
+    withdrawLog.info('Withdrawing from Optimism escrow')
 
     try {
         // Create wallet for Optimism
         const wallet = new Wallet(process.env.OPTIMISM_PRIVATE_KEY || '', src.provider)
 
-        console.log('   Escrow address:', escrowAddress)
-        console.log('   Wallet address:', await wallet.getAddress())
+        withdrawLog.debug('Withdrawing wallet', {wallet: await wallet.getAddress()})
 
         // Create escrow contract instance.
         const escrowContract = new Contract(escrowAddress, escrowAbi, wallet)
@@ -788,10 +626,14 @@ async function withdrawOnOptimism(
 
 
         if (!immutables) {
-            console.error('❌ No immutables provided for withdrawal')
+            withdrawLog.error('No immutables provided for withdrawal')
             return {success: false, error: 'No immutables provided'}
         }
-        await new Promise((resolve) => setTimeout(resolve, 20000))
+        if (deployedAt !== undefined) {
+            const timeLocks = Timelocks.decode(BigInt(immutables[7])).withDeployedAt(deployedAt)
+            await advanceToDstStage(src.clock, timeLocks.toSdk(), Sdk.DstStage.PublicWithdrawal)
+        }
+
         const withdrawData = escrowContract.interface.encodeFunctionData('publicWithdraw', [
             secret,
             immutables
@@ -804,9 +646,10 @@ async function withdrawOnOptimism(
             from: await wallet.getAddress()
         })
 
-        console.log('✅ Optimism withdrawal successful!')
-        console.log('   Transaction hash:', tx.txHash)
-        console.log('   Explorer:', `https://optimistic.etherscan.io/tx/${tx.txHash}`)
+        withdrawLog.info('Optimism withdrawal successful', {
+            txHash: tx.txHash,
+            explorer: `https://optimistic.etherscan.io/tx/${tx.txHash}`
+        })
 
         return {
             success: true,
@@ -814,174 +657,110 @@ async function withdrawOnOptimism(
             explorer: `https://optimistic.etherscan.io/tx/${tx.txHash}`
         }
     } catch (error: any) {
-        console.error('❌ Optimism withdrawal failed:', error)
+        withdrawLog.error('Optimism withdrawal failed', {error})
         return {success: false, error: error.message}
     }
 }
 
-/**
- * Deploy contract and return its address
- */
-async function deploy(
-    json: {abi: any; bytecode: any},
-    params: unknown[],
-    provider: JsonRpcProvider,
-    deployer: SignerWallet
-): Promise<string> {
-    const deployed = await new ContractFactory(json.abi, json.bytecode, deployer).deploy(...params)
-    await deployed.waitForDeployment()
-
-    return await deployed.getAddress()
-}
-
 // Main execution
 async function main() {
     try {
         // Validate environment variables
         if (!CONTRACT_ADDRESS_TESTNET || !USER_PRIVATE_KEY || !RESOLVER_PRIVATE_KEY) {
-            console.error('❌ Missing required environment variables:')
-            console.error('   CONTRACT_ADDRESS_TESTNET:', CONTRACT_ADDRESS_TESTNET ? '✅' : '❌')
-            console.error('   USER_PRIVATE_KEY:', USER_PRIVATE_KEY ? '✅' : '❌')
-            console.error('   RESOLVER_PRIVATE_KEY:', RESOLVER_PRIVATE_KEY ? '✅' : '❌')
+            log.error('Missing required environment variables', {
+                CONTRACT_ADDRESS_TESTNET: Boolean(CONTRACT_ADDRESS_TESTNET),
+                USER_PRIVATE_KEY: Boolean(USER_PRIVATE_KEY),
+                RESOLVER_PRIVATE_KEY: Boolean(RESOLVER_PRIVATE_KEY)
+            })
             process.exit(1)
         }
 
-        console.log(`🌐 Network: ${NETWORK}`)
-        console.log(`📄 Contract: ${CONTRACT_ADDRESS_TESTNET}`)
-        console.log(`💼 User: ${user.accountAddress}`)
-        console.log(`🔧 Resolver: ${resolver.accountAddress}`)
+        log.info('Starting cross-chain flow', {
+            network: NETWORK,
+            contract: CONTRACT_ADDRESS_TESTNET,
+            user: user.accountAddress.toString(),
+            resolver: resolver.accountAddress.toString()
+        })
 
         // Step 0: Initialize EVM chain
-        console.log('\n=== STEP 0: INITIALIZE EVM CHAIN ===')
-        src = await initChain(config.chain.source)
+        src = await initChain(dstChainConfig)
 
         // Step 1: Create fusion order
-        console.log('\n=== STEP 1: CREATE FUSION ORDER ===')
         const orderResult = await createFusionOrder()
+        const swapLog = log.child({orderHash: orderResult.hashHex})
 
-        // Step 2: Wait for transaction to be processed
-        console.log('\n⏳ Waiting 5 seconds for order creation to be processed...')
-        await new Promise((resolve) => setTimeout(resolve, 5000))
-
-        // Step 3: Accept fusion order with resolver
-        console.log('\n=== STEP 2: ACCEPT FUSION ORDER ===')
+        // Step 2: Accept fusion order with resolver, the order transaction is committed once created
         const acceptTxHash = await acceptFusionOrder(orderResult.txHash)
 
         if (!acceptTxHash) {
-            console.error('❌ Failed to accept fusion order')
+            swapLog.error('Failed to accept fusion order')
             return
         }
 
-        // Step 4: Wait for acceptance to be processed
-        console.log('\n⏳ Waiting 5 seconds for order acceptance to be processed...')
-        await new Promise((resolve) => setTimeout(resolve, 5000))
-
-        // Step 5: Get and log escrow event data
-        console.log('\n=== STEP 3: EXTRACT ESCROW EVENT DATA ===')
+        // Step 3: Get and log escrow event data
         const escrowEventData = await getEscrowEventData(acceptTxHash)
 
         if (!escrowEventData) {
-            console.error('❌ Failed to extract escrow event data')
+            swapLog.error('Failed to extract escrow event data')
             return
         }
-        // Step 6: Deploy destination escrow on EVM
-        console.log('\n=== STEP 4: DEPLOY DESTINATION ESCROW ON EVM ===')
-
+        // Step 4: Deploy destination escrow on EVM
         const evmResult = await deployDst(src.resolver, escrowEventData, src.escrowFactory)
 
-        // Step 5: Withdraw on Aptos
-        console.log('\n=== STEP 5: WITHDRAW ON APTOS ===')
+        // Step 5: Withdraw on Aptos once the finality lock of the source escrow passed on the ledger
         const aptosEscrowAddress = escrowEventData?.escrow?.address
         if (aptosEscrowAddress && aptosEscrowAddress !== 'mock_aptos_escrow') {
-            const aptosWithdrawResult = await withdrawOnAptos(orderResult.secret, aptosEscrowAddress)
-            console.log('Aptos withdrawal result:', aptosWithdrawResult)
+            const srcTimeLocks = swapTimelocks.withDeployedAt(BigInt(escrowEventData.escrow.timelockCreatedAt))
+            await advanceToSrcStage(aptosClock, srcTimeLocks.toSdk(), Sdk.SrcStage.PrivateWithdrawal)
+            await withdrawOnAptos(escrowEventData.fusionOrder.hash, orderResult.secret, aptosEscrowAddress)
         } else {
-            console.log('⚠️ Skipping Aptos withdrawal - no valid escrow address')
+            swapLog.warn('Skipping Aptos withdrawal, no valid escrow address')
         }
 
         // Step 6: Withdraw on Optimism
-        console.log('\n=== STEP 6: WITHDRAW ON OPTIMISM ===')
         const optimismEscrowAddress = evmResult?.escrowAddress
         const immutables = evmResult?.immutables
-        console.log('Optimism escrow address:', optimismEscrowAddress)
-        console.log('Immutables available:', !!immutables)
 
         if (optimismEscrowAddress && immutables && optimismEscrowAddress !== src.escrowFactory) {
-            const optimismWithdrawResult = await withdrawOnOptimism(
+            await withdrawOnOptimism(
                 src.resolver,
+                escrowEventData.fusionOrder.hash,
                 orderResult.secret,
                 optimismEscrowAddress,
-                immutables
+                immutables,
+                evmResult.deployedAt
             )
-            console.log('Optimism withdrawal result:', optimismWithdrawResult)
         } else {
-            console.log('⚠️ Skipping Optimism withdrawal - no valid escrow address or immutables')
-            console.log('   Escrow address:', optimismEscrowAddress)
-            console.log('   Is factory address:', optimismEscrowAddress === src.escrowFactory)
-            console.log('   Has immutables:', !!immutables)
+            swapLog.warn('Skipping Optimism withdrawal, no valid escrow address or immutables', {
+                escrow: optimismEscrowAddress,
+                isFactory: optimismEscrowAddress === src.escrowFactory,
+                hasImmutables: Boolean(immutables)
+            })
         }
 
-        // Final summary
-        console.log('\n🎉 COMPLETE CROSS-CHAIN FLOW SUCCESSFUL!')
-        console.log('='.repeat(70))
-
-        console.log('\n📋 TRANSACTION SUMMARY:')
-        console.log(`   🔥 Aptos Order Creation: ${orderResult.txHash}`)
-        console.log(`   🤝 Aptos Order Acceptance: ${acceptTxHash}`)
-        console.log(`   ⚡ EVM Destination Escrow: ${evmResult.txHash}`)
-        console.log(`   🔐 Original Secret: ${orderResult.secret}`)
-        console.log(`   🔒 Secret Hash: ${orderResult.hashHex}`)
-        console.log(`   📊 Accepted at Price: ${escrowEventData.fusionOrder.currentPrice} (Dutch auction)`)
-
-        console.log('\n🌐 KEY ADDRESSES:')
-        console.log(`   👤 User: ${user.accountAddress}`)
-        console.log(`   🔧 Aptos Resolver: ${resolver.accountAddress}`)
-        console.log(`   🔒 Aptos Source Escrow: ${escrowEventData.escrow.address}`)
-        console.log(`   📋 Fusion Order: ${escrowEventData.fusionOrder.address}`)
-        console.log(`   ⚡ EVM Destination Escrow: ${evmResult.escrowAddress}`)
-        console.log(`   🏭 EVM Escrow Factory: ${src?.escrowFactory}`)
-        console.log(`   🔧 EVM Resolver: ${src?.resolver}`)
-
-        console.log('\n💱 CROSS-CHAIN SWAP DETAILS:')
-        console.log(`   📱 Source Chain: Aptos (APT)`)
-        console.log(`   ⚡ Destination Chain: Chain ID ${escrowEventData.fusionOrder.chainId} (Optimism)`)
-        console.log(
-            `   💰 Source Amount: ${escrowEventData.fusionOrder.sourceAmount} octas (${escrowEventData.fusionOrder.sourceAmount / 1e8} APT)`
-        )
-        console.log(
-            `   🎯 Destination Asset: 0x${Buffer.from(escrowEventData.fusionOrder.destinationAsset.slice(2), 'hex').toString('hex')} (USDC)`
-        )
-        console.log(
-            `   👥 Destination Recipient: 0x${Buffer.from(escrowEventData.fusionOrder.destinationRecipient.slice(2), 'hex').toString('hex')}`
-        )
-        console.log(
-            `   💎 Accepted Price: ${escrowEventData.fusionOrder.currentPrice} (${escrowEventData.fusionOrder.currentPrice / 1e6} USDC)`
-        )
-
-        console.log('\n🔐 ATOMIC SWAP SECRETS:')
-        console.log(`   🔑 Secret (for withdrawal): ${orderResult.secret}`)
-        console.log(`   🔒 Hash (in contracts): ${escrowEventData.fusionOrder.hash}`)
-        console.log(
-            `   ✅ Hash Verification: ${orderResult.hashHex === escrowEventData.fusionOrder.hash ? 'MATCH ✅' : 'MISMATCH ❌'}`
-        )
-
-        console.log('\n🔄 COMPLETE CROSS-CHAIN INTEGRATION SUCCESSFUL:')
-        console.log('   1. ✅ User created fusion order on Aptos')
-        console.log('   2. ✅ Resolver accepted order and created source escrow on Aptos')
-        console.log('   3. ✅ Destination escrow created on Optimism with USDC')
-        console.log('   4. 🔄 Ready for withdrawals using the same secret on both chains')
-
-        console.log('\n📊 NEXT STEPS:')
-        console.log('   - User can withdraw USDC on Optimism using the secret')
-        console.log('   - Resolver can withdraw APT on Aptos using the same secret')
-        console.log(`   - Secret: ${orderResult.secret}`)
-
-        console.log('\n🔗 EXPLORER LINKS:')
-        console.log(
-            `   📱 Aptos Order Creation: https://explorer.aptoslabs.com/txn/${orderResult.txHash}?network=testnet`
-        )
-        console.log(`   🤝 Aptos Order Acceptance: https://explorer.aptoslabs.com/txn/${acceptTxHash}?network=testnet`)
-        console.log(`   ⚡ Optimism Destination Escrow: https://optimistic.etherscan.io/tx/${evmResult.txHash}`)
+        swapLog.info('Cross-chain flow completed', {
+            orderTxHash: orderResult.txHash,
+            acceptTxHash,
+            dstTxHash: evmResult.txHash,
+            hashVerified: orderResult.hashHex === escrowEventData.fusionOrder.hash,
+            acceptedPrice: escrowEventData.fusionOrder.currentPrice,
+            user: user.accountAddress.toString(),
+            aptosResolver: resolver.accountAddress.toString(),
+            srcEscrow: escrowEventData.escrow.address,
+            fusionOrder: escrowEventData.fusionOrder.address,
+            dstEscrow: evmResult.escrowAddress,
+            escrowFactory: src?.escrowFactory,
+            evmResolver: src?.resolver,
+            dstChainId: escrowEventData.fusionOrder.chainId,
+            sourceAmount: escrowEventData.fusionOrder.sourceAmount,
+            destinationAsset: escrowEventData.fusionOrder.destinationAsset,
+            destinationRecipient: escrowEventData.fusionOrder.destinationRecipient,
+            explorer: {
+                orderCreation: `https://explorer.aptoslabs.com/txn/${orderResult.txHash}?network=testnet`,
+                orderAcceptance: `https://explorer.aptoslabs.com/txn/${acceptTxHash}?network=testnet`,
+                dstEscrow: `https://optimistic.etherscan.io/tx/${evmResult.txHash}`
+            }
+        })
 
         return {
             orderResult,
@@ -1000,15 +779,15 @@ async function main() {
             }
         }
     } catch (error) {
-        console.error('❌ Error:', error)
+        log.error('Cross-chain flow failed', {error})
         process.exit(1)
     }
 }
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
-    console.log('\n🛑 Process interrupted')
+    log.warn('Process interrupted')
     process.exit(0)
 })
 
-main().catch(console.error)
+main().catch((error) => log.error('Cross-chain flow failed', {error}))
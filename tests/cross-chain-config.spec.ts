@@ -0,0 +1,92 @@
+import {expect, describe, it, beforeEach, afterEach} from '@jest/globals'
+
+import {Network} from '@aptos-labs/ts-sdk'
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {CrossChainConfigError, loadCrossChainConfig} from './cross-chain-config'
+import {defaultRetryPolicy} from './retry'
+
+const aptosKey = '0x' + '01'.repeat(32)
+
+// the Aptos keys the testnet profile leaves to the config file
+const testnetFile = `
+profiles:
+  testnet:
+    aptos:
+      resolverPrivateKey: "${aptosKey}"
+      ownerPrivateKey: "${aptosKey}"
+      userPrivateKey: "${aptosKey}"
+    optimism:
+      rpcUrl: https://optimism.example.org
+`
+
+describe('loadCrossChainConfig', () => {
+    let dir: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'cross-chain-config-'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, {recursive: true, force: true})
+    })
+
+    function file(name: string, content: string): string {
+        const path = join(dir, name)
+        writeFileSync(path, content)
+
+        return path
+    }
+
+    it('layers the config file over the profile defaults', () => {
+        const config = loadCrossChainConfig({profile: 'testnet', file: file('config.yaml', testnetFile), env: {}})
+
+        expect(config.aptos).toMatchObject({network: Network.TESTNET, resolverPrivateKey: aptosKey})
+        expect(config.optimism).toMatchObject({rpcUrl: 'https://optimism.example.org', chainId: 10})
+        expect(config.crossChain.retry).toEqual(defaultRetryPolicy)
+    })
+
+    it('reads JSON files and lets the environment override them', () => {
+        const json = file(
+            'config.json',
+            JSON.stringify({
+                profiles: {
+                    testnet: {
+                        aptos: {resolverPrivateKey: aptosKey, ownerPrivateKey: aptosKey, userPrivateKey: aptosKey}
+                    }
+                }
+            })
+        )
+
+        const config = loadCrossChainConfig({
+            profile: 'testnet',
+            file: json,
+            env: {SRC_CHAIN_RPC: 'http://127.0.0.1:9545', SWAP_JOURNAL: 'other.json', CONTRACT_ADDRESS_TESTNET: '0xa'}
+        })
+
+        expect(config.optimism.rpcUrl).toBe('http://127.0.0.1:9545')
+        expect(config.crossChain.swapJournal).toBe('other.json')
+        expect(config.aptos.contractAddress).toBe('0xa')
+    })
+
+    it('lists every invalid field by its path', () => {
+        const invalid = file(
+            'config.yaml',
+            testnetFile.replace(`resolverPrivateKey: "${aptosKey}"`, 'resolverPrivateKey: "nope"') +
+                '      chainId: -1\n'
+        )
+        const load = (): unknown => loadCrossChainConfig({profile: 'testnet', file: invalid, env: {}})
+
+        expect(load).toThrow(CrossChainConfigError)
+        expect(load).toThrow(
+            expect.objectContaining({
+                profile: 'testnet',
+                issues: [
+                    {path: 'aptos.resolverPrivateKey', message: 'Expected Ed25519 private key'},
+                    {path: 'optimism.chainId', message: expect.any(String)}
+                ]
+            })
+        )
+    })
+})
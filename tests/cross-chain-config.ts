@@ -1,83 +1,250 @@
-import { Network } from "@aptos-labs/ts-sdk";
-
-export interface CrossChainConfig {
-  aptos: {
-    network: Network;
-    contractAddress: string;
-    resolverPrivateKey: string;
-    ownerPrivateKey: string;
-    userPrivateKey: string;
-  };
-  optimism: {
-    rpcUrl: string;
-    chainId: number;
-    ownerPrivateKey: string;
-    resolverPrivateKey: string;
-  };
-  crossChain: {
-    // Known Aptos addresses that will be hashed for EVM compatibility
-    aptosReceiverAddress: string;
-    aptosTakerAssetAddress: string;
-    // Timing settings
-    finalizationDelay: number; // seconds to wait between chains
-    retryAttempts: number;
-    retryDelay: number; // seconds
-  };
+import {Network} from '@aptos-labs/ts-sdk'
+import {z} from 'zod'
+import {parse as parseYaml} from 'yaml'
+import {existsSync, readFileSync} from 'node:fs'
+import {extname} from 'node:path'
+import {logger, redact} from './logger'
+import {defaultRetryPolicy} from './retry'
+
+const evmPrivateKey = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected 0x-prefixed 32-byte hex private key')
+// Raw hex or AIP-80 prefixed Ed25519 key
+const aptosPrivateKey = z.string().regex(/^(ed25519-priv-)?(0x)?[0-9a-fA-F]{64}$/, 'Expected Ed25519 private key')
+const aptosAddress = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected 0x-prefixed 32-byte Aptos address')
+const aptosAccountAddress = z.string().regex(/^0x[0-9a-fA-F]{1,64}$/, 'Expected 0x-prefixed Aptos account address')
+
+const CrossChainConfigSchema = z.object({
+    aptos: z.object({
+        network: z.nativeEnum(Network),
+        contractAddress: aptosAccountAddress,
+        resolverPrivateKey: aptosPrivateKey,
+        ownerPrivateKey: aptosPrivateKey,
+        userPrivateKey: aptosPrivateKey
+    }),
+    optimism: z.object({
+        rpcUrl: z.string().url(),
+        chainId: z.number().int().positive(),
+        ownerPrivateKey: evmPrivateKey,
+        resolverPrivateKey: evmPrivateKey
+    }),
+    crossChain: z.object({
+        // Known Aptos addresses that will be hashed for EVM compatibility
+        aptosReceiverAddress: aptosAddress,
+        aptosTakerAssetAddress: aptosAddress,
+        // Retries of chain calls, see `RetryPolicy`
+        retry: z.object({
+            attempts: z.number().int().positive(),
+            initialDelayMs: z.number().nonnegative(),
+            maxDelayMs: z.number().nonnegative(),
+            multiplier: z.number().min(1),
+            jitter: z.number().min(0).max(1),
+            deadlineMs: z.number().positive().optional()
+        }),
+        // JSON file the coordinator journals swap states to, see `SwapJournal`
+        swapJournal: z.string().min(1)
+    })
+})
+
+export type CrossChainConfig = z.infer<typeof CrossChainConfigSchema>
+
+export type CrossChainProfile = 'local' | 'testnet' | 'mainnet'
+
+type DeepPartial<T> = {[K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K]}
+
+export type CrossChainConfigOverrides = DeepPartial<CrossChainConfig>
+
+const ProfileSchema = z.enum(['local', 'testnet', 'mainnet'])
+
+const FileSchema = z.object({
+    profiles: z.record(ProfileSchema, z.record(z.string(), z.unknown())).default({})
+})
+
+const EnvSchema = z.object({
+    CROSS_CHAIN_PROFILE: ProfileSchema.default('testnet'),
+    CROSS_CHAIN_CONFIG: z.string().default('cross-chain.config.yaml'),
+    CONTRACT_ADDRESS_TESTNET: z.string().optional(),
+    RESOLVER_PRIVATE_KEY: z.string().optional(),
+    OWNER_PRIVATE_KEY: z.string().optional(),
+    USER_PRIVATE_KEY: z.string().optional(),
+    SRC_CHAIN_RPC: z.string().optional(),
+    OPTIMISM_PRIVATE_KEY: z.string().optional(),
+    OPTIMISM_RESOLVER_PRIVATE_KEY: z.string().optional(),
+    SWAP_JOURNAL: z.string().optional()
+})
+
+export class CrossChainConfigError extends Error {
+    constructor(
+        public readonly profile: string,
+        public readonly issues: {path: string; message: string}[]
+    ) {
+        super(
+            `Invalid cross-chain config for profile "${profile}":\n` +
+                issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n')
+        )
+        this.name = 'CrossChainConfigError'
+    }
 }
 
-export const defaultCrossChainConfig: CrossChainConfig = {
-  aptos: {
-    network: Network.TESTNET,
-    contractAddress: process.env.CONTRACT_ADDRESS_TESTNET || "0xd4d479bbcad621f806f2ed82aae05c6bcb98b01c02a056933d074729f4872192",
-    resolverPrivateKey: process.env.RESOLVER_PRIVATE_KEY as string,
-    ownerPrivateKey: process.env.OWNER_PRIVATE_KEY as string,
-    userPrivateKey: process.env.USER_PRIVATE_KEY as string,
-  },
-  optimism: {
-    rpcUrl: process.env.SRC_CHAIN_RPC || 'https://optimism.publicnode.com',
-    chainId: 10, // Optimism mainnet
-    ownerPrivateKey: process.env.OPTIMISM_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-    resolverPrivateKey: process.env.OPTIMISM_RESOLVER_PRIVATE_KEY || '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
-  },
-  crossChain: {
+// Anvil's default accounts, only suitable for the local profile and forks
+const ANVIL_OWNER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const ANVIL_RESOLVER_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+
+const sharedCrossChain = {
     // These addresses are used for cross-chain mapping via SHA1 hashing
     aptosReceiverAddress: '0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497',
     aptosTakerAssetAddress: '0x000000000000000000000000000000000000000000000000000000000000000a', // APT token
-    finalizationDelay: 5, // 5 seconds
-    retryAttempts: 3,
-    retryDelay: 2, // 2 seconds
-  }
-};
+    retry: defaultRetryPolicy,
+    swapJournal: 'swaps.json'
+}
+
+const profileDefaults: Record<CrossChainProfile, CrossChainConfigOverrides> = {
+    local: {
+        aptos: {network: Network.LOCAL},
+        optimism: {
+            rpcUrl: 'http://127.0.0.1:8545',
+            chainId: 31337,
+            ownerPrivateKey: ANVIL_OWNER_KEY,
+            resolverPrivateKey: ANVIL_RESOLVER_KEY
+        },
+        crossChain: sharedCrossChain
+    },
+    testnet: {
+        aptos: {
+            network: Network.TESTNET,
+            contractAddress: '0xd4d479bbcad621f806f2ed82aae05c6bcb98b01c02a056933d074729f4872192'
+        },
+        optimism: {
+            rpcUrl: 'https://optimism.publicnode.com',
+            chainId: 10, // Optimism mainnet
+            ownerPrivateKey: ANVIL_OWNER_KEY,
+            resolverPrivateKey: ANVIL_RESOLVER_KEY
+        },
+        crossChain: sharedCrossChain
+    },
+    // No keys or contract addresses by default, they must come from the config file or env
+    mainnet: {
+        aptos: {network: Network.MAINNET},
+        optimism: {
+            rpcUrl: 'https://optimism.publicnode.com',
+            chainId: 10
+        },
+        crossChain: sharedCrossChain
+    }
+}
+
+function mergeConfig(base: CrossChainConfigOverrides, override: CrossChainConfigOverrides): CrossChainConfigOverrides {
+    return {
+        aptos: {...base.aptos, ...override.aptos},
+        optimism: {...base.optimism, ...override.optimism},
+        crossChain: {
+            ...base.crossChain,
+            ...override.crossChain,
+            retry: {...base.crossChain?.retry, ...override.crossChain?.retry}
+        }
+    }
+}
+
+function dropUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>
+}
+
+function envOverrides(env: z.infer<typeof EnvSchema>): CrossChainConfigOverrides {
+    return {
+        aptos: dropUndefined({
+            contractAddress: env.CONTRACT_ADDRESS_TESTNET,
+            resolverPrivateKey: env.RESOLVER_PRIVATE_KEY,
+            ownerPrivateKey: env.OWNER_PRIVATE_KEY,
+            userPrivateKey: env.USER_PRIVATE_KEY
+        }),
+        optimism: dropUndefined({
+            rpcUrl: env.SRC_CHAIN_RPC,
+            ownerPrivateKey: env.OPTIMISM_PRIVATE_KEY,
+            resolverPrivateKey: env.OPTIMISM_RESOLVER_PRIVATE_KEY
+        }),
+        crossChain: dropUndefined({
+            swapJournal: env.SWAP_JOURNAL
+        })
+    }
+}
+
+/**
+ * Read the overrides of `profile` from a JSON or YAML config file
+ */
+function readProfileFile(path: string, profile: CrossChainProfile): CrossChainConfigOverrides {
+    const raw = readFileSync(path, 'utf8')
+    const content = extname(path) === '.json' ? JSON.parse(raw) : parseYaml(raw)
+    const parsed = FileSchema.safeParse(content ?? {})
+
+    if (!parsed.success) {
+        throw new CrossChainConfigError(profile, toIssues(parsed.error))
+    }
+
+    return (parsed.data.profiles[profile] ?? {}) as CrossChainConfigOverrides
+}
+
+function toIssues(error: z.ZodError): {path: string; message: string}[] {
+    return error.issues.map((issue) => ({
+        path: issue.path.join('.') || '<root>',
+        message: issue.message
+    }))
+}
+
+/**
+ * Load the cross-chain config of a named profile.
+ *
+ * Values are layered as profile defaults < config file < environment variables,
+ * then validated as a whole. The profile and file default to `CROSS_CHAIN_PROFILE`
+ * and `CROSS_CHAIN_CONFIG`, a missing default file is not an error.
+ */
+export function loadCrossChainConfig(
+    options: {profile?: CrossChainProfile; file?: string; env?: NodeJS.ProcessEnv} = {}
+): CrossChainConfig {
+    const env = EnvSchema.parse(options.env ?? process.env)
+    const profile = options.profile ?? env.CROSS_CHAIN_PROFILE
+    const file = options.file ?? env.CROSS_CHAIN_CONFIG
+
+    if (options.file && !existsSync(options.file)) {
+        throw new Error(`Cross-chain config file ${options.file} does not exist`)
+    }
+
+    let merged = profileDefaults[profile]
+
+    if (existsSync(file)) {
+        merged = mergeConfig(merged, readProfileFile(file, profile))
+    }
+
+    merged = mergeConfig(merged, envOverrides(env))
+
+    return parseCrossChainConfig(merged, profile)
+}
+
+/**
+ * Validate raw config values, the thrown error lists every invalid field by its path
+ */
+export function parseCrossChainConfig(value: unknown, profile = 'custom'): CrossChainConfig {
+    const parsed = CrossChainConfigSchema.safeParse(value)
+
+    if (!parsed.success) {
+        throw new CrossChainConfigError(profile, toIssues(parsed.error))
+    }
+
+    const {aptos, optimism} = parsed.data
+    const keys = [
+        aptos.resolverPrivateKey,
+        aptos.ownerPrivateKey,
+        aptos.userPrivateKey,
+        optimism.ownerPrivateKey,
+        optimism.resolverPrivateKey
+    ]
+    keys.forEach(redact)
+
+    return parsed.data
+}
 
 /**
  * Validate cross-chain configuration
  */
 export function validateCrossChainConfig(config: CrossChainConfig): void {
-  const requiredEnvVars = [
-    'CONTRACT_ADDRESS_TESTNET',
-    'RESOLVER_PRIVATE_KEY',
-    'OWNER_PRIVATE_KEY',
-    'USER_PRIVATE_KEY',
-  ];
-
-  const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
-  
-  if (missingVars.length > 0) {
-    console.error('❌ Missing required environment variables for cross-chain setup:');
-    missingVars.forEach(varName => console.error(`   - ${varName}`));
-    throw new Error('Missing required environment variables');
-  }
-
-  // Validate Aptos addresses
-  if (!config.crossChain.aptosReceiverAddress.startsWith('0x') || 
-      config.crossChain.aptosReceiverAddress.length !== 66) {
-    throw new Error('Invalid Aptos receiver address format');
-  }
-
-  if (!config.crossChain.aptosTakerAssetAddress.startsWith('0x') || 
-      config.crossChain.aptosTakerAssetAddress.length !== 66) {
-    throw new Error('Invalid Aptos taker asset address format');
-  }
-
-  console.log('✅ Cross-chain configuration validated successfully');
-}
\ No newline at end of file
+    parseCrossChainConfig(config)
+
+    logger.debug('Cross-chain configuration validated', {module: 'config'})
+}
@@ -0,0 +1,246 @@
+import {expect, jest, describe, it, beforeEach, afterEach} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify, makeError, randomBytes, TransactionRequest} from 'ethers'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {Chain} from './chain'
+import {ChainAdapter, DstEscrow} from './chain-adapter'
+import {Clock} from './clock'
+import {parseCrossChainConfig} from './cross-chain-config'
+import {CrossChainCoordinator} from './cross-chain-order'
+import {Resolver} from './resolver'
+import {SwapJournal, SwapRecord, SwapState} from './swap-journal'
+import {Wallet} from './wallet'
+
+const {Address} = Sdk
+
+const srcChainId = Sdk.NetworkEnum.OPTIMISM
+const dstChainId = Sdk.NetworkEnum.BINANCE
+const deployedAt = 1_000_000n
+const resolverAddress = '0x' + '44'.repeat(20)
+const srcEscrow = '0x' + '55'.repeat(20)
+
+// chain clock which jumps to any timestamp it is asked to wait for
+class ManualClock implements Clock {
+    constructor(public time: bigint) {}
+
+    public async now(): Promise<bigint> {
+        return this.time
+    }
+
+    public async advanceTo(timestamp: bigint): Promise<void> {
+        this.time = timestamp > this.time ? timestamp : this.time
+    }
+
+    public async advance(seconds: bigint): Promise<void> {
+        this.time += seconds
+    }
+}
+
+function srcEscrowEvent(): [Sdk.Immutables, Sdk.DstImmutablesComplement] {
+    return [
+        Sdk.Immutables.new({
+            orderHash: hexlify(randomBytes(32)),
+            hashLock: Sdk.HashLock.forSingleFill(hexlify(randomBytes(32))),
+            maker: new Address('0x' + '11'.repeat(20)),
+            taker: new Address(resolverAddress),
+            token: new Address('0x' + '33'.repeat(20)),
+            amount: 100n,
+            safetyDeposit: 1n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }).setDeployedAt(deployedAt)
+        }),
+        Sdk.DstImmutablesComplement.new({
+            maker: new Address('0x' + '11'.repeat(20)),
+            amount: 99n,
+            token: new Address('0x' + '66'.repeat(20)),
+            safetyDeposit: 1n
+        })
+    ]
+}
+
+describe('CrossChainCoordinator', () => {
+    let dir: string
+    let journal: SwapJournal
+    let srcClock: ManualClock
+    let dstClock: ManualClock
+    let sent: TransactionRequest[]
+    let send: jest.Mock<(tx: TransactionRequest) => Promise<{txHash: string}>>
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'coordinator-'))
+        journal = new SwapJournal(join(dir, 'swaps.json'))
+        srcClock = new ManualClock(deployedAt)
+        dstClock = new ManualClock(deployedAt)
+        sent = []
+        send = jest.fn(async (tx: TransactionRequest) => {
+            sent.push(tx)
+
+            return {txHash: `0x0${sent.length}`}
+        })
+    })
+
+    afterEach(() => {
+        rmSync(dir, {recursive: true, force: true})
+    })
+
+    // every call of a test which is not stubbed fails it
+    function adapter(stubs: Partial<ChainAdapter> = {}): ChainAdapter {
+        const unexpected = async (): Promise<never> => {
+            throw new Error('unexpected adapter call')
+        }
+
+        return {
+            chainId: dstChainId,
+            clock: dstClock,
+            createDstEscrow: unexpected,
+            cursor: async () => 0n,
+            findDstEscrow: async () => undefined,
+            withdraw: unexpected,
+            cancel: unexpected,
+            getEscrowState: unexpected,
+            readDstEscrow: unexpected,
+            estimateFee: unexpected,
+            healthCheck: unexpected,
+            ...stubs
+        }
+    }
+
+    function coordinator(dst: ChainAdapter): CrossChainCoordinator {
+        const config = parseCrossChainConfig({
+            aptos: {
+                network: 'local',
+                contractAddress: '0x1',
+                resolverPrivateKey: '0x' + '01'.repeat(32),
+                ownerPrivateKey: '0x' + '02'.repeat(32),
+                userPrivateKey: '0x' + '03'.repeat(32)
+            },
+            optimism: {
+                rpcUrl: 'http://127.0.0.1:8545',
+                chainId: srcChainId,
+                ownerPrivateKey: '0x' + '04'.repeat(32),
+                resolverPrivateKey: '0x' + '05'.repeat(32)
+            },
+            crossChain: {
+                aptosReceiverAddress: '0x' + 'ab'.repeat(32),
+                aptosTakerAssetAddress: '0x' + '00'.repeat(31) + '0a',
+                retry: {attempts: 2, initialDelayMs: 0, maxDelayMs: 0, multiplier: 1, jitter: 0},
+                swapJournal: journal.path
+            }
+        })
+        const chain = {config: {chainId: srcChainId}, resolver: resolverAddress, clock: srcClock} as unknown as Chain
+
+        return new CrossChainCoordinator(config, [dst], {journal, source: {chain, wallet: {send} as unknown as Wallet}})
+    }
+
+    // swap whose source escrow was created at `deployedAt`
+    function srcDeployed(coord: CrossChainCoordinator): {record: SwapRecord; immutables: Sdk.Immutables} {
+        const event = srcEscrowEvent()
+        const {id} = journal.create({
+            id: event[0].orderHash,
+            srcChainId,
+            dstChainId,
+            secret: hexlify(randomBytes(32)),
+            order: {data: {} as SwapRecord['order']['data'], extension: '0x', signature: '0x'},
+            destination: {}
+        })
+
+        return {record: coord.recordSrcDeployed(id, '0xf111', srcEscrow, event), immutables: event[0]}
+    }
+
+    it('refunds the source escrow with cancel once srcCancellation is reached on the source clock', async () => {
+        const coord = coordinator(adapter())
+        const {record, immutables} = srcDeployed(coord)
+
+        const refunded = await coord.cancelSwap(record.id, 'maker asked to cancel')
+
+        expect(refunded.state).toBe(SwapState.REFUNDED)
+        expect(refunded.refund).toEqual({reason: 'maker asked to cancel', src: '0x01', method: 'cancel'})
+        expect(sent.map((tx) => tx.data)).toEqual([
+            new Resolver(resolverAddress).cancel('src', new Address(srcEscrow), immutables).data
+        ])
+        expect(srcClock.time).toBe(deployedAt + 121n)
+    })
+
+    it('falls back to publicCancel from srcPublicCancellation when cancel reverts', async () => {
+        send.mockRejectedValueOnce(makeError('execution reverted', 'CALL_EXCEPTION'))
+        const coord = coordinator(adapter())
+        const {record, immutables} = srcDeployed(coord)
+
+        const refunded = await coord.cancelSwap(record.id)
+
+        expect(refunded.state).toBe(SwapState.REFUNDED)
+        expect(refunded.refund).toMatchObject({src: '0x01', method: 'publicCancel'})
+        expect(sent.map((tx) => tx.data)).toEqual([
+            new Resolver(resolverAddress).publicCancel(new Address(srcEscrow), immutables).data
+        ])
+        expect(srcClock.time).toBe(deployedAt + 122n)
+    })
+
+    it('refunds the source escrow when the destination escrow can not be created', async () => {
+        const createDstEscrow = jest.fn(async (): Promise<DstEscrow> => {
+            throw new Error('escrow creation aborted')
+        })
+        const coord = coordinator(adapter({createDstEscrow}))
+        const {record} = srcDeployed(coord)
+
+        const refunded = await coord.resume(record.id)
+
+        expect(createDstEscrow).toHaveBeenCalledTimes(1)
+        expect(refunded.state).toBe(SwapState.REFUNDED)
+        expect(refunded.refund).toEqual({reason: 'escrow creation aborted', src: '0x01', method: 'cancel'})
+    })
+
+    it('cancels the destination escrow before the source one', async () => {
+        const dst: DstEscrow = {chainId: dstChainId, txHash: '0xd111', address: '0xd222', createdAt: deployedAt}
+        const cancel = jest.fn(async () => '0xdcancel')
+        const coord = coordinator(
+            adapter({
+                cancel,
+                readDstEscrow: async () => ({
+                    hashLock: '0x',
+                    amount: 99n,
+                    token: '0x' + '66'.repeat(20),
+                    receiver: '0x' + '11'.repeat(20),
+                    withdrawalStart: deployedAt + 10n,
+                    cancellationStart: deployedAt + 101n
+                })
+            })
+        )
+        const {record} = srcDeployed(coord)
+        journal.transition(record.id, SwapState.DST_DEPLOYED, {
+            dst: {chainId: dstChainId, txHash: dst.txHash, address: dst.address, createdAt: deployedAt.toString()}
+        })
+
+        const refunded = await coord.cancelSwap(record.id)
+
+        expect(cancel).toHaveBeenCalledWith(dst)
+        expect(dstClock.time).toBe(deployedAt + 101n)
+        expect(refunded.history.map((h) => h.state).slice(-2)).toEqual([SwapState.CANCELLED, SwapState.REFUNDED])
+        expect(refunded.refund).toMatchObject({dst: '0xdcancel', src: '0x01', method: 'cancel'})
+    })
+
+    it('summarizes a swap with the source escrow of the journal', () => {
+        const coord = coordinator(adapter())
+        const {record} = srcDeployed(coord)
+        const dstResult = {dstChainId, createTxHash: '0xd111', escrowAddress: '0xd222'}
+
+        const summary = coord.createSwapSummary(record.id, dstResult, new Date(1000), new Date(3500))
+
+        expect(summary.optimism).toEqual({
+            orderFillTxHash: '0xf111',
+            withdrawTxHash: undefined,
+            escrowAddress: srcEscrow
+        })
+        expect(summary.timing.totalDuration).toBe(2500)
+    })
+})
@@ -1,253 +1,980 @@
-import { AptosIntegration, CrossChainEventData } from './aptos-integration';
-import { CrossChainConfig, defaultCrossChainConfig, validateCrossChainConfig } from './cross-chain-config';
-import crypto from 'crypto';
-import Sdk from '@1inch/cross-chain-sdk';
+import Sdk from '@1inch/cross-chain-sdk'
+import {TransactionRequest} from 'ethers'
+import {AptosIntegration} from './aptos-integration'
+import {ChainAdapter, DstEscrow, DstEscrowRequest, HealthReport, UnhealthyChainError} from './chain-adapter'
+import {CrossChainConfig, loadCrossChainConfig, validateCrossChainConfig} from './cross-chain-config'
+import {APTOS_CHAIN_ID, fromOrderChainId, getAddressCommitment} from './address-commitment'
+import {Chain} from './chain'
+import {advanceToSrcStage, Clock} from './clock'
+import {EscrowFactory} from './escrow-factory'
+import {checkEvmChain} from './evm-health'
+import {Resolver} from './resolver'
+import {logger, redact} from './logger'
+import {classifyError, withRetry} from './retry'
+import {JobFailure, ScheduledJob, TimelockScheduler} from './scheduler'
+import {releaseSecret} from './secret-release'
+import {
+    decodeDstEscrow,
+    decodeSrcEscrow,
+    encodeDstEscrow,
+    encodeSrcEscrow,
+    isFinal,
+    PendingSend,
+    SwapJournal,
+    SwapRecord,
+    SwapState
+} from './swap-journal'
+import {Timelocks, TimelockStage} from './timelocks'
+import {Wallet} from './wallet'
+
+export interface DstSwapResult {
+    dstChainId: number
+    createTxHash: string
+    withdrawTxHash?: string
+    escrowAddress?: string
+}
 
 export interface CrossChainSwapResult {
-  optimism: {
-    orderFillTxHash: string;
-    withdrawTxHash: string;
-    escrowAddress: string;
-  };
-  aptos: {
-    createTxHash: string;
-    withdrawTxHash?: string;
-    escrowAddress?: string;
-  };
-  timing: {
-    startTime: Date;
-    endTime: Date;
-    totalDuration: number; // milliseconds
-  };
+    optimism: {
+        orderFillTxHash: string
+        // undefined until the source escrow is withdrawn
+        withdrawTxHash?: string
+        escrowAddress: string
+    }
+    dst: DstSwapResult
+    timing: {
+        startTime: Date
+        endTime: Date
+        totalDuration: number // milliseconds
+    }
+}
+
+/**
+ * EVM source chain of journalled swaps, `wallet` owns the resolver contract
+ */
+export interface SourceChain {
+    chain: Chain
+    wallet: Wallet
+}
+
+/**
+ * Destination leg failed for good, `cause` is the failure. `refund` settles once the source escrow was cancelled,
+ * with undefined when no source chain is configured to cancel it on
+ */
+export class CrossChainSwapFailedError extends Error {
+    constructor(
+        reason: string,
+        public readonly refund: Promise<{method: 'cancel' | 'publicCancel'; txHash: string} | undefined>,
+        options?: ErrorOptions
+    ) {
+        super(`Cross-chain swap failed: ${reason}`, options)
+        this.name = 'CrossChainSwapFailedError'
+    }
+}
+
+/**
+ * Destination escrow can no longer be created: its cancellation would start after the source one
+ */
+export class DstDeadlinePassedError extends Error {
+    constructor(
+        public readonly deadline: bigint,
+        public readonly now: bigint
+    ) {
+        super(`Destination escrow had to be created before ${deadline}, now is ${now}`)
+        this.name = 'DstDeadlinePassedError'
+    }
 }
 
 export class CrossChainCoordinator {
-  private aptosIntegration: AptosIntegration;
-  private config: CrossChainConfig;
-
-  constructor(config: CrossChainConfig = defaultCrossChainConfig) {
-    this.config = config;
-    validateCrossChainConfig(config);
-
-    // Initialize Aptos integration
-    this.aptosIntegration = new AptosIntegration(
-      config.aptos.network,
-      config.aptos.contractAddress,
-      config.aptos.resolverPrivateKey
-    );
-  }
-
-  /**
-   * Generate SHA1 hashes for cross-chain address mapping
-   */
-  public generateSha1Hashes(): {
-    receiverSha1: string;
-    takerAssetSha1: string;
-  } {
-    const receiverSha1 = '0x' + crypto.createHash('sha1')
-      .update(this.config.crossChain.aptosReceiverAddress)
-      .digest('hex');
-    
-    const takerAssetSha1 = '0x' + crypto.createHash('sha1')
-      .update(this.config.crossChain.aptosTakerAssetAddress)
-      .digest('hex');
-
-    console.log('🔍 Generated SHA1 hashes for cross-chain mapping:');
-    console.log('  Aptos receiver:', this.config.crossChain.aptosReceiverAddress);
-    console.log('  -> SHA1 hash:', receiverSha1);
-    console.log('  Aptos taker asset:', this.config.crossChain.aptosTakerAssetAddress);
-    console.log('  -> SHA1 hash:', takerAssetSha1);
-
-    return { receiverSha1, takerAssetSha1 };
-  }
-
-  /**
-   * Process cross-chain event data from Optimism escrow deployment
-   */
-  public async processCrossChainEvents(
-    secret: string,
-    srcEscrowEvent: [Sdk.Immutables, Sdk.DstImmutablesComplement]
-  ): Promise<{
-    aptosCreateTxHash: string;
-    aptosWithdrawTxHash?: string;
-    aptosEscrowAddress?: string;
-  }> {
-    console.log('🌉 Processing cross-chain events...');
-
-    const startTime = Date.now();
-
-    try {
-      // Extract data from EVM escrow event
-      const [immutables, complement] = srcEscrowEvent;
-      
-      // Convert complement data to SHA1 hashes - remove any existing 0x prefix first
-      const receiverHex = complement.maker.toString().padStart(40, '0');
-      const takerAssetHex = complement.token.toString().padStart(40, '0');
-      
-      const receiverSha1 = '0x' + receiverHex;
-      const takerAssetSha1 = '0x' + takerAssetHex;
-      
-      // Create cross-chain event data
-      const eventData: CrossChainEventData = {
-        receiverSha1: receiverSha1.toLowerCase(),
-        takerAssetSha1: takerAssetSha1.toLowerCase(),
-        amount: complement.amount,
-        secret,
-        originalReceiverAddress: this.config.crossChain.aptosReceiverAddress,
-        originalTakerAssetAddress: this.config.crossChain.aptosTakerAssetAddress
-      };
-
-      console.log('📊 Cross-chain event data:');
-      console.log('  Amount:', eventData.amount.toString());
-      console.log('  Secret length:', secret.length);
-      console.log('  Receiver SHA1:', receiverSha1);
-      console.log('  Taker Asset SHA1:', takerAssetSha1);
-
-      // Execute cross-chain swap on Aptos with retry logic
-      let result;
-      let attempt = 0;
-      let lastError: Error | null = null;
-
-      while (attempt < this.config.crossChain.retryAttempts) {
+    private adapters = new Map<number, ChainAdapter>()
+
+    private config: CrossChainConfig
+
+    private journal: SwapJournal
+
+    private source?: SourceChain
+
+    private log = logger.child({module: 'coordinator'})
+
+    /**
+     * @param adapters destination chains, defaults to Aptos from the config; more can be added with `registerAdapter`
+     * @param options.source needed to fill and settle journalled swaps on the source chain
+     */
+    constructor(
+        config: CrossChainConfig = loadCrossChainConfig(),
+        adapters?: ChainAdapter[],
+        options: {journal?: SwapJournal; source?: SourceChain} = {}
+    ) {
+        // Refuse to start on an invalid profile
+        validateCrossChainConfig(config)
+        this.config = config
+        this.journal = options.journal ?? new SwapJournal(config.crossChain.swapJournal)
+        this.source = options.source
+
+        const defaults = adapters ?? [
+            new AptosIntegration(
+                config.aptos.network,
+                config.aptos.contractAddress,
+                config.aptos.resolverPrivateKey,
+                config.crossChain.retry
+            )
+        ]
+        defaults.forEach((adapter) => this.registerAdapter(adapter))
+    }
+
+    public registerAdapter(adapter: ChainAdapter): void {
+        this.adapters.set(adapter.chainId, adapter)
+    }
+
+    public getAdapter(dstChainId: number): ChainAdapter {
+        const adapter = this.adapters.get(dstChainId)
+
+        if (!adapter) {
+            throw new Error(`No chain adapter registered for destination chain ${dstChainId}`)
+        }
+
+        return adapter
+    }
+
+    /**
+     * Commitments the maker puts into the order in place of the Aptos receiver and taker asset
+     */
+    public generateCommitments(): {
+        receiverCommitment: string
+        takerAssetCommitment: string
+    } {
+        const commitment = getAddressCommitment(APTOS_CHAIN_ID)
+        const receiverCommitment = commitment.commit(this.config.crossChain.aptosReceiverAddress)
+        const takerAssetCommitment = commitment.commit(this.config.crossChain.aptosTakerAssetAddress)
+
+        this.log.info('Generated commitments for cross-chain mapping', {
+            algorithm: commitment.algorithm,
+            receiver: this.config.crossChain.aptosReceiverAddress,
+            receiverCommitment,
+            takerAsset: this.config.crossChain.aptosTakerAssetAddress,
+            takerAssetCommitment
+        })
+
+        return {receiverCommitment, takerAssetCommitment}
+    }
+
+    /**
+     * Lock the taker side on the destination chain of the order and withdraw it to the maker with `secret`
+     *
+     * The plaintext receiver and taker asset default to the Aptos addresses of the config for orders to Aptos,
+     * EVM destinations take them from the complement
+     */
+    public async processCrossChainEvents(
+        secret: string,
+        srcEscrowEvent: [Sdk.Immutables, Sdk.DstImmutablesComplement],
+        dstChainId: number = APTOS_CHAIN_ID,
+        destination: {receiver?: string; takerAsset?: string} = this.defaultDestination(dstChainId)
+    ): Promise<DstSwapResult> {
+        redact(secret)
+
+        const startTime = Date.now()
+        const adapter = this.getAdapter(dstChainId)
+        const log = this.log.child({orderHash: srcEscrowEvent[0].orderHash, dstChainId})
+
+        try {
+            const [srcImmutables, complement] = srcEscrowEvent
+            const request: DstEscrowRequest = {
+                srcChainId: this.config.optimism.chainId,
+                dstChainId,
+                srcImmutables,
+                complement,
+                ...destination
+            }
+
+            log.info('Processing cross-chain events', {
+                amount: complement.amount,
+                receiver: complement.maker.toString(),
+                takerAsset: complement.token.toString()
+            })
+
+            let escrow: DstEscrow
+
+            try {
+                escrow = await this.createDstEscrowWithRetries(request)
+            } catch (error) {
+                // The destination leg failed for good, give the maker's funds and the safety deposit back
+                throw new CrossChainSwapFailedError((error as Error).message, this.scheduleRefund(srcImmutables), {
+                    cause: error
+                })
+            }
+
+            let released: string
+
+            try {
+                // The maker shares the secret only with a destination escrow that matches the order
+                released = await releaseSecret(adapter, request, escrow, secret)
+            } catch (error) {
+                // The source refund runs at srcCancellation, the destination escrow is cancelled well before it
+                const refund = this.scheduleRefund(srcImmutables)
+
+                try {
+                    await adapter.cancel(escrow)
+                } catch (cancelError) {
+                    log.error('Destination escrow could not be cancelled', {escrow: escrow.address, error: cancelError})
+                }
+
+                throw new CrossChainSwapFailedError((error as Error).message, refund, {cause: error})
+            }
+
+            let withdrawTxHash: string | undefined
+
+            try {
+                withdrawTxHash = await adapter.withdraw(escrow, released)
+            } catch (error) {
+                // Don't throw here, the escrow is created and the withdrawal can be retried
+                log.warn('Failed to withdraw from destination escrow', {error})
+            }
+
+            const endTime = Date.now()
+            log.info('Cross-chain processing completed', {durationMs: endTime - startTime})
+
+            return {
+                dstChainId,
+                createTxHash: escrow.txHash,
+                withdrawTxHash,
+                escrowAddress: escrow.address
+            }
+        } catch (error) {
+            log.error('Cross-chain event processing failed', {error})
+            throw error
+        }
+    }
+
+    /**
+     * Journal a signed order as a new swap in ORDER_SIGNED, the swap id is the order hash
+     */
+    public recordOrder(
+        srcChainId: number,
+        order: Sdk.CrossChainOrder,
+        signature: string,
+        secret: string,
+        destination: {receiver?: string; takerAsset?: string} = this.defaultDestination(
+            fromOrderChainId(order.dstChainId)
+        )
+    ): SwapRecord {
+        redact(secret)
+
+        return this.journal.create({
+            id: order.getOrderHash(srcChainId),
+            srcChainId,
+            dstChainId: fromOrderChainId(order.dstChainId),
+            secret,
+            order: {data: order.build(), extension: order.extension.encode(), signature},
+            destination
+        })
+    }
+
+    /**
+     * Journal a source escrow created outside of the coordinator, e.g. by filling the order directly
+     */
+    public recordSrcDeployed(
+        swapId: string,
+        txHash: string,
+        escrowAddress: string,
+        srcEscrowEvent: [Sdk.Immutables, Sdk.DstImmutablesComplement]
+    ): SwapRecord {
+        return this.journal.transition(swapId, SwapState.SRC_DEPLOYED, {
+            src: encodeSrcEscrow(txHash, escrowAddress, srcEscrowEvent)
+        })
+    }
+
+    public getSwap(swapId: string): SwapRecord {
+        return this.journal.get(swapId)
+    }
+
+    /**
+     * Continue a swap from its last journalled state until SRC_WITHDRAWN, after a restart as well. Each step runs
+     * once its timelock stage is reached on the chain it acts on, see `planJob`. When the destination leg fails
+     * for good the swap is cancelled and refunded instead, see `cancelSwap`.
+     *
+     * The escrow creations are journalled as `pending` before they are sent: after a restart the escrow of an
+     * interrupted one is looked up on chain and only created when there is none. Other steps interrupted after their
+     * transaction was sent but before it was journalled are sent again
+     */
+    public async resume(swapId: string): Promise<SwapRecord> {
+        const [failure] = await this.runJobs([this.journal.get(swapId)])
+
+        if (failure) {
+            throw failure.error
+        }
+
+        const record = this.journal.get(swapId)
+        this.log.info('Swap settled', {swapId: record.id, state: record.state})
+
+        return record
+    }
+
+    /**
+     * Continue every unfinished swap of the journal side by side, e.g. after a restart. A failing swap does not
+     * hold up the others, it stays in its last journalled state
+     */
+    public async resumeAll(): Promise<{swaps: SwapRecord[]; failures: {swapId: string; error: Error}[]}> {
+        const pending = this.journal.list().filter((record) => !isFinal(record.state))
+        const failures = await this.runJobs(pending)
+
+        return {
+            swaps: pending.map((record) => this.journal.get(record.id)),
+            failures: failures.map(({job, error}) => ({swapId: swapIdOf(job), error}))
+        }
+    }
+
+    /**
+     * Cancel the destination escrow if there is one, then refund the source escrow: `cancel` from `srcCancellation`,
+     * `publicCancel` from `srcPublicCancellation` when the private cancellation reverts. The outcome is journalled.
+     */
+    public async cancelSwap(swapId: string, reason = 'cancelled by the resolver'): Promise<SwapRecord> {
+        const record = this.journal.get(swapId)
+
+        if (![SwapState.SRC_DEPLOYED, SwapState.DST_DEPLOYED, SwapState.CANCELLED].includes(record.state)) {
+            throw new Error(`Swap ${record.id} cannot be cancelled in state ${record.state}`)
+        }
+
+        this.journal.update(record.id, {refund: {...record.refund, reason: record.refund?.reason ?? reason}})
+
+        return this.resume(record.id)
+    }
+
+    /**
+     * Validate secret format
+     */
+    public validateSecret(secret: string): boolean {
+        // Secret should be a 32-byte hex string (with or without 0x prefix)
+        const cleanSecret = secret.replace('0x', '')
+        const isValid = /^[a-fA-F0-9]{64}$/.test(cleanSecret)
+
+        if (!isValid) {
+            this.log.error('Invalid secret format, expected a 32-byte hex string')
+
+            return false
+        }
+
+        return true
+    }
+
+    /**
+     * Get configuration
+     */
+    public getConfig(): CrossChainConfig {
+        return this.config
+    }
+
+    /**
+     * Health check for the configuration, the source chain when one is set and every registered destination chain
+     */
+    public async healthCheck(): Promise<{
+        config: boolean
+        source?: HealthReport
+        chains: Record<number, HealthReport>
+    }> {
+        const results = {
+            config: false,
+            source: undefined as HealthReport | undefined,
+            chains: {} as Record<number, HealthReport>
+        }
+
+        if (this.source) {
+            results.source = await checkEvmChain(this.source.chain)
+            logHealthReport(results.source)
+        }
+
+        for (const [chainId, adapter] of this.adapters) {
+            results.chains[chainId] = await adapter.healthCheck()
+            logHealthReport(results.chains[chainId])
+        }
+
+        // Check configuration
+        try {
+            validateCrossChainConfig(this.config)
+            results.config = true
+            this.log.info('Configuration valid')
+        } catch (error) {
+            this.log.error('Configuration invalid', {error})
+        }
+
+        const allHealthy =
+            results.config &&
+            (results.source?.healthy ?? true) &&
+            Object.values(results.chains).every((report) => report.healthy)
+        this.log.info('Health check finished', {healthy: allHealthy})
+
+        return results
+    }
+
+    /**
+     * Summary of a journalled swap, the source fill, escrow and withdrawal are read from the journal
+     */
+    public createSwapSummary(
+        swapId: string,
+        dstResult: DstSwapResult,
+        startTime: Date,
+        endTime: Date
+    ): CrossChainSwapResult {
+        const {id, src, withdrawals} = this.journal.get(swapId)
+
+        if (!src) {
+            throw new Error(`Swap ${id} has no source escrow yet`)
+        }
+
+        return {
+            optimism: {
+                orderFillTxHash: src.txHash,
+                withdrawTxHash: withdrawals.src,
+                escrowAddress: src.escrow
+            },
+            dst: dstResult,
+            timing: {
+                startTime,
+                endTime,
+                totalDuration: endTime.getTime() - startTime.getTime()
+            }
+        }
+    }
+
+    private async runJobs(records: SwapRecord[]): Promise<JobFailure[]> {
+        const scheduler = new TimelockScheduler((chainId) => this.clockOf(chainId))
+        const failures: JobFailure[] = []
+
+        for (const record of records) {
+            redact(record.secret)
+            this.log.info('Continuing swap', {swapId: record.id, state: record.state})
+
+            try {
+                scheduler.schedule(...(await this.followUp(record)))
+            } catch (error) {
+                failures.push({job: this.unplannedJob(record), error: error as Error})
+            }
+        }
+
+        return [...failures, ...(await scheduler.run())]
+    }
+
+    private async followUp(record: SwapRecord): Promise<ScheduledJob[]> {
+        if (isFinal(record.state)) {
+            return []
+        }
+
         try {
-          console.log(`🔄 Cross-chain attempt ${attempt + 1}/${this.config.crossChain.retryAttempts}`);
-          result = await this.aptosIntegration.completeCrossChainSwap(eventData);
-          break; // Success, exit retry loop
+            return [await this.planJob(record)]
         } catch (error) {
-          lastError = error as Error;
-          attempt++;
-          
-          if (attempt < this.config.crossChain.retryAttempts) {
-            console.log(`⚠️ Attempt ${attempt} failed: ${lastError.message}`);
-            console.log(`⏳ Waiting ${this.config.crossChain.retryDelay}s before retry...`);
-            await new Promise(resolve => setTimeout(resolve, this.config.crossChain.retryDelay * 1000));
-          }
-        }
-      }
-
-      if (!result) {
-        throw new Error(`Cross-chain integration failed after ${this.config.crossChain.retryAttempts} attempts. Last error: ${lastError?.message}`);
-      }
-
-      const endTime = Date.now();
-      console.log(`✅ Cross-chain processing completed in ${endTime - startTime}ms`);
-
-      return result;
-
-    } catch (error) {
-      console.error('❌ Cross-chain event processing failed:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Wait for finalization delay between chains
-   */
-  public async waitForFinalization(): Promise<void> {
-    console.log(`⏳ Waiting ${this.config.crossChain.finalizationDelay}s for cross-chain finalization...`);
-    await new Promise(resolve => setTimeout(resolve, this.config.crossChain.finalizationDelay * 1000));
-  }
-
-  /**
-   * Validate secret format
-   */
-  public validateSecret(secret: string): boolean {
-    // Secret should be a 32-byte hex string (with or without 0x prefix)
-    const cleanSecret = secret.replace('0x', '');
-    const isValid = /^[a-fA-F0-9]{64}$/.test(cleanSecret);
-    
-    if (!isValid) {
-      console.error('❌ Invalid secret format. Expected 32-byte hex string.');
-      return false;
-    }
-
-    console.log('✅ Secret format validated');
-    return true;
-  }
-
-  /**
-   * Get configuration
-   */
-  public getConfig(): CrossChainConfig {
-    return this.config;
-  }
-
-  /**
-   * Get Aptos integration instance
-   */
-  public getAptosIntegration(): AptosIntegration {
-    return this.aptosIntegration;
-  }
-
-  /**
-   * Health check for cross-chain components
-   */
-  public async healthCheck(): Promise<{
-    aptos: boolean;
-    optimism: boolean;
-    config: boolean;
-  }> {
-    console.log('🏥 Performing cross-chain health check...');
-
-    const results = {
-      aptos: false,
-      optimism: false,
-      config: false
-    };
-
-    // Check Aptos connection
-    try {
-      const contractInfo = await this.aptosIntegration.getContractInfo();
-      results.aptos = !!contractInfo.address;
-      console.log('✅ Aptos connection: OK');
-    } catch (error) {
-      console.error('❌ Aptos connection: FAILED', error.message);
-    }
-
-    // Check configuration
-    try {
-      validateCrossChainConfig(this.config);
-      results.config = true;
-      console.log('✅ Configuration: OK');
-    } catch (error) {
-      console.error('❌ Configuration: FAILED', error.message);
-    }
-
-    // Optimism check would be done in the main test/integration code
-    results.optimism = true; // Assume OK for now
-
-    const allHealthy = Object.values(results).every(status => status);
-    console.log(`🏥 Health check ${allHealthy ? 'PASSED' : 'FAILED'}`);
-
-    return results;
-  }
-
-  /**
-   * Create a summary of the cross-chain swap
-   */
-  public createSwapSummary(
-    orderFillTxHash: string,
-    optimismWithdrawTxHash: string,
-    aptosResult: {
-      createTxHash: string;
-      withdrawTxHash?: string;
-      escrowAddress?: string;
-    },
-    startTime: Date,
-    endTime: Date
-  ): CrossChainSwapResult {
-    return {
-      optimism: {
-        orderFillTxHash,
-        withdrawTxHash: optimismWithdrawTxHash,
-        escrowAddress: 'N/A' // Would need to be passed from the calling code
-      },
-      aptos: aptosResult,
-      timing: {
-        startTime,
-        endTime,
-        totalDuration: endTime.getTime() - startTime.getTime()
-      }
-    };
-  }
-}
\ No newline at end of file
+            return this.refundAfter(record, error as Error)
+        }
+    }
+
+    /**
+     * Put a swap whose destination leg failed on the cancellation path, other failures are rethrown
+     */
+    private async refundAfter(record: SwapRecord, error: Error): Promise<ScheduledJob[]> {
+        const current = this.journal.get(record.id)
+
+        if (!this.isDstLegFailure(current) || current.refund || !this.source) {
+            throw error
+        }
+
+        this.log.error('Destination leg failed, refunding', {swapId: current.id, error})
+
+        return this.followUp(this.journal.update(current.id, {refund: {reason: error.message}}))
+    }
+
+    /**
+     * The step of the swap's journalled state, bounded by the timelock stages in which it is valid.
+     * Swaps with a `refund` are on the cancellation path
+     */
+    private async planJob(record: SwapRecord): Promise<ScheduledJob> {
+        const job = (
+            action: string,
+            chainId: number,
+            notBefore: bigint,
+            notAfter?: bigint
+        ): Omit<ScheduledJob, 'run'> => ({
+            id: `${record.id}:${action}`,
+            chainId,
+            notBefore,
+            notAfter
+        })
+
+        switch (record.state) {
+            case SwapState.ORDER_SIGNED: {
+                const order = decodeOrder(record)
+
+                return {
+                    ...job('deploySrc', record.srcChainId, order.auctionStartTime, order.deadline),
+                    run: async () => this.followUp(await this.deploySrc(record))
+                }
+            }
+            case SwapState.SRC_DEPLOYED: {
+                if (record.refund) {
+                    return this.srcCancelJob(record)
+                }
+
+                const request = this.toDstEscrowRequest(record)
+
+                return {
+                    ...job(
+                        'createDst',
+                        record.dstChainId,
+                        Timelocks.fromSdk(request.srcImmutables.timeLocks).deployedAt,
+                        dstDeadline(request.srcImmutables)
+                    ),
+                    run: async (): Promise<ScheduledJob[]> => {
+                        const escrow = await this.createDstEscrowWithRetries(request, record.id)
+
+                        return this.followUp(
+                            this.journal.transition(record.id, SwapState.DST_DEPLOYED, {dst: encodeDstEscrow(escrow)})
+                        )
+                    },
+                    recover: (error) => this.refundAfter(record, error)
+                }
+            }
+            case SwapState.DST_DEPLOYED: {
+                if (record.refund?.dstError) {
+                    return this.srcCancelJob(record)
+                }
+
+                const adapter = this.getAdapter(record.dstChainId)
+                const escrow = decodeDstEscrow(record.dst!)
+
+                if (record.refund) {
+                    const refund = record.refund
+                    const details = await adapter.readDstEscrow(escrow).catch(() => undefined)
+
+                    return {
+                        // `cancel` waits for the cancellation itself when the escrow could not be read
+                        ...job('cancelDst', record.dstChainId, details?.cancellationStart ?? 0n),
+                        run: async (): Promise<ScheduledJob[]> => {
+                            const txHash = await adapter.cancel(escrow)
+
+                            return this.followUp(
+                                this.journal.transition(record.id, SwapState.CANCELLED, {
+                                    refund: {...refund, dst: txHash}
+                                })
+                            )
+                        },
+                        // The maker's refund does not depend on it, the resolver can recover the destination escrow later
+                        recover: async (error): Promise<ScheduledJob[]> => {
+                            this.log.warn('Could not cancel the destination escrow', {swapId: record.id, error})
+
+                            return this.followUp(
+                                this.journal.update(record.id, {refund: {...refund, dstError: error.message}})
+                            )
+                        }
+                    }
+                }
+
+                const details = await adapter.readDstEscrow(escrow)
+
+                return {
+                    // The maker only releases the secret once the destination escrow is final and matches the order
+                    ...job('releaseSecret', record.dstChainId, details.withdrawalStart, details.cancellationStart),
+                    run: async (): Promise<ScheduledJob[]> => {
+                        await releaseSecret(adapter, this.toDstEscrowRequest(record), escrow, record.secret)
+
+                        return this.followUp(this.journal.transition(record.id, SwapState.SECRET_REVEALED))
+                    },
+                    recover: (error) => this.refundAfter(record, error)
+                }
+            }
+            case SwapState.SECRET_REVEALED: {
+                const adapter = this.getAdapter(record.dstChainId)
+                const escrow = decodeDstEscrow(record.dst!)
+                const details = await adapter.readDstEscrow(escrow)
+
+                return {
+                    ...job('withdrawDst', record.dstChainId, details.withdrawalStart, details.cancellationStart),
+                    run: async (): Promise<ScheduledJob[]> => {
+                        const txHash = await adapter.withdraw(escrow, record.secret)
+
+                        return this.followUp(
+                            this.journal.transition(record.id, SwapState.DST_WITHDRAWN, {
+                                withdrawals: {...record.withdrawals, dst: txHash}
+                            })
+                        )
+                    }
+                }
+            }
+            case SwapState.DST_WITHDRAWN: {
+                const {chain} = this.requireSource()
+                const resolver = new Resolver(chain.resolver)
+                const escrow = new Sdk.Address(record.src!.escrow)
+                const [immutables] = decodeSrcEscrow(record.src!)
+                const timelocks = Timelocks.fromSdk(immutables.timeLocks)
+                const cancellation = timelocks.get(TimelockStage.SrcCancellation)
+                const withdrawn = (txHash: string): Promise<ScheduledJob[]> =>
+                    this.followUp(
+                        this.journal.transition(record.id, SwapState.SRC_WITHDRAWN, {
+                            withdrawals: {...record.withdrawals, src: txHash}
+                        })
+                    )
+
+                return {
+                    ...job('withdrawSrc', record.srcChainId, timelocks.get(TimelockStage.SrcWithdrawal), cancellation),
+                    run: async () =>
+                        withdrawn(await this.sendSrc(resolver.withdraw('src', escrow, record.secret, immutables))),
+                    // Any access token holder can withdraw to the maker from the public withdrawal on
+                    recover: async (error): Promise<ScheduledJob[]> => {
+                        this.log.warn('Private withdrawal failed, waiting for public withdrawal', {
+                            swapId: record.id,
+                            error
+                        })
+
+                        return [
+                            {
+                                ...job(
+                                    'publicWithdrawSrc',
+                                    record.srcChainId,
+                                    timelocks.get(TimelockStage.SrcPublicWithdrawal),
+                                    cancellation
+                                ),
+                                run: async () =>
+                                    withdrawn(
+                                        await this.sendSrc(resolver.publicWithdraw(escrow, record.secret, immutables))
+                                    )
+                            }
+                        ]
+                    }
+                }
+            }
+            case SwapState.CANCELLED:
+                return this.srcCancelJob(record)
+            default:
+                throw new Error(`Swap ${record.id} has nothing left to do in state ${record.state}`)
+        }
+    }
+
+    /**
+     * `cancel` of the source escrow from `srcCancellation`, `publicCancel` from `srcPublicCancellation` when it reverts
+     */
+    private srcCancelJob(record: SwapRecord): ScheduledJob {
+        const {chain} = this.requireSource()
+        const resolver = new Resolver(chain.resolver)
+        const escrow = new Sdk.Address(record.src!.escrow)
+        const [immutables] = decodeSrcEscrow(record.src!)
+        const timelocks = Timelocks.fromSdk(immutables.timeLocks)
+        const refunded = (method: 'cancel' | 'publicCancel', txHash: string): ScheduledJob[] => {
+            this.journal.transition(record.id, SwapState.REFUNDED, {refund: {...record.refund!, src: txHash, method}})
+            this.log.info('Source escrow refunded', {swapId: record.id, method, txHash})
+
+            return []
+        }
+
+        return {
+            id: `${record.id}:cancelSrc`,
+            chainId: record.srcChainId,
+            notBefore: timelocks.get(TimelockStage.SrcCancellation),
+            run: async () => refunded('cancel', await this.sendSrc(resolver.cancel('src', escrow, immutables))),
+            recover: async (error): Promise<ScheduledJob[]> => {
+                this.log.warn('Private cancellation failed, waiting for public cancellation', {
+                    swapId: record.id,
+                    error
+                })
+
+                return [
+                    {
+                        id: `${record.id}:publicCancelSrc`,
+                        chainId: record.srcChainId,
+                        notBefore: timelocks.get(TimelockStage.SrcPublicCancellation),
+                        run: async () =>
+                            refunded('publicCancel', await this.sendSrc(resolver.publicCancel(escrow, immutables)))
+                    }
+                ]
+            }
+        }
+    }
+
+    // stands in for the job of a swap whose next step could not even be planned
+    private unplannedJob(record: SwapRecord): ScheduledJob {
+        return {id: `${record.id}:${record.state}`, chainId: record.srcChainId, notBefore: 0n, run: async () => []}
+    }
+
+    private async sendSrc(tx: TransactionRequest): Promise<string> {
+        const {wallet} = this.requireSource()
+        const {txHash} = await wallet.send(tx)
+
+        return txHash
+    }
+
+    private clockOf(chainId: number): Clock {
+        return this.source && chainId === this.source.chain.config.chainId
+            ? this.source.chain.clock
+            : this.getAdapter(chainId).clock
+    }
+
+    /**
+     * Fill the whole order through the resolver contract of the source chain, unless a fill sent before a restart
+     * already created the source escrow
+     */
+    private async deploySrc(record: SwapRecord): Promise<SwapRecord> {
+        const {chain} = this.requireSource()
+        const factory = new EscrowFactory(chain.provider, chain.escrowFactory)
+        const order = decodeOrder(record)
+        const {pending} = record
+        // a fill sent before a restart may have been mined, filling again would revert
+        const sent =
+            pending?.action === 'deploySrc'
+                ? await factory.findSrcDeploy(record.id, {fromBlock: Number(pending.cursor), txHash: pending.txHash})
+                : undefined
+
+        if (sent) {
+            this.log.info('Source escrow already created', {swapId: record.id, txHash: sent.txHash})
+        }
+
+        const {txHash, blockHash} = sent ?? (await this.fillOrder(record, order))
+
+        const srcEscrowEvent = await factory.getSrcDeployEvent(blockHash, {orderHash: record.id})
+        const escrowAddress = await factory.addressOfEscrowSrc(srcEscrowEvent[0])
+
+        return this.recordSrcDeployed(record.id, txHash, escrowAddress.toString(), srcEscrowEvent)
+    }
+
+    /**
+     * The send is journalled as `pending` before it goes out, so `deploySrc` finds its escrow after a restart
+     */
+    private async fillOrder(
+        record: SwapRecord,
+        order: Sdk.CrossChainOrder
+    ): Promise<{txHash: string; blockHash: string}> {
+        const {chain, wallet} = this.requireSource()
+        await this.requireHealthy(record, order)
+
+        const pending: PendingSend = {action: 'deploySrc', cursor: (await chain.provider.getBlockNumber()).toString()}
+        this.journal.update(record.id, {pending})
+
+        const tx = await wallet.submit(
+            new Resolver(chain.resolver).deploySrc(
+                record.srcChainId,
+                order,
+                record.order.signature,
+                Sdk.TakerTraits.default()
+                    .setExtension(order.extension)
+                    .setAmountMode(Sdk.AmountMode.maker)
+                    .setAmountThreshold(order.takingAmount),
+                order.makingAmount
+            )
+        )
+        this.journal.update(record.id, {pending: {...pending, txHash: tx.hash}})
+
+        return tx.wait()
+    }
+
+    /**
+     * Retried under `crossChain.retry` until the destination deadline, which ends the destination leg for good
+     *
+     * With `swapId` every send is journalled as `pending` before it goes out, and the escrow of an earlier send
+     * of the swap, before a restart or in a failed attempt, is taken instead of creating a second one
+     */
+    private async createDstEscrowWithRetries(request: DstEscrowRequest, swapId?: string): Promise<DstEscrow> {
+        const adapter = this.getAdapter(request.dstChainId)
+        const log = this.log.child({orderHash: request.srcImmutables.orderHash, dstChainId: request.dstChainId})
+
+        return withRetry(
+            'Create destination escrow',
+            async (attempt) => {
+                const pending = swapId ? this.journal.get(swapId).pending : undefined
+                const sent =
+                    pending?.action === 'createDst'
+                        ? await adapter.findDstEscrow(request, {cursor: BigInt(pending.cursor), txHash: pending.txHash})
+                        : undefined
+
+                if (sent) {
+                    log.info('Destination escrow already created', {txHash: sent.txHash})
+
+                    return sent
+                }
+
+                log.info('Creating destination escrow', {attempt, attempts: this.config.crossChain.retry.attempts})
+                await this.checkDstDeadline(request)
+
+                if (!swapId) {
+                    return adapter.createDstEscrow(request)
+                }
+
+                // the earliest cursor covers the sends of every attempt
+                const journalled = pending ?? {action: 'createDst', cursor: (await adapter.cursor()).toString()}
+                this.journal.update(swapId, {pending: journalled})
+
+                return adapter.createDstEscrow(request, (txHash) =>
+                    this.journal.update(swapId, {pending: {...journalled, txHash}})
+                )
+            },
+            {
+                policy: this.config.crossChain.retry,
+                classify: (error) => (error instanceof DstDeadlinePassedError ? 'fatal' : classifyError(error)),
+                log
+            }
+        )
+    }
+
+    /**
+     * The factory only accepts destination escrows whose cancellation starts before the source one,
+     * past that point the destination leg can not succeed anymore. The factory checks it on its own chain,
+     * so this reads the destination clock
+     */
+    private async checkDstDeadline(request: DstEscrowRequest): Promise<void> {
+        const deadline = dstDeadline(request.srcImmutables)
+        const now = await this.getAdapter(request.dstChainId).clock.now()
+
+        if (now > deadline) {
+            throw new DstDeadlinePassedError(deadline, now)
+        }
+    }
+
+    /**
+     * Failures before the secret is revealed, afterwards the resolver can still settle both escrows
+     */
+    private isDstLegFailure(record: SwapRecord): boolean {
+        return record.state === SwapState.SRC_DEPLOYED || record.state === SwapState.DST_DEPLOYED
+    }
+
+    /**
+     * Wait for the source cancellation on the source chain clock and cancel, falling back to `publicCancel`
+     */
+    private async refundSrc(
+        escrowAddress: string,
+        immutables: Sdk.Immutables
+    ): Promise<{method: 'cancel' | 'publicCancel'; txHash: string}> {
+        const {chain, wallet} = this.requireSource()
+        const resolver = new Resolver(chain.resolver)
+        const escrow = new Sdk.Address(escrowAddress)
+
+        const log = this.log.child({orderHash: immutables.orderHash, escrow: escrowAddress})
+        log.info('Waiting for the source escrow cancellation')
+        await advanceToSrcStage(chain.clock, immutables.timeLocks, Sdk.SrcStage.PrivateCancellation)
+
+        try {
+            const {txHash} = await wallet.send(resolver.cancel('src', escrow, immutables))
+            log.info('Source escrow cancelled', {txHash})
+
+            return {method: 'cancel', txHash}
+        } catch (error) {
+            log.warn('Private cancellation failed, waiting for public cancellation', {error})
+        }
+
+        await advanceToSrcStage(chain.clock, immutables.timeLocks, Sdk.SrcStage.PublicCancellation)
+        const {txHash} = await wallet.send(resolver.publicCancel(escrow, immutables))
+        log.info('Source escrow publicly cancelled', {txHash})
+
+        return {method: 'publicCancel', txHash}
+    }
+
+    /**
+     * Start `refundUntracked` without waiting for the source cancellation, its failure is logged here
+     * and rejects the returned promise
+     */
+    private scheduleRefund(
+        srcImmutables: Sdk.Immutables
+    ): Promise<{method: 'cancel' | 'publicCancel'; txHash: string} | undefined> {
+        const refund = this.refundUntracked(srcImmutables)
+        refund.catch((error) =>
+            this.log.error('Source escrow refund failed', {orderHash: srcImmutables.orderHash, error})
+        )
+
+        return refund
+    }
+
+    /**
+     * Refund the source escrow of a swap which is not journalled, when the source chain is known
+     */
+    private async refundUntracked(
+        srcImmutables: Sdk.Immutables
+    ): Promise<{method: 'cancel' | 'publicCancel'; txHash: string} | undefined> {
+        if (!this.source) {
+            this.log.warn('No source chain configured, the source escrow has to be cancelled by hand', {
+                orderHash: srcImmutables.orderHash
+            })
+
+            return undefined
+        }
+
+        const {chain} = this.source
+        const escrow = await new EscrowFactory(chain.provider, chain.escrowFactory).addressOfEscrowSrc(srcImmutables)
+
+        return this.refundSrc(escrow.toString(), srcImmutables)
+    }
+
+    private toDstEscrowRequest(record: SwapRecord): DstEscrowRequest {
+        const [srcImmutables, complement] = decodeSrcEscrow(record.src!)
+
+        return {
+            srcChainId: record.srcChainId,
+            dstChainId: record.dstChainId,
+            srcImmutables,
+            complement,
+            ...record.destination
+        }
+    }
+
+    private requireSource(): SourceChain {
+        if (!this.source) {
+            throw new Error('This step runs on the source chain, pass `source` to the CrossChainCoordinator')
+        }
+
+        return this.source
+    }
+
+    private defaultDestination(dstChainId: number): {receiver?: string; takerAsset?: string} {
+        return dstChainId === APTOS_CHAIN_ID
+            ? {
+                  receiver: this.config.crossChain.aptosReceiverAddress,
+                  takerAsset: this.config.crossChain.aptosTakerAssetAddress
+              }
+            : {}
+    }
+
+    /**
+     * Check both chains against what filling `order` will cost before anything is locked on the source chain
+     *
+     * @throws UnhealthyChainError
+     */
+    private async requireHealthy(record: SwapRecord, order: Sdk.CrossChainOrder): Promise<void> {
+        const {chain} = this.requireSource()
+        const {srcSafetyDeposit, dstSafetyDeposit} = order.escrowExtension
+
+        const reports = await Promise.all([
+            checkEvmChain(chain, {safetyDeposit: srcSafetyDeposit}),
+            this.getAdapter(record.dstChainId).healthCheck({
+                safetyDeposit: dstSafetyDeposit,
+                token: record.destination.takerAsset ?? order.takerAsset.toString(),
+                amount: order.takingAmount
+            })
+        ])
+
+        for (const report of reports) {
+            logHealthReport(report)
+
+            if (!report.healthy) {
+                throw new UnhealthyChainError(report)
+            }
+        }
+    }
+}
+
+function logHealthReport(report: HealthReport): void {
+    const log = logger.child({module: 'coordinator', chainId: report.chainId})
+
+    if (report.healthy) {
+        log.info('Chain healthy')
+    } else {
+        log.error('Chain unhealthy', {failed: report.checks.filter((c) => !c.ok)})
+    }
+}
+
+function decodeOrder(record: SwapRecord): Sdk.CrossChainOrder {
+    return Sdk.CrossChainOrder.fromDataAndExtension(record.order.data, Sdk.Extension.decode(record.order.extension))
+}
+
+/**
+ * Last destination chain timestamp at which a destination escrow for `srcImmutables` can be created
+ */
+function dstDeadline(srcImmutables: Sdk.Immutables): bigint {
+    const timelocks = Timelocks.fromSdk(srcImmutables.timeLocks)
+
+    return timelocks.get(TimelockStage.SrcCancellation) - timelocks.delays.dstCancellation
+}
+
+function swapIdOf(job: ScheduledJob): string {
+    return job.id.split(':')[0]
+}
@@ -0,0 +1,187 @@
+import {
+    concat,
+    Contract,
+    getCreate2Address,
+    Interface,
+    InterfaceAbi,
+    JsonRpcProvider,
+    keccak256,
+    solidityPackedKeccak256,
+    Wallet as SignerWallet
+} from 'ethers'
+import {existsSync, readFileSync, writeFileSync} from 'node:fs'
+import {Logger, logger} from './logger'
+
+/**
+ * Deterministic deployment proxy (https://github.com/Arachnid/deterministic-deployment-proxy),
+ * available on most EVM chains and predeployed on anvil
+ */
+export const CREATE2_FACTORY = '0x4e59b44847b379578588920cA78FbF26c0B4956C'
+
+const create3DeployerAbi = [
+    'function deploy(bytes32 salt, bytes code) returns (address)',
+    'function addressOf(bytes32 salt) view returns (address)'
+]
+
+export type DeploymentStrategy = {kind: 'create2'} | {kind: 'create3'; deployer: string}
+
+export type ContractArtifact = {abi: InterfaceAbi; bytecode: {object: string} | string}
+
+export type DeploymentRecord = {
+    address: string
+    strategy: DeploymentStrategy['kind']
+    salt: string
+    // keccak256 of the creation bytecode without constructor args
+    bytecodeHash: string
+    constructorArgs: string[]
+    txHash?: string
+    deployedAt: string
+}
+
+// chainId => contract name => deployment
+export type DeploymentsManifest = Record<string, Record<string, DeploymentRecord>>
+
+export function readManifest(path: string): DeploymentsManifest {
+    if (!existsSync(path)) {
+        return {}
+    }
+
+    return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+/**
+ * Address of a contract recorded in the manifest for `chainId`, if any
+ */
+export function readDeployment(path: string, chainId: number, name: string): DeploymentRecord | undefined {
+    return readManifest(path)[chainId]?.[name]
+}
+
+/**
+ * Deploys contracts at deterministic addresses through CREATE2 or a CREATE3 deployer and records them
+ * per chain in a JSON manifest. A recorded deployment is reused as long as its bytecode and constructor
+ * args match and the contract still has code on chain.
+ */
+export class DeploymentManager {
+    private readonly log: Logger
+
+    constructor(
+        private readonly provider: JsonRpcProvider,
+        private readonly deployer: SignerWallet,
+        private readonly chainId: number,
+        private readonly options: {
+            manifestPath: string
+            strategy: DeploymentStrategy
+            salt: string
+            // forks and local nodes are ephemeral, their deployments are not written to the manifest
+            persist: boolean
+        }
+    ) {
+        this.log = logger.child({module: 'deployments', chainId})
+    }
+
+    public get(name: string): DeploymentRecord | undefined {
+        return readDeployment(this.options.manifestPath, this.chainId, name)
+    }
+
+    public async deploy(name: string, artifact: ContractArtifact, args: unknown[]): Promise<string> {
+        const bytecode = typeof artifact.bytecode === 'string' ? artifact.bytecode : artifact.bytecode.object
+        const bytecodeHash = keccak256(bytecode)
+        const constructorArgs = args.map(String)
+        const encodedArgs = new Interface(artifact.abi).encodeDeploy(args)
+        const initCode = concat([bytecode, encodedArgs])
+        const salt = solidityPackedKeccak256(
+            ['bytes32', 'string', 'bytes32'],
+            [this.options.salt, name, keccak256(initCode)]
+        )
+
+        const recorded = this.get(name)
+
+        if (
+            recorded &&
+            recorded.bytecodeHash === bytecodeHash &&
+            recorded.constructorArgs.join() === constructorArgs.join() &&
+            (await this.hasCode(recorded.address))
+        ) {
+            this.log.info('Reusing recorded deployment', {contract: name, address: recorded.address})
+
+            return recorded.address
+        }
+
+        const address = await this.computeAddress(salt, initCode)
+        let txHash: string | undefined
+
+        if (await this.hasCode(address)) {
+            this.log.info('Contract already deployed', {contract: name, address})
+        } else {
+            txHash = await this.send(salt, initCode)
+
+            if (!(await this.hasCode(address))) {
+                throw new Error(`Deployment of ${name} to ${address} failed in tx ${txHash}`)
+            }
+
+            this.log.info('Deployed contract', {contract: name, address, txHash})
+        }
+
+        this.record(name, {
+            address,
+            strategy: this.options.strategy.kind,
+            salt,
+            bytecodeHash,
+            constructorArgs,
+            txHash,
+            deployedAt: new Date().toISOString()
+        })
+
+        return address
+    }
+
+    private async computeAddress(salt: string, initCode: string): Promise<string> {
+        const {strategy} = this.options
+
+        if (strategy.kind === 'create2') {
+            return getCreate2Address(CREATE2_FACTORY, salt, keccak256(initCode))
+        }
+
+        const create3 = new Contract(strategy.deployer, create3DeployerAbi, this.provider)
+
+        return create3.addressOf(salt)
+    }
+
+    private async send(salt: string, initCode: string): Promise<string> {
+        const {strategy} = this.options
+        const factory = strategy.kind === 'create2' ? CREATE2_FACTORY : strategy.deployer
+
+        if (!(await this.hasCode(factory))) {
+            throw new Error(`No ${strategy.kind} deployer at ${factory} on chain ${this.chainId}`)
+        }
+
+        const data =
+            strategy.kind === 'create2'
+                ? concat([salt, initCode])
+                : new Interface(create3DeployerAbi).encodeFunctionData('deploy', [salt, initCode])
+
+        const tx = await this.deployer.sendTransaction({to: factory, data})
+        const receipt = await tx.wait()
+
+        if (!receipt?.status) {
+            throw new Error(`Deployment tx ${tx.hash} reverted`)
+        }
+
+        return tx.hash
+    }
+
+    private async hasCode(address: string): Promise<boolean> {
+        return (await this.provider.getCode(address)) !== '0x'
+    }
+
+    private record(name: string, deployment: DeploymentRecord): void {
+        if (!this.options.persist) {
+            return
+        }
+
+        const manifest = readManifest(this.options.manifestPath)
+        manifest[this.chainId] = {...manifest[this.chainId], [name]: deployment}
+
+        writeFileSync(this.options.manifestPath, JSON.stringify(manifest, null, 4) + '\n')
+    }
+}
@@ -0,0 +1,98 @@
+import {expect, jest, describe, it} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify, Interface, JsonRpcProvider, Log, randomBytes} from 'ethers'
+import {CommitmentMismatchError, EscrowFactory, SrcDeployEvent} from './escrow-factory'
+import EscrowFactoryContract from '../dist/contracts/EscrowFactory.sol/EscrowFactory.json'
+
+const {Address} = Sdk
+
+const factoryAddress = '0x' + '77'.repeat(20)
+const blockHash = '0x' + 'bb'.repeat(32)
+const receiver = '0x' + 'aa'.repeat(20)
+const takerAsset = '0x' + 'cc'.repeat(20)
+
+const iface = new Interface(EscrowFactoryContract.abi)
+
+function srcEscrowCreated(orderHash: string): Log {
+    const immutables = Sdk.Immutables.new({
+        orderHash,
+        hashLock: Sdk.HashLock.forSingleFill(hexlify(randomBytes(32))),
+        maker: new Address('0x' + '11'.repeat(20)),
+        taker: new Address('0x' + '22'.repeat(20)),
+        token: new Address('0x' + '33'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 1n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 120n,
+            srcCancellation: 121n,
+            srcPublicCancellation: 122n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 100n,
+            dstCancellation: 101n
+        })
+    })
+    const {data, topics} = iface.encodeEventLog('SrcEscrowCreated', [
+        immutables.build(),
+        [BigInt(receiver), 99n, BigInt(takerAsset), 2n, 56n]
+    ])
+
+    return {data, topics, blockHash, transactionHash: hexlify(randomBytes(32))} as unknown as Log
+}
+
+// factory reading its logs from a block holding a fill of every order in `orderHashes`
+function factoryWith(...orderHashes: string[]): EscrowFactory {
+    const logs = orderHashes.map(srcEscrowCreated)
+    const provider = {getLogs: async () => logs} as unknown as JsonRpcProvider
+
+    return new EscrowFactory(provider, factoryAddress, {
+        attempts: 1,
+        initialDelayMs: 0,
+        maxDelayMs: 0,
+        multiplier: 1,
+        jitter: 0
+    })
+}
+
+describe('EscrowFactory.getSrcDeployEvent', () => {
+    const orderHash = hexlify(randomBytes(32))
+    const other = hexlify(randomBytes(32))
+
+    it('picks the event of the order and checks it against the expected commitments', async () => {
+        const factory = factoryWith(other, orderHash)
+
+        const [immutables, complement] = await factory.getSrcDeployEvent(blockHash, {
+            orderHash: orderHash.toUpperCase().replace('0X', '0x'),
+            expected: {receiver: receiver.toUpperCase().replace('0X', '0x'), takerAsset}
+        })
+
+        expect(immutables.orderHash).toBe(orderHash)
+        expect([complement.maker.toString(), complement.token.toString()]).toEqual([receiver, takerAsset])
+        await expect(factory.getSrcDeployEvent(blockHash)).rejects.toThrow(/pass an orderHash/)
+    })
+
+    it('hands the event to the verifier and accepts it when no field mismatches', async () => {
+        const verify = jest.fn(async (_: SrcDeployEvent) => [])
+
+        await factoryWith(orderHash).getSrcDeployEvent(blockHash, {verify})
+
+        expect(verify).toHaveBeenCalledWith(expect.objectContaining({orderHash}))
+    })
+
+    it('throws CommitmentMismatchError with the mismatches of the expected values and the verifier', async () => {
+        const wrongReceiver = '0x' + 'dd'.repeat(20)
+        const relayerMismatch = {field: 'relayer', expected: 'order known to the relayer', actual: 'unknown order'}
+
+        const result = factoryWith(orderHash).getSrcDeployEvent(blockHash, {
+            expected: {receiver: wrongReceiver, takerAsset},
+            verify: () => [relayerMismatch]
+        })
+
+        await expect(result).rejects.toThrow(CommitmentMismatchError)
+        await expect(result).rejects.toMatchObject({
+            orderHash,
+            mismatches: [{field: 'receiver', expected: wrongReceiver, actual: receiver}, relayerMismatch]
+        })
+    })
+})
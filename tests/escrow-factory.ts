@@ -1,15 +1,101 @@
-import {id, Interface, JsonRpcProvider} from 'ethers'
+import {id, Interface, JsonRpcProvider, Log} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
+import {Logger, logger} from './logger'
+import {defaultRetryPolicy, RetryableError, RetryPolicy, withRetry} from './retry'
 import EscrowFactoryContract from '../dist/contracts/EscrowFactory.sol/EscrowFactory.json'
-import crypto from 'crypto'
+
+export type DstDeployEvent = {
+    escrow: Sdk.Address
+    hashLock: Sdk.HashLock
+    taker: Sdk.Address
+    txHash: string
+    blockHash: string
+    // `deployedAt` of the escrow timelocks
+    blockTimestamp: bigint
+}
+
+export type SrcDeployEvent = {
+    orderHash: string
+    immutables: Sdk.Immutables
+    complement: Sdk.DstImmutablesComplement
+}
+
+/**
+ * Transaction sent before a restart, it may or may not have reached the chain
+ */
+export type SentTransaction = {
+    // block number before it was sent
+    fromBlock: number
+    // undefined when the process stopped before the node returned it
+    txHash?: string
+}
+
+/**
+ * Where a deployment event was found
+ */
+export type DeployLocation = {
+    txHash: string
+    blockHash: string
+}
+
+/**
+ * 20 byte commitments the order put in place of destination addresses which do not fit into an EVM address
+ */
+export type ExpectedCommitments = {
+    // `complement.maker`, the order receiver
+    receiver?: string
+    // `complement.token`, the order taker asset
+    takerAsset?: string
+}
+
+export type CommitmentMismatch = {
+    field: string
+    expected: string
+    actual: string
+}
+
+export type SrcDeployEventVerifier = (event: SrcDeployEvent) => CommitmentMismatch[] | Promise<CommitmentMismatch[]>
+
+export class CommitmentMismatchError extends Error {
+    constructor(
+        public readonly orderHash: string,
+        public readonly mismatches: CommitmentMismatch[]
+    ) {
+        super(
+            `SrcEscrowCreated of order ${orderHash} does not match the expected commitments: ` +
+                mismatches.map((m) => `${m.field} expected ${m.expected}, got ${m.actual}`).join('; ')
+        )
+        this.name = 'CommitmentMismatchError'
+    }
+}
+
+export function checkCommitments(
+    complement: Sdk.DstImmutablesComplement,
+    expected: ExpectedCommitments
+): CommitmentMismatch[] {
+    const actual = {receiver: complement.maker.toString(), takerAsset: complement.token.toString()}
+
+    return (['receiver', 'takerAsset'] as const)
+        .filter((field) => expected[field] !== undefined)
+        .filter((field) => expected[field]!.toLowerCase() !== actual[field].toLowerCase())
+        .map((field) => ({field, expected: expected[field]!, actual: actual[field]}))
+}
 
 export class EscrowFactory {
     private iface = new Interface(EscrowFactoryContract.abi)
 
+    private readonly log: Logger
+
     constructor(
         private readonly provider: JsonRpcProvider,
-        private readonly address: string
-    ) {}
+        private readonly address: string,
+        // for the logs of a new block, which some RPCs only index a few seconds after returning its receipt
+        private readonly logsRetryPolicy: RetryPolicy = {...defaultRetryPolicy, initialDelayMs: 2000, multiplier: 1.5},
+        // how long a transaction sent before a restart is waited for before its logs are searched
+        private readonly sentTxTimeoutMs = 60_000
+    ) {
+        this.log = logger.child({module: 'escrow-factory', factory: address})
+    }
 
     public async getSourceImpl(): Promise<Sdk.Address> {
         return Sdk.Address.fromBigInt(
@@ -22,105 +108,275 @@ export class EscrowFactory {
         )
     }
 
+    public async getDestinationImpl(): Promise<Sdk.Address> {
+        return Sdk.Address.fromBigInt(
+            BigInt(
+                await this.provider.call({
+                    to: this.address,
+                    data: id('ESCROW_DST_IMPLEMENTATION()').slice(0, 10)
+                })
+            )
+        )
+    }
 
-    public async getSrcDeployEvent(blockHash: string): Promise<[Sdk.Immutables, Sdk.DstImmutablesComplement]> {
-        const event = this.iface.getEvent('SrcEscrowCreated')!
+    /**
+     * Source escrow address from the factory, checked against the offline `Sdk.EscrowFactory` computation
+     *
+     * @param immutables from `SrcEscrowCreated` event, with `deployedAt` set
+     */
+    public async addressOfEscrowSrc(immutables: Sdk.Immutables): Promise<Sdk.Address> {
+        const onChain = await this.callAddressOf('addressOfEscrowSrc', immutables)
+        const offline = new Sdk.EscrowFactory(new Sdk.Address(this.address)).getSrcEscrowAddress(
+            immutables,
+            await this.getSourceImpl()
+        )
+
+        return this.assertSameAddress('addressOfEscrowSrc', onChain, offline)
+    }
 
-        // Retry logic with delay for real networks
-        for (let i = 0; i < 5; i++) {
-            console.log(`Attempt ${i + 1}/5: Trying to get logs for block ${blockHash}`)
+    /**
+     * Destination escrow address from the factory, checked against the offline `Sdk.EscrowFactory` computation
+     *
+     * @param immutables destination immutables, with `deployedAt` set
+     */
+    public async addressOfEscrowDst(immutables: Sdk.Immutables): Promise<Sdk.Address> {
+        const onChain = await this.callAddressOf('addressOfEscrowDst', immutables)
+        const offline = new Sdk.EscrowFactory(new Sdk.Address(this.address)).getEscrowAddress(
+            immutables.hash(),
+            await this.getDestinationImpl()
+        )
+
+        return this.assertSameAddress('addressOfEscrowDst', onChain, offline)
+    }
+
+    /**
+     * Parse `DstEscrowCreated` emitted in a transaction or a block
+     *
+     * When the source escrow immutables and complement are given, only the event with their hashlock is taken
+     * and its escrow address is checked against the one computed offline from them. Without them the transaction or
+     * block must hold a single event.
+     *
+     * @param hash transaction hash or block hash
+     */
+    public async getDstDeployEvent(
+        hash: string,
+        src?: {immutables: Sdk.Immutables; complement: Sdk.DstImmutablesComplement}
+    ): Promise<DstDeployEvent> {
+        const event = this.iface.getEvent('DstEscrowCreated')!
+        const receipt = await this.provider.getTransactionReceipt(hash)
+        const logs = receipt
+            ? receipt.logs.filter((l) => l.address.toLowerCase() === this.address.toLowerCase())
+            : await this.provider.getLogs({blockHash: hash, address: this.address, topics: [event.topicHash]})
+
+        const events = logs
+            .filter((l) => l.topics[0] === event.topicHash)
+            .map((l) => {
+                const [escrow, hashlock, taker] = this.iface.decodeEventLog(event, l.data, l.topics)
+
+                return {
+                    escrow: new Sdk.Address(escrow),
+                    hashLock: Sdk.HashLock.fromString(hashlock),
+                    taker: Sdk.Address.fromBigInt(taker),
+                    txHash: l.transactionHash,
+                    blockHash: l.blockHash
+                }
+            })
+            .filter((e) => !src || e.hashLock.toString() === src.immutables.hashLock.toString())
+
+        if (events.length === 0) {
+            throw new Error(`No DstEscrowCreated event found in ${hash}`)
+        }
+
+        if (events.length > 1) {
+            throw new Error(`${hash} has ${events.length} DstEscrowCreated events, pass the source immutables`)
+        }
 
-            try {
+        const block = await this.provider.getBlock(events[0].blockHash)
+        const deployed = {...events[0], blockTimestamp: BigInt(block!.timestamp)}
+
+        if (src) {
+            const offline = new Sdk.EscrowFactory(new Sdk.Address(this.address)).getDstEscrowAddress(
+                src.immutables,
+                src.complement,
+                deployed.blockTimestamp,
+                deployed.taker,
+                await this.getDestinationImpl()
+            )
+
+            this.assertSameAddress('DstEscrowCreated', deployed.escrow, offline)
+        }
+
+        return deployed
+    }
+
+    /**
+     * All `SrcEscrowCreated` events of a block, one per filled order
+     */
+    public async getSrcDeployEvents(blockHash: string): Promise<SrcDeployEvent[]> {
+        const event = this.iface.getEvent('SrcEscrowCreated')!
+        const logs = await withRetry(
+            'Fetch SrcEscrowCreated logs',
+            async () => {
                 // Try with block hash first
-                let logs = await this.provider.getLogs({
-                    blockHash,
-                    address: this.address,
-                    topics: [event.topicHash]
-                })
+                let found = await this.provider.getLogs({blockHash, address: this.address, topics: [event.topicHash]})
 
                 // If no logs found, try with block number
-                if (logs.length === 0) {
-                    console.log(`No logs found with blockHash, trying with block number...`)
+                if (found.length === 0) {
+                    this.log.debug('No logs by block hash, retrying by block number', {blockHash})
                     const block = await this.provider.getBlock(blockHash)
-                    if (block) {
-                        logs = await this.provider.getLogs({
-                            fromBlock: block.number,
-                            toBlock: block.number,
-                            address: this.address,
-                            topics: [event.topicHash]
-                        })
-                    }
+                    found = block
+                        ? await this.provider.getLogs({
+                              fromBlock: block.number,
+                              toBlock: block.number,
+                              address: this.address,
+                              topics: [event.topicHash]
+                          })
+                        : found
                 }
 
-                console.log(`Found ${logs.length} logs`)
-
-                if (logs.length > 0) {
-                    const [data] = logs.map((l) => this.iface.decodeEventLog(event, l.data))
-
-                    const immutables = data.at(0)
-                    const complement = data.at(1)
-
-                                         // CORRECT - Work directly with the BigInt:
-                     console.log(`Successfully parsed event logs on attempt ${i + 1}`)
-                     
-                     // Check receiver (complement[0])
-                     const receiverRawUint256 = complement[0] // This is the receiver from the event
-                     console.log('Receiver Raw uint256 value:', receiverRawUint256.toString())
-                     console.log('Receiver Raw uint256 hex:', receiverRawUint256.toString(16))
-                     const emittedReceiverSha1 = '0x' + receiverRawUint256.toString(16).padStart(40, '0')
-                     console.log('Emitted receiver SHA1 hash:', emittedReceiverSha1)
-                     
-                     // Check taker asset (complement[2])
-                     const takerAssetRawUint256 = complement[2] // This is the taker asset from the event
-                     console.log('Taker asset Raw uint256 value:', takerAssetRawUint256.toString())
-                     console.log('Taker asset Raw uint256 hex:', takerAssetRawUint256.toString(16))
-                     const emittedTakerAssetSha1 = '0x' + takerAssetRawUint256.toString(16).padStart(40, '0')
-                     console.log('Emitted taker asset SHA1 hash:', emittedTakerAssetSha1)
-
-                     const localReceiverSha1 = '0x' + crypto.createHash('sha1').update('0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497').digest('hex');
-                     const localTakerAssetSha1 = '0x' + crypto.createHash('sha1').update('0x000000000000000000000000000000000000000000000000000000000000000a').digest('hex');
-                     
-                     console.log('Local receiver SHA1:', localReceiverSha1);
-                     console.log('Local taker asset SHA1:', localTakerAssetSha1);
-                     
-                     // Check if emitted hashes match our local hashes
-                     const isReceiverMatch = emittedReceiverSha1.toLowerCase() === localReceiverSha1.toLowerCase();
-                     const isTakerAssetMatch = emittedTakerAssetSha1.toLowerCase() === localTakerAssetSha1.toLowerCase();
-                     
-                     console.log('Is receiver match?', isReceiverMatch);
-                     console.log('Is taker asset match?', isTakerAssetMatch);
-                     console.log('SHA1 verification successful:', isReceiverMatch && isTakerAssetMatch);
-                    return [
-                        Sdk.Immutables.new({
-                            orderHash: immutables[0],
-                            hashLock: Sdk.HashLock.fromString(immutables[1]),
-                            maker: Sdk.Address.fromBigInt(immutables[2]),
-                            taker: Sdk.Address.fromBigInt(immutables[3]),
-                            token: Sdk.Address.fromBigInt(immutables[4]),
-                            amount: immutables[5],
-                            safetyDeposit: immutables[6],
-                            timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
-                        }),
-                        Sdk.DstImmutablesComplement.new({
-                            maker: Sdk.Address.fromBigInt(complement[0]),
-                            amount: complement[1],
-                            token: Sdk.Address.fromBigInt(complement[2]),
-                            safetyDeposit: complement[3]
-                        })
-                    ]
+                if (found.length === 0) {
+                    throw new RetryableError(`No SrcEscrowCreated event logs in block ${blockHash}`)
                 }
-            } catch (error: any) {
-                console.log(`Attempt ${i + 1} failed:`, error.message)
-            }
-
-            // Wait before retry (2 seconds for first retry, then 3, 4, 5 seconds)
-            if (i < 4) {
-                const delay = (i + 2) * 1000
-                console.log(`Waiting ${delay}ms before retry...`)
-                await new Promise((resolve) => setTimeout(resolve, delay))
-            }
+
+                return found
+            },
+            {policy: this.logsRetryPolicy, log: this.log}
+        )
+
+        this.log.debug('Fetched SrcEscrowCreated logs', {blockHash, count: logs.length})
+
+        return logs.map((l) => this.decodeSrcDeployEvent(l))
+    }
+
+    /**
+     * `SrcEscrowCreated` of `orderHash` emitted since `sent` was sent, by it or by a replacement of it
+     */
+    public async findSrcDeploy(orderHash: string, sent: SentTransaction): Promise<DeployLocation | undefined> {
+        const logs = await this.logsSince('SrcEscrowCreated', sent)
+        const found = logs.find((l) => this.decodeSrcDeployEvent(l).orderHash.toLowerCase() === orderHash.toLowerCase())
+
+        return found && {txHash: found.transactionHash, blockHash: found.blockHash}
+    }
+
+    /**
+     * `DstEscrowCreated` with `hashLock` for `taker` emitted since `sent` was sent, by it or by a replacement of it
+     */
+    public async findDstDeploy(
+        hashLock: string,
+        taker: Sdk.Address,
+        sent: SentTransaction
+    ): Promise<DeployLocation | undefined> {
+        const event = this.iface.getEvent('DstEscrowCreated')!
+        const logs = await this.logsSince('DstEscrowCreated', sent)
+        const found = logs.find((l) => {
+            const [, eventHashLock, eventTaker] = this.iface.decodeEventLog(event, l.data, l.topics)
+
+            return (
+                eventHashLock.toLowerCase() === hashLock.toLowerCase() &&
+                Sdk.Address.fromBigInt(eventTaker).equal(taker)
+            )
+        })
+
+        return found && {txHash: found.transactionHash, blockHash: found.blockHash}
+    }
+
+    /**
+     * `SrcEscrowCreated` of one order, verified before it is returned
+     *
+     * @param options.orderHash order to pick, required when the block has several fills
+     * @param options.expected commitments the destination receiver and asset must match
+     * @param options.verify custom check, e.g. against a relayer, returning the mismatched fields
+     * @throws CommitmentMismatchError when `expected` or `verify` report a mismatch
+     */
+    public async getSrcDeployEvent(
+        blockHash: string,
+        options: {orderHash?: string; expected?: ExpectedCommitments; verify?: SrcDeployEventVerifier} = {}
+    ): Promise<[Sdk.Immutables, Sdk.DstImmutablesComplement]> {
+        const events = await this.getSrcDeployEvents(blockHash)
+        const matching = options.orderHash
+            ? events.filter((e) => e.orderHash.toLowerCase() === options.orderHash!.toLowerCase())
+            : events
+
+        if (matching.length === 0) {
+            throw new Error(`No SrcEscrowCreated event for order ${options.orderHash} in block ${blockHash}`)
+        }
+
+        if (matching.length > 1) {
+            throw new Error(`Block ${blockHash} has ${matching.length} SrcEscrowCreated events, pass an orderHash`)
+        }
+
+        const [event] = matching
+        const mismatches = [
+            ...(options.expected ? checkCommitments(event.complement, options.expected) : []),
+            ...((await options.verify?.(event)) ?? [])
+        ]
+
+        if (mismatches.length > 0) {
+            throw new CommitmentMismatchError(event.orderHash, mismatches)
+        }
+
+        return [event.immutables, event.complement]
+    }
+
+    private decodeSrcDeployEvent(l: Log): SrcDeployEvent {
+        const [immutables, complement] = this.iface.decodeEventLog(this.iface.getEvent('SrcEscrowCreated')!, l.data)
+
+        return {
+            orderHash: immutables[0],
+            immutables: Sdk.Immutables.new({
+                orderHash: immutables[0],
+                hashLock: Sdk.HashLock.fromString(immutables[1]),
+                maker: Sdk.Address.fromBigInt(immutables[2]),
+                taker: Sdk.Address.fromBigInt(immutables[3]),
+                token: Sdk.Address.fromBigInt(immutables[4]),
+                amount: immutables[5],
+                safetyDeposit: immutables[6],
+                timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
+            }),
+            complement: Sdk.DstImmutablesComplement.new({
+                maker: Sdk.Address.fromBigInt(complement[0]),
+                amount: complement[1],
+                token: Sdk.Address.fromBigInt(complement[2]),
+                safetyDeposit: complement[3]
+            })
+        }
+    }
+
+    // a transaction the node still holds is waited for first, it may be the one emitting the event
+    private async logsSince(name: 'SrcEscrowCreated' | 'DstEscrowCreated', sent: SentTransaction): Promise<Log[]> {
+        if (sent.txHash) {
+            const tx = await this.provider.getTransaction(sent.txHash)
+            // reverted, replaced or still pending at the timeout, the logs tell what happened
+            await tx?.wait(1, this.sentTxTimeoutMs).catch(() => undefined)
+        }
+
+        return this.provider.getLogs({
+            fromBlock: sent.fromBlock,
+            address: this.address,
+            topics: [this.iface.getEvent(name)!.topicHash]
+        })
+    }
+
+    private async callAddressOf(
+        method: 'addressOfEscrowSrc' | 'addressOfEscrowDst',
+        immutables: Sdk.Immutables
+    ): Promise<Sdk.Address> {
+        const [address] = this.iface.decodeFunctionResult(
+            method,
+            await this.provider.call({
+                to: this.address,
+                data: this.iface.encodeFunctionData(method, [immutables.build()])
+            })
+        )
+
+        return new Sdk.Address(address)
+    }
+
+    private assertSameAddress(source: string, onChain: Sdk.Address, offline: Sdk.Address): Sdk.Address {
+        if (!onChain.equal(offline)) {
+            throw new Error(`${source} escrow ${onChain} does not match offline computed ${offline}`)
         }
 
-        throw new Error(`Failed to get SrcEscrowCreated event logs after 5 attempts for block ${blockHash}`)
+        return onChain
     }
 }
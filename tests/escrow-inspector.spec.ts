@@ -0,0 +1,105 @@
+import {expect, describe, it} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify, JsonRpcProvider, randomBytes} from 'ethers'
+import {EscrowInspector, EscrowSide} from './escrow-inspector'
+
+const {Address} = Sdk
+
+const deployedAt = 1_000_000n
+const rescueStart = deployedAt + 1000n
+const taker = '0x' + '22'.repeat(20)
+const other = '0x' + '99'.repeat(20)
+
+function inspector(side: EscrowSide): EscrowInspector {
+    const immutables = Sdk.Immutables.new({
+        orderHash: hexlify(randomBytes(32)),
+        hashLock: Sdk.HashLock.forSingleFill(hexlify(randomBytes(32))),
+        maker: new Address('0x' + '11'.repeat(20)),
+        taker: new Address(taker),
+        token: new Address('0x' + '33'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 1n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 120n,
+            srcCancellation: 121n,
+            srcPublicCancellation: 122n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 100n,
+            dstCancellation: 101n
+        }).setDeployedAt(deployedAt)
+    })
+
+    // stages and actions are computed without reading the chain
+    return new EscrowInspector({} as JsonRpcProvider, '0x' + '55'.repeat(20), side, immutables)
+}
+
+describe('EscrowInspector', () => {
+    const src = inspector('src')
+    const dst = inspector('dst')
+
+    it('walks the source escrow through its stages up to the rescue', () => {
+        const stages = [0n, 10n, 120n, 121n, 122n, 999n, 1000n].map((t) => src.getStage(deployedAt + t, rescueStart))
+
+        expect(stages).toEqual([
+            'finalityLock',
+            'privateWithdrawal',
+            'publicWithdrawal',
+            'privateCancellation',
+            'publicCancellation',
+            'publicCancellation',
+            'rescue'
+        ])
+    })
+
+    it('walks the destination escrow through its stages, which have no public cancellation', () => {
+        const stages = [9n, 10n, 100n, 101n, 999n, 1000n].map((t) => dst.getStage(deployedAt + t, rescueStart))
+
+        expect(stages).toEqual([
+            'finalityLock',
+            'privateWithdrawal',
+            'publicWithdrawal',
+            'privateCancellation',
+            'privateCancellation',
+            'rescue'
+        ])
+    })
+
+    it('allows the source escrow taker to withdraw, then to cancel', () => {
+        const actions = (t: bigint): unknown => src.getAllowedActions(taker, deployedAt + t, rescueStart, false, true)
+
+        expect(actions(9n)).toEqual([])
+        expect(actions(10n)).toEqual(['withdraw'])
+        expect(actions(120n)).toEqual(['withdraw', 'publicWithdraw'])
+        expect(actions(121n)).toEqual(['cancel'])
+        expect(actions(122n)).toEqual(['cancel', 'publicCancel'])
+        expect(actions(1000n)).toEqual(['cancel', 'publicCancel', 'rescueFunds'])
+    })
+
+    it('opens the public functions only to access token holders', () => {
+        const actions = (t: bigint, holdsAccessToken: boolean): unknown =>
+            src.getAllowedActions(other, deployedAt + t, rescueStart, false, holdsAccessToken)
+
+        expect(actions(120n, true)).toEqual(['publicWithdraw'])
+        expect(actions(122n, true)).toEqual(['publicCancel'])
+        expect(actions(120n, false)).toEqual([])
+        expect(actions(122n, false)).toEqual([])
+    })
+
+    it('never allows a public cancel of the destination escrow', () => {
+        const actions = (t: bigint): unknown => dst.getAllowedActions(taker, deployedAt + t, rescueStart, false, true)
+
+        expect(actions(100n)).toEqual(['withdraw', 'publicWithdraw'])
+        expect(actions(101n)).toEqual(['cancel'])
+        expect(dst.getAllowedActions(other, deployedAt + 101n, rescueStart, false, true)).toEqual([])
+    })
+
+    it('leaves only the taker rescue once the escrow was withdrawn or cancelled', () => {
+        for (const escrow of [src, dst]) {
+            expect(escrow.getAllowedActions(taker, deployedAt + 122n, rescueStart, true, true)).toEqual([])
+            expect(escrow.getAllowedActions(taker, rescueStart, rescueStart, true, true)).toEqual(['rescueFunds'])
+            expect(escrow.getAllowedActions(other, rescueStart, rescueStart, true, true)).toEqual([])
+        }
+    })
+})
@@ -0,0 +1,217 @@
+import {Contract, Interface, JsonRpcProvider} from 'ethers'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Timelocks, TimelockStage} from './timelocks'
+import EscrowSrcContract from '../dist/contracts/EscrowSrc.sol/EscrowSrc.json'
+import ERC20 from '../dist/contracts/IERC20.sol/IERC20.json'
+
+export type EscrowSide = 'src' | 'dst'
+
+export type EscrowStage =
+    | 'finalityLock'
+    | 'privateWithdrawal'
+    | 'publicWithdrawal'
+    | 'privateCancellation'
+    | 'publicCancellation' // source escrow only
+    | 'rescue'
+
+export type EscrowAction = 'withdraw' | 'publicWithdraw' | 'cancel' | 'publicCancel' | 'rescueFunds'
+
+export type EscrowReport = {
+    address: string
+    side: EscrowSide
+    // block timestamp the report was taken at
+    now: bigint
+    stage: EscrowStage
+    rescueStart: bigint
+    // balance of `immutables.token`, native when the token is the zero address
+    tokenBalance: bigint
+    nativeBalance: bigint
+    withdrawn: boolean
+    // revealed by the `Withdrawal` event
+    secret?: string
+    cancelled: boolean
+    rescued: {token: string; amount: bigint}[]
+    allowedActions: EscrowAction[]
+}
+
+/**
+ * Reads the state of a deployed source or destination escrow: current timelock stage, funds held,
+ * whether it was already withdrawn or cancelled and what a given caller can do with it right now
+ *
+ * Pass `accessToken` for escrows whose `publicWithdraw`/`publicCancel` are only open to holders of the access token,
+ * the escrows of `contracts/lib/cross-chain-swap` are open to anyone
+ */
+export class EscrowInspector {
+    private readonly iface = new Interface(EscrowSrcContract.abi)
+
+    private readonly timelocks: Timelocks
+
+    constructor(
+        private readonly provider: JsonRpcProvider,
+        public readonly address: string,
+        public readonly side: EscrowSide,
+        private readonly immutables: Sdk.Immutables,
+        private readonly accessToken?: string
+    ) {
+        this.timelocks = Timelocks.fromSdk(immutables.timeLocks)
+    }
+
+    /**
+     * @param caller account which would send the transaction, for an escrow created through `Resolver` it is the resolver contract
+     * @param fromBlock first block to search escrow events from, pass the creation block on RPCs with limited log ranges
+     */
+    public async inspect(caller: string, fromBlock: number | string = 0): Promise<EscrowReport> {
+        const [block, rescueDelay, tokenBalance, nativeBalance, events, holdsAccessToken] = await Promise.all([
+            this.provider.getBlock('latest'),
+            this.getRescueDelay(),
+            this.getTokenBalance(),
+            this.provider.getBalance(this.address),
+            this.getEvents(fromBlock),
+            this.holdsAccessToken(caller)
+        ])
+
+        const now = BigInt(block!.timestamp)
+        const rescueStart = this.timelocks.rescueStart(rescueDelay)
+        const withdrawn = events.secret !== undefined
+
+        return {
+            address: this.address,
+            side: this.side,
+            now,
+            stage: this.getStage(now, rescueStart),
+            rescueStart,
+            tokenBalance,
+            nativeBalance,
+            withdrawn,
+            secret: events.secret,
+            cancelled: events.cancelled,
+            rescued: events.rescued,
+            allowedActions: this.getAllowedActions(
+                caller,
+                now,
+                rescueStart,
+                withdrawn || events.cancelled,
+                holdsAccessToken
+            )
+        }
+    }
+
+    public getStage(now: bigint, rescueStart: bigint): EscrowStage {
+        if (now >= rescueStart) {
+            return 'rescue'
+        }
+
+        const stages: [TimelockStage, EscrowStage][] =
+            this.side === 'src'
+                ? [
+                      [TimelockStage.SrcPublicCancellation, 'publicCancellation'],
+                      [TimelockStage.SrcCancellation, 'privateCancellation'],
+                      [TimelockStage.SrcPublicWithdrawal, 'publicWithdrawal'],
+                      [TimelockStage.SrcWithdrawal, 'privateWithdrawal']
+                  ]
+                : [
+                      [TimelockStage.DstCancellation, 'privateCancellation'],
+                      [TimelockStage.DstPublicWithdrawal, 'publicWithdrawal'],
+                      [TimelockStage.DstWithdrawal, 'privateWithdrawal']
+                  ]
+
+        const current = stages.find(([stage]) => now >= this.timelocks.get(stage))
+
+        return current ? current[1] : 'finalityLock'
+    }
+
+    /**
+     * Mirrors the modifiers of `EscrowSrc`/`EscrowDst`, `finished` is true once the escrow was withdrawn or cancelled
+     *
+     * @param holdsAccessToken whether `caller` may call the public functions, always true without `accessToken`
+     */
+    public getAllowedActions(
+        caller: string,
+        now: bigint,
+        rescueStart: bigint,
+        finished: boolean,
+        holdsAccessToken: boolean
+    ): EscrowAction[] {
+        const isTaker = caller.toLowerCase() === this.immutables.taker.toString().toLowerCase()
+        const [withdrawal, publicWithdrawal, cancellation] =
+            this.side === 'src'
+                ? [TimelockStage.SrcWithdrawal, TimelockStage.SrcPublicWithdrawal, TimelockStage.SrcCancellation]
+                : [TimelockStage.DstWithdrawal, TimelockStage.DstPublicWithdrawal, TimelockStage.DstCancellation]
+        const reached = (stage: TimelockStage): boolean => now >= this.timelocks.get(stage)
+
+        const actions: EscrowAction[] = []
+
+        if (!finished) {
+            if (isTaker && reached(withdrawal) && !reached(cancellation)) actions.push('withdraw')
+
+            if (holdsAccessToken && reached(publicWithdrawal) && !reached(cancellation)) actions.push('publicWithdraw')
+
+            if (isTaker && reached(cancellation)) actions.push('cancel')
+
+            if (holdsAccessToken && this.side === 'src' && reached(TimelockStage.SrcPublicCancellation)) {
+                actions.push('publicCancel')
+            }
+        }
+
+        if (isTaker && now >= rescueStart) actions.push('rescueFunds')
+
+        return actions
+    }
+
+    private async getRescueDelay(): Promise<bigint> {
+        const escrow = new Contract(this.address, EscrowSrcContract.abi, this.provider)
+
+        return escrow.RESCUE_DELAY()
+    }
+
+    private async getTokenBalance(): Promise<bigint> {
+        if (this.immutables.token.isNative()) {
+            return this.provider.getBalance(this.address)
+        }
+
+        const token = new Contract(this.immutables.token.toString(), ERC20.abi, this.provider)
+
+        return token.balanceOf(this.address)
+    }
+
+    private async holdsAccessToken(caller: string): Promise<boolean> {
+        if (!this.accessToken) {
+            return true
+        }
+
+        const token = new Contract(this.accessToken, ERC20.abi, this.provider)
+
+        return (await token.balanceOf(caller)) > 0n
+    }
+
+    private async getEvents(
+        fromBlock: number | string
+    ): Promise<{secret?: string; cancelled: boolean; rescued: {token: string; amount: bigint}[]}> {
+        const events = ['Withdrawal', 'EscrowCancelled', 'FundsRescued'].map((name) => this.iface.getEvent(name)!)
+        const logs = await this.provider.getLogs({
+            address: this.address,
+            fromBlock,
+            toBlock: 'latest',
+            topics: [events.map((e) => e.topicHash)]
+        })
+
+        const result: {secret?: string; cancelled: boolean; rescued: {token: string; amount: bigint}[]} = {
+            cancelled: false,
+            rescued: []
+        }
+
+        for (const log of logs) {
+            const parsed = this.iface.parseLog(log)
+
+            if (parsed?.name === 'Withdrawal') {
+                result.secret = parsed.args.secret
+            } else if (parsed?.name === 'EscrowCancelled') {
+                result.cancelled = true
+            } else if (parsed?.name === 'FundsRescued') {
+                result.rescued.push({token: parsed.args.token, amount: parsed.args.amount})
+            }
+        }
+
+        return result
+    }
+}
@@ -0,0 +1,191 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {
+    ChainAdapter,
+    DstEscrow,
+    DstEscrowDetails,
+    DstEscrowRequest,
+    DstEscrowState,
+    FeeEstimate,
+    FillPlan,
+    HealthReport
+} from './chain-adapter'
+import {Chain} from './chain'
+import {advanceToDstStage, Clock} from './clock'
+import {EscrowFactory} from './escrow-factory'
+import {EscrowInspector} from './escrow-inspector'
+import {checkEvmChain} from './evm-health'
+import {estimateL1Fee} from './fees'
+import {Resolver} from './resolver'
+import {Wallet} from './wallet'
+
+/**
+ * EVM destination chain: escrows are created through the `Resolver` contract of `chain`, which must hold
+ * and have approved the taker token to the factory for ERC20 orders
+ */
+export class EvmChainAdapter implements ChainAdapter {
+    public readonly chainId: number
+
+    public readonly clock: Clock
+
+    private readonly resolver: Resolver
+
+    private readonly factory: EscrowFactory
+
+    /**
+     * @param wallet owner of the resolver contract
+     */
+    constructor(
+        private readonly chain: Chain,
+        private readonly wallet: Wallet
+    ) {
+        this.chainId = chain.config.chainId
+        this.clock = chain.clock
+        this.resolver = new Resolver(chain.resolver)
+        this.factory = new EscrowFactory(chain.provider, chain.escrowFactory)
+    }
+
+    public async createDstEscrow(
+        request: DstEscrowRequest,
+        onSubmitted?: (txHash: string) => void
+    ): Promise<DstEscrow> {
+        const tx = await this.wallet.submit(
+            this.resolver.deployDst(this.toDstImmutables(request), this.srcCancellation(request))
+        )
+        onSubmitted?.(tx.hash)
+        const {txHash} = await tx.wait()
+
+        return this.deployedEscrow(request, txHash)
+    }
+
+    // block number
+    public async cursor(): Promise<bigint> {
+        return BigInt(await this.chain.provider.getBlockNumber())
+    }
+
+    public async findDstEscrow(
+        request: DstEscrowRequest,
+        sent: {cursor: bigint; txHash?: string}
+    ): Promise<DstEscrow | undefined> {
+        const found = await this.factory.findDstDeploy(
+            request.srcImmutables.hashLock.toString(),
+            new Sdk.Address(this.chain.resolver),
+            {fromBlock: Number(sent.cursor), txHash: sent.txHash}
+        )
+
+        return found && this.deployedEscrow(request, found.txHash)
+    }
+
+    public async withdraw(escrow: DstEscrow, secret: string): Promise<string> {
+        const {address, immutables} = this.deployed(escrow)
+        await advanceToDstStage(this.chain.clock, immutables.timeLocks, Sdk.DstStage.PrivateWithdrawal)
+
+        const {txHash} = await this.wallet.send(this.resolver.withdraw('dst', address, secret, immutables))
+
+        return txHash
+    }
+
+    public async cancel(escrow: DstEscrow): Promise<string> {
+        const {address, immutables} = this.deployed(escrow)
+        await advanceToDstStage(this.chain.clock, immutables.timeLocks, Sdk.DstStage.PrivateCancellation)
+
+        const {txHash} = await this.wallet.send(this.resolver.cancel('dst', address, immutables))
+
+        return txHash
+    }
+
+    public async getEscrowState(escrow: DstEscrow): Promise<DstEscrowState> {
+        const {address, immutables} = this.deployed(escrow)
+        const report = await new EscrowInspector(this.chain.provider, address.toString(), 'dst', immutables).inspect(
+            this.chain.resolver
+        )
+
+        return {
+            status: report.withdrawn ? 'withdrawn' : report.cancelled ? 'cancelled' : 'active',
+            balance: report.tokenBalance,
+            secret: report.secret
+        }
+    }
+
+    /**
+     * The immutables are only stored as part of the escrow address, so they are trusted once the factory
+     * computes the same address from them; the balances are read from the escrow
+     */
+    public async readDstEscrow(escrow: DstEscrow): Promise<DstEscrowDetails> {
+        const {address, immutables} = this.deployed(escrow)
+        const computed = await this.factory.addressOfEscrowDst(immutables)
+
+        if (!computed.equal(address)) {
+            throw new Error(`Escrow ${address} was not created from the recorded immutables, they give ${computed}`)
+        }
+
+        const report = await new EscrowInspector(this.chain.provider, address.toString(), 'dst', immutables).inspect(
+            this.chain.resolver
+        )
+        // native escrows hold the amount and the safety deposit in the same balance
+        const [amount, safetyDeposit] = immutables.token.isNative()
+            ? [report.nativeBalance - immutables.safetyDeposit, immutables.safetyDeposit]
+            : [report.tokenBalance, report.nativeBalance]
+
+        return {
+            hashLock: immutables.hashLock.toString(),
+            amount,
+            token: immutables.token.toString(),
+            receiver: immutables.maker.toString(),
+            safetyDeposit,
+            withdrawalStart: immutables.timeLocks.toDstTimeLocks().privateWithdrawal,
+            cancellationStart: immutables.timeLocks.toDstTimeLocks().privateCancellation
+        }
+    }
+
+    public async estimateFee(request: DstEscrowRequest): Promise<FeeEstimate> {
+        const tx = this.resolver.deployDst(this.toDstImmutables(request), this.srcCancellation(request))
+        const [gas, {gasPrice}] = await Promise.all([
+            this.chain.provider.estimateGas({...tx, from: await this.wallet.getAddress()}),
+            this.chain.provider.getFeeData()
+        ])
+        // OP-stack chains add the fee for posting the transaction to L1
+        const l1Fee = await estimateL1Fee(this.chain.provider, {...tx, gasLimit: gas})
+
+        return {
+            chainId: this.chainId,
+            fee: gas * (gasPrice ?? 0n) + l1Fee,
+            safetyDeposit: request.complement.safetyDeposit
+        }
+    }
+
+    public async healthCheck(plan?: FillPlan): Promise<HealthReport> {
+        return checkEvmChain(this.chain, plan)
+    }
+
+    private async deployedEscrow(request: DstEscrowRequest, txHash: string): Promise<DstEscrow> {
+        const event = await this.factory.getDstDeployEvent(txHash, {
+            immutables: request.srcImmutables,
+            complement: request.complement
+        })
+
+        return {
+            chainId: this.chainId,
+            txHash,
+            address: event.escrow.toString(),
+            createdAt: event.blockTimestamp,
+            immutables: this.toDstImmutables(request).withDeployedAt(event.blockTimestamp)
+        }
+    }
+
+    private toDstImmutables(request: DstEscrowRequest): Sdk.Immutables {
+        return request.srcImmutables.withComplement(request.complement).withTaker(new Sdk.Address(this.chain.resolver))
+    }
+
+    // the destination escrow must be cancellable before the source one
+    private srcCancellation(request: DstEscrowRequest): bigint {
+        return request.srcImmutables.timeLocks.toSrcTimeLocks().privateCancellation
+    }
+
+    private deployed(escrow: DstEscrow): {address: Sdk.Address; immutables: Sdk.Immutables} {
+        if (!escrow.address || !escrow.immutables) {
+            throw new Error(`Escrow created in ${escrow.txHash} has no address or immutables`)
+        }
+
+        return {address: new Sdk.Address(escrow.address), immutables: escrow.immutables}
+    }
+}
@@ -0,0 +1,76 @@
+import {expect, describe, it} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {JsonRpcProvider, Wallet as SignerWallet} from 'ethers'
+import {Chain} from './chain'
+import {checkEvmChain} from './evm-health'
+
+const chainId = Sdk.NetworkEnum.OPTIMISM
+const limitOrderProtocol = '0x' + '11'.repeat(20)
+const escrowFactory = '0x' + '22'.repeat(20)
+const resolver = '0x' + '33'.repeat(20)
+const resolverKey = SignerWallet.createRandom()
+
+// chain whose LOP address does not answer, whose factory is not deployed and whose resolver has no owner
+function misconfiguredChain(stubs: Partial<Record<keyof JsonRpcProvider, unknown>> = {}): Chain {
+    const provider = {
+        getNetwork: async () => ({chainId: BigInt(chainId)}),
+        getCode: async (address: string) => {
+            if (address === limitOrderProtocol) {
+                throw new Error('request timeout')
+            }
+
+            return address === resolver ? '0x6080' : '0x'
+        },
+        call: async () => {
+            throw new Error('execution reverted')
+        },
+        getBlock: async () => ({baseFeePerGas: 10n}),
+        getFeeData: async () => ({maxPriorityFeePerGas: 1n}),
+        // the fill and the safety deposit, but nothing for gas
+        getBalance: async () => 101n,
+        ...stubs
+    } as unknown as JsonRpcProvider
+
+    return {
+        config: {chainId, limitOrderProtocol, resolverPrivateKey: resolverKey.privateKey},
+        provider,
+        escrowFactory,
+        resolver
+    } as unknown as Chain
+}
+
+describe('checkEvmChain', () => {
+    it('reports every misconfiguration as a failed check', async () => {
+        const report = await checkEvmChain(misconfiguredChain(), {safetyDeposit: 1n, amount: 100n, gasLimit: 100n})
+
+        expect(report.healthy).toBe(false)
+        expect(report.checks).toEqual([
+            {name: 'rpc', ok: true},
+            {
+                name: 'limitOrderProtocol',
+                ok: false,
+                reason: `getCode(${limitOrderProtocol}) failed: request timeout`
+            },
+            {name: 'escrowFactory', ok: false, reason: `no contract at ${escrowFactory}`},
+            {name: 'resolver', ok: true},
+            {name: 'resolverOwner', ok: false, reason: expect.stringMatching(/^owner\(\) failed/)},
+            // 100 gas at a max fee of 2 * 10 + 1
+            {name: 'nativeBalance', ok: false, reason: expect.stringMatching(/needs 0\.000000000000002201$/)}
+        ])
+    })
+
+    it('stops at an RPC which does not answer', async () => {
+        const getNetwork = async (): Promise<never> => {
+            throw new Error('connect ECONNREFUSED')
+        }
+
+        const report = await checkEvmChain(misconfiguredChain({getNetwork}))
+
+        expect(report).toEqual({
+            chainId,
+            healthy: false,
+            checks: [{name: 'rpc', ok: false, reason: 'RPC does not answer: connect ECONNREFUSED'}]
+        })
+    })
+})
@@ -0,0 +1,119 @@
+import {computeAddress, Contract, formatEther} from 'ethers'
+import Sdk from '@1inch/cross-chain-sdk'
+import {FillPlan, HealthCheck, HealthReport, toHealthReport} from './chain-adapter'
+import {Chain} from './chain'
+import {defaultGasSettings, maxTransactionCost, suggestFees} from './fees'
+import ResolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
+import ERC20 from '../dist/contracts/IERC20.sol/IERC20.json'
+
+// gas budget of `Resolver.deployDst` when the plan does not estimate it
+const DEFAULT_FILL_GAS_LIMIT = 300_000n
+
+/**
+ * Everything an EVM leg of a swap relies on: the RPC serves the configured chain, LOP, factory and resolver
+ * are deployed, the resolver contract is owned by the configured resolver key and the resolver can pay for `plan`
+ */
+export async function checkEvmChain(chain: Chain, plan?: FillPlan): Promise<HealthReport> {
+    const {chainId} = chain.config
+    const checks: HealthCheck[] = []
+
+    try {
+        const network = await chain.provider.getNetwork()
+        checks.push(
+            network.chainId === BigInt(chainId)
+                ? {name: 'rpc', ok: true}
+                : {name: 'rpc', ok: false, reason: `RPC serves chain ${network.chainId}, expected ${chainId}`}
+        )
+    } catch (error) {
+        checks.push({name: 'rpc', ok: false, reason: `RPC does not answer: ${(error as Error).message}`})
+
+        return toHealthReport(chainId, checks)
+    }
+
+    for (const [name, address] of [
+        ['limitOrderProtocol', chain.config.limitOrderProtocol],
+        ['escrowFactory', chain.escrowFactory],
+        ['resolver', chain.resolver]
+    ]) {
+        checks.push(await checkCode(chain, name, address))
+    }
+
+    const resolverKey = computeAddress(chain.config.resolverPrivateKey)
+    checks.push(await checkOwner(chain, resolverKey))
+
+    if (plan) {
+        checks.push(...(await checkBalances(chain, resolverKey, plan)))
+    }
+
+    return toHealthReport(chainId, checks)
+}
+
+async function checkCode(chain: Chain, name: string, address: string): Promise<HealthCheck> {
+    try {
+        const code = await chain.provider.getCode(address)
+
+        return code === '0x' ? {name, ok: false, reason: `no contract at ${address}`} : {name, ok: true}
+    } catch (error) {
+        return {name, ok: false, reason: `getCode(${address}) failed: ${(error as Error).message}`}
+    }
+}
+
+async function checkOwner(chain: Chain, resolverKey: string): Promise<HealthCheck> {
+    try {
+        const owner: string = await new Contract(chain.resolver, ResolverContract.abi, chain.provider).owner()
+
+        return owner.toLowerCase() === resolverKey.toLowerCase()
+            ? {name: 'resolverOwner', ok: true}
+            : {
+                  name: 'resolverOwner',
+                  ok: false,
+                  reason: `resolver is owned by ${owner}, configured key is ${resolverKey}`
+              }
+    } catch (error) {
+        return {name: 'resolverOwner', ok: false, reason: `owner() failed: ${(error as Error).message}`}
+    }
+}
+
+async function checkBalances(chain: Chain, resolverKey: string, plan: FillPlan): Promise<HealthCheck[]> {
+    const amount = plan.amount ?? 0n
+    const nativeFill = plan.token === undefined || new Sdk.Address(plan.token).isNative()
+    const fees = await suggestFees(chain.provider, chain.config.gas?.fees ?? defaultGasSettings.fees)
+    // the resolver key sends the safety deposit, and the fill itself when it is native, and pays the gas of the fill
+    const nativeNeeded = await maxTransactionCost(
+        chain.provider,
+        {
+            to: chain.resolver,
+            value: plan.safetyDeposit + (nativeFill ? amount : 0n),
+            gasLimit: plan.gasLimit ?? DEFAULT_FILL_GAS_LIMIT
+        },
+        fees
+    )
+    const nativeBalance = await chain.provider.getBalance(resolverKey)
+
+    const checks: HealthCheck[] = [
+        nativeBalance >= nativeNeeded
+            ? {name: 'nativeBalance', ok: true}
+            : {
+                  name: 'nativeBalance',
+                  ok: false,
+                  reason: `resolver ${resolverKey} has ${formatEther(nativeBalance)}, needs ${formatEther(nativeNeeded)}`
+              }
+    ]
+
+    if (!nativeFill && amount > 0n) {
+        const token = new Contract(plan.token!, ERC20.abi, chain.provider)
+        const tokenBalance: bigint = await token.balanceOf(chain.resolver)
+
+        checks.push(
+            tokenBalance >= amount
+                ? {name: 'tokenBalance', ok: true}
+                : {
+                      name: 'tokenBalance',
+                      ok: false,
+                      reason: `resolver contract holds ${tokenBalance} of ${plan.token}, needs ${amount}`
+                  }
+        )
+    }
+
+    return checks
+}
@@ -0,0 +1,178 @@
+import {Interface, JsonRpcProvider, Transaction, TransactionReceipt, TransactionRequest} from 'ethers'
+
+/**
+ * How the EIP-1559 fees of a transaction are picked
+ *
+ * - `normal`: the node's priority fee, max fee twice the base fee plus the priority fee
+ * - `fast`: twice the node's priority fee, max fee three times the base fee plus the priority fee
+ * - `{maxFeePerGas, maxPriorityFeePerGas?}`: `normal`, capped at the given fees
+ */
+export type FeeStrategy = 'normal' | 'fast' | {maxFeePerGas: bigint; maxPriorityFeePerGas?: bigint}
+
+export type GasSettings = {
+    fees: FeeStrategy
+    // estimated gas is multiplied by it to leave room for state changes until the transaction is mined
+    gasMultiplier: number
+    // a transaction still pending after this long is replaced with bumped fees, ms
+    stuckAfterMs: number
+    // fee increase of a replacement, nodes require at least 10%, percent
+    feeBumpPercent: number
+    maxFeeBumps: number
+}
+
+export const defaultGasSettings: GasSettings = {
+    fees: 'normal',
+    gasMultiplier: 1.2,
+    stuckAfterMs: 60_000,
+    feeBumpPercent: 20,
+    maxFeeBumps: 3
+}
+
+export type Fees = {maxFeePerGas: bigint; maxPriorityFeePerGas: bigint} | {gasPrice: bigint}
+
+/**
+ * What a mined transaction cost, in wei of the native token
+ */
+export type TransactionFee = {
+    gasUsed: bigint
+    effectiveGasPrice: bigint
+    // OP-stack chains charge the posting of the transaction data to L1 on top of the execution
+    l1Fee: bigint
+    total: bigint
+}
+
+export class InsufficientFundsForGasError extends Error {
+    constructor(
+        public readonly account: string,
+        public readonly balance: bigint,
+        public readonly required: bigint
+    ) {
+        super(`Account ${account} holds ${balance} wei, sending the transaction may cost up to ${required} wei`)
+        this.name = 'InsufficientFundsForGasError'
+    }
+}
+
+// `GasPriceOracle` predeploy of OP-stack chains
+export const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F'
+
+const gasPriceOracle = new Interface(['function getL1Fee(bytes) view returns (uint256)'])
+
+const opStackChains = new WeakMap<JsonRpcProvider, Promise<boolean>>()
+
+/**
+ * Whether the chain of `provider` is an OP-stack chain, i.e. has the `GasPriceOracle` predeploy
+ */
+export function isOpStack(provider: JsonRpcProvider): Promise<boolean> {
+    if (!opStackChains.has(provider)) {
+        opStackChains.set(
+            provider,
+            provider.getCode(GAS_PRICE_ORACLE).then((code) => code !== '0x')
+        )
+    }
+
+    return opStackChains.get(provider)!
+}
+
+export async function suggestFees(provider: JsonRpcProvider, strategy: FeeStrategy): Promise<Fees> {
+    const [block, feeData] = await Promise.all([provider.getBlock('latest'), provider.getFeeData()])
+    const baseFee = block?.baseFeePerGas
+
+    // chains without EIP-1559
+    if (baseFee === null || baseFee === undefined) {
+        const gasPrice = feeData.gasPrice ?? 0n
+
+        return {gasPrice: typeof strategy === 'object' ? min(gasPrice, strategy.maxFeePerGas) : gasPrice}
+    }
+
+    const tip = feeData.maxPriorityFeePerGas ?? 1_000_000_000n
+
+    if (strategy === 'fast') {
+        return {maxFeePerGas: baseFee * 3n + tip * 2n, maxPriorityFeePerGas: tip * 2n}
+    }
+
+    const fees = {maxFeePerGas: baseFee * 2n + tip, maxPriorityFeePerGas: tip}
+
+    if (strategy === 'normal') {
+        return fees
+    }
+
+    const maxFeePerGas = min(fees.maxFeePerGas, strategy.maxFeePerGas)
+
+    return {
+        maxFeePerGas,
+        maxPriorityFeePerGas: min(
+            fees.maxPriorityFeePerGas,
+            strategy.maxPriorityFeePerGas ?? maxFeePerGas,
+            maxFeePerGas
+        )
+    }
+}
+
+/**
+ * Fees of a replacement for a transaction sent with `fees`, raised by `percent`
+ */
+export function bumpFees(fees: Fees, percent: number): Fees {
+    const bump = (value: bigint): bigint => (value * BigInt(100 + percent)) / 100n + 1n
+
+    return 'gasPrice' in fees
+        ? {gasPrice: bump(fees.gasPrice)}
+        : {maxFeePerGas: bump(fees.maxFeePerGas), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas)}
+}
+
+/**
+ * Upper bound of what `tx` costs: its gas limit at the max fee, its value and the L1 data fee on OP-stack chains
+ */
+export async function maxTransactionCost(
+    provider: JsonRpcProvider,
+    tx: TransactionRequest,
+    fees: Fees
+): Promise<bigint> {
+    const price = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas
+    const l1Fee = await estimateL1Fee(provider, tx)
+
+    return BigInt(tx.gasLimit ?? 0n) * price + BigInt(tx.value ?? 0n) + l1Fee
+}
+
+/**
+ * L1 data fee `GasPriceOracle` charges for `tx` on OP-stack chains, 0 elsewhere
+ */
+export async function estimateL1Fee(provider: JsonRpcProvider, tx: TransactionRequest): Promise<bigint> {
+    if (!(await isOpStack(provider))) {
+        return 0n
+    }
+
+    const {chainId} = await provider.getNetwork()
+    const unsigned = Transaction.from({
+        type: 2,
+        chainId,
+        to: tx.to?.toString(),
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        nonce: tx.nonce ?? 0,
+        maxFeePerGas: tx.maxFeePerGas ?? 0n,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? 0n
+    }).unsignedSerialized
+
+    const [fee] = gasPriceOracle.decodeFunctionResult(
+        'getL1Fee',
+        await provider.call({to: GAS_PRICE_ORACLE, data: gasPriceOracle.encodeFunctionData('getL1Fee', [unsigned])})
+    )
+
+    return fee
+}
+
+/**
+ * Fee actually paid for a mined transaction, OP-stack receipts carry the L1 data fee as `l1Fee`
+ */
+export async function transactionFee(provider: JsonRpcProvider, receipt: TransactionReceipt): Promise<TransactionFee> {
+    const l1Fee = (await isOpStack(provider))
+        ? BigInt((await provider.send('eth_getTransactionReceipt', [receipt.hash]))?.l1Fee ?? 0n)
+        : 0n
+
+    return {gasUsed: receipt.gasUsed, effectiveGasPrice: receipt.gasPrice, l1Fee, total: receipt.fee + l1Fee}
+}
+
+function min(...values: bigint[]): bigint {
+    return values.reduce((a, b) => (a < b ? a : b))
+}
@@ -1,133 +1,163 @@
-import { Aptos, Account, AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+    Aptos,
+    Account,
+    InputEntryFunctionData,
+    MoveFunctionId,
+    MoveResource,
+    PendingTransactionResponse
+} from '@aptos-labs/ts-sdk'
+import {logger} from './logger'
+import {defaultRetryPolicy, RetryPolicy, withRetry} from './retry'
 
 export class FusionPlusClient {
-  private aptos: Aptos;
-  private contractAddress: string;
-
-  constructor(aptos: Aptos, contractAddress: string) {
-    this.aptos = aptos;
-    this.contractAddress = contractAddress;
-  }
-
-  /**
-   * Get basic contract information
-   */
-  async getContractInfo() {
-    try {
-      const accountInfo = await this.aptos.getAccountInfo({
-        accountAddress: this.contractAddress,
-      });
-      
-      const modules = await this.aptos.getAccountModules({
-        accountAddress: this.contractAddress,
-      });
-
-      return {
-        address: this.contractAddress,
-        sequenceNumber: accountInfo.sequence_number,
-        modules: modules.map(m => m.abi?.name || 'unknown'),
-      };
-    } catch (error) {
-      console.error("Error getting contract info:", error);
-      throw error;
+    private aptos: Aptos
+
+    private contractAddress: string
+
+    private log = logger.child({module: 'fusion-plus-client'})
+
+    private retryPolicy: RetryPolicy
+
+    constructor(aptos: Aptos, contractAddress: string, retryPolicy: RetryPolicy = defaultRetryPolicy) {
+        this.aptos = aptos
+        this.contractAddress = contractAddress
+        this.retryPolicy = retryPolicy
     }
-  }
-
-  /**
-   * Call a view function on the contract
-   */
-  async callViewFunction<T = any>(
-    functionName: string,
-    typeArguments: string[] = [],
-    functionArguments: any[] = []
-  ): Promise<T> {
-    try {
-      const payload = {
-        function: `${this.contractAddress}::${functionName}` as any,
-        typeArguments,
-        functionArguments,
-      };
-
-      const result = await this.aptos.view({ payload });
-      return result as T;
-    } catch (error) {
-      console.error(`Error calling view function ${functionName}:`, error);
-      throw error;
+
+    /**
+     * Run an Aptos API call under the retry policy of the client
+     */
+    retry<T>(label: string, call: () => Promise<T>): Promise<T> {
+        return withRetry(label, call, {policy: this.retryPolicy, log: this.log})
     }
-  }
-
-  /**
-   * Build a transaction payload for contract interaction
-   */
-  buildTransactionPayload(
-    functionName: string,
-    typeArguments: string[] = [],
-    functionArguments: any[] = []
-  ) {
-    return {
-      function: `${this.contractAddress}::${functionName}`,
-      typeArguments,
-      functionArguments,
-    };
-  }
-
-  /**
-   * Submit a transaction to the contract
-   */
-  async submitTransaction(
-    signer: Account,
-    payload: any
-  ) {
-    try {
-      const transaction = await this.aptos.transaction.build.simple({
-        sender: signer.accountAddress,
-        data: payload,
-      });
-
-      const committedTxn = await this.aptos.signAndSubmitTransaction({
-        signer,
-        transaction,
-      });
-
-      await this.aptos.waitForTransaction({
-        transactionHash: committedTxn.hash,
-      });
-
-      return committedTxn;
-    } catch (error) {
-      console.error("Error submitting transaction:", error);
-      throw error;
+
+    /**
+     * Get basic contract information
+     */
+    async getContractInfo(): Promise<{address: string; sequenceNumber: string; modules: string[]}> {
+        try {
+            const accountInfo = await this.retry('Get account info', () =>
+                this.aptos.getAccountInfo({accountAddress: this.contractAddress})
+            )
+
+            const modules = await this.retry('Get account modules', () =>
+                this.aptos.getAccountModules({accountAddress: this.contractAddress})
+            )
+
+            return {
+                address: this.contractAddress,
+                sequenceNumber: accountInfo.sequence_number,
+                modules: modules.map((m) => m.abi?.name || 'unknown')
+            }
+        } catch (error) {
+            this.log.error('Could not get contract info', {error})
+            throw error
+        }
     }
-  }
-
-  /**
-   * Get account resources for the contract
-   */
-  async getContractResources() {
-    try {
-      const resources = await this.aptos.getAccountResources({
-        accountAddress: this.contractAddress,
-      });
-      return resources;
-    } catch (error) {
-      console.error("Error getting contract resources:", error);
-      throw error;
+
+    /**
+     * Call a view function on the contract
+     */
+    async callViewFunction<T = any>(
+        functionName: string,
+        typeArguments: string[] = [],
+        functionArguments: any[] = []
+    ): Promise<T> {
+        try {
+            const payload = {
+                function: `${this.contractAddress}::${functionName}` as any,
+                typeArguments,
+                functionArguments
+            }
+
+            const result = await this.retry(`View ${functionName}`, () => this.aptos.view({payload}))
+
+            return result as T
+        } catch (error) {
+            this.log.error('View function failed', {function: functionName, error})
+            throw error
+        }
     }
-  }
-
-  /**
-   * Get specific resource from the contract
-   */
-  async getContractResource<T extends Record<string, any>>(resourceType: string): Promise<T> {
-    try {
-      const resource = await this.aptos.getAccountResource<T>({
-        accountAddress: this.contractAddress,
-        resourceType: resourceType as any,
-      });
-      return resource;
-    } catch (error) {
-      console.error(`Error getting resource ${resourceType}:`, error);
-      throw error;
+
+    /**
+     * Build a transaction payload for contract interaction
+     */
+    buildTransactionPayload(
+        functionName: string,
+        typeArguments: string[] = [],
+        functionArguments: any[] = []
+    ): InputEntryFunctionData {
+        return {
+            function: `${this.contractAddress}::${functionName}` as MoveFunctionId,
+            typeArguments,
+            functionArguments
+        }
+    }
+
+    /**
+     * Submit a transaction to the contract. Building it again on a retry picks the current sequence number,
+     * so a race with another transaction of the signer is retried while a Move abort is not.
+     * `onSubmitted` gets the hash before the transaction is awaited
+     */
+    async submitTransaction(
+        signer: Account,
+        payload: any,
+        onSubmitted?: (hash: string) => void
+    ): Promise<PendingTransactionResponse> {
+        try {
+            const committedTxn = await this.retry('Submit transaction', async () => {
+                const transaction = await this.aptos.transaction.build.simple({
+                    sender: signer.accountAddress,
+                    data: payload
+                })
+
+                return this.aptos.signAndSubmitTransaction({signer, transaction})
+            })
+            onSubmitted?.(committedTxn.hash)
+
+            await this.retry('Wait for transaction', () =>
+                this.aptos.waitForTransaction({transactionHash: committedTxn.hash})
+            )
+
+            return committedTxn
+        } catch (error) {
+            this.log.error('Transaction failed', {error})
+            throw error
+        }
+    }
+
+    /**
+     * Get account resources for the contract
+     */
+    async getContractResources(): Promise<MoveResource[]> {
+        try {
+            const resources = await this.retry('Get contract resources', () =>
+                this.aptos.getAccountResources({accountAddress: this.contractAddress})
+            )
+
+            return resources
+        } catch (error) {
+            this.log.error('Could not get contract resources', {error})
+            throw error
+        }
+    }
+
+    /**
+     * Get specific resource from the contract
+     */
+    async getContractResource<T extends Record<string, any>>(resourceType: string): Promise<T> {
+        try {
+            const resource = await this.retry(`Get resource ${resourceType}`, () =>
+                this.aptos.getAccountResource<T>({
+                    accountAddress: this.contractAddress,
+                    resourceType: resourceType as any
+                })
+            )
+
+            return resource
+        } catch (error) {
+            this.log.error('Could not get resource', {resource: resourceType, error})
+            throw error
+        }
     }
-  }
-} 
\ No newline at end of file
+}
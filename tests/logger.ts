@@ -0,0 +1,192 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const levels: Record<LogLevel | 'silent', number> = {debug: 10, info: 20, warn: 30, error: 40, silent: 100}
+
+/**
+ * Attached to every entry of a logger and its children
+ */
+export type LogContext = {
+    [key: string]: unknown
+    // component writing the entry, e.g. `coordinator`
+    module?: string
+    swapId?: string
+    orderHash?: string
+    chainId?: number
+}
+
+export type LogEntry = {
+    [key: string]: unknown
+    time: string
+    level: LogLevel
+    msg: string
+}
+
+export type LogSink = (entry: LogEntry) => void
+
+const REDACTED = '[REDACTED]'
+
+// `secretHash`, `secretHashes` and `secretIndex` are public, every other secret or key is not
+const sensitiveKey = /^(?!secret(hash|hashes|index)$).*(secret|privatekey|private_key|mnemonic|password)/i
+
+const state: {level: LogLevel | 'silent'; sink: LogSink; redacted: Set<string>} = {
+    level: parseLevel(process.env.LOG_LEVEL),
+    sink: (entry) => {
+        const stream = levels[entry.level] >= levels.warn ? process.stderr : process.stdout
+        stream.write(JSON.stringify(entry) + '\n')
+    },
+    redacted: new Set()
+}
+
+function parseLevel(value: string | undefined): LogLevel | 'silent' {
+    if (value === undefined) {
+        return 'info'
+    }
+
+    if (!(value in levels)) {
+        throw new Error(`LOG_LEVEL must be one of ${Object.keys(levels).join(', ')}, got ${value}`)
+    }
+
+    return value as LogLevel | 'silent'
+}
+
+/**
+ * Leveled JSON logger, every entry carries the context of the logger that wrote it.
+ *
+ * Values under secret or private key fields and every value passed to `redact` are replaced by `[REDACTED]`,
+ * in messages as well
+ */
+export class Logger {
+    constructor(public readonly context: LogContext = {}) {}
+
+    public child(context: LogContext): Logger {
+        return new Logger({...this.context, ...context})
+    }
+
+    public debug(msg: string, fields?: Record<string, unknown>): void {
+        this.write('debug', msg, fields)
+    }
+
+    public info(msg: string, fields?: Record<string, unknown>): void {
+        this.write('info', msg, fields)
+    }
+
+    public warn(msg: string, fields?: Record<string, unknown>): void {
+        this.write('warn', msg, fields)
+    }
+
+    public error(msg: string, fields?: Record<string, unknown>): void {
+        this.write('error', msg, fields)
+    }
+
+    private write(level: LogLevel, msg: string, fields: Record<string, unknown> = {}): void {
+        if (levels[level] < levels[state.level]) {
+            return
+        }
+
+        state.sink({
+            time: new Date().toISOString(),
+            level,
+            msg: redactText(msg),
+            ...(sanitize({...this.context, ...fields}) as Record<string, unknown>)
+        })
+    }
+}
+
+export const logger = new Logger()
+
+/**
+ * Redact `value` (a secret or private key) wherever it appears in later entries
+ */
+export function redact(value: string): void {
+    if (value.length < 8) {
+        return
+    }
+
+    state.redacted.add(value.toLowerCase())
+
+    // hex secrets are often printed without their prefix too
+    if (value.startsWith('0x')) {
+        state.redacted.add(value.slice(2).toLowerCase())
+    }
+}
+
+export function setLogLevel(level: LogLevel | 'silent'): void {
+    state.level = level
+}
+
+/**
+ * Send entries to `sink` instead of stdout/stderr, returns a function restoring the previous sink
+ */
+export function setLogSink(sink: LogSink): () => void {
+    const previous = state.sink
+    state.sink = sink
+
+    return () => {
+        state.sink = previous
+    }
+}
+
+/**
+ * Collect entries in memory, e.g. in tests: `const logs = captureLogs()` ... `logs.restore()`
+ */
+export function captureLogs(): {entries: LogEntry[]; restore: () => void} {
+    const entries: LogEntry[] = []
+    const restore = setLogSink((entry) => entries.push(entry))
+
+    return {entries, restore}
+}
+
+function redactText(text: string): string {
+    let result = text
+
+    for (const value of state.redacted) {
+        result = result.replace(new RegExp(escapeRegExp(value), 'gi'), REDACTED)
+    }
+
+    return result
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// JSON-safe copy with bigints as strings, errors as plain objects and sensitive values redacted. Only an object
+// containing itself is circular, the same object under two fields is copied twice
+function sanitize(value: unknown, key = '', ancestors: object[] = []): unknown {
+    if (key && sensitiveKey.test(key) && value !== undefined && value !== null) {
+        return REDACTED
+    }
+
+    if (typeof value === 'string') {
+        return redactText(value)
+    }
+
+    if (typeof value === 'bigint') {
+        return value.toString()
+    }
+
+    if (typeof value !== 'object' || value === null) {
+        return value
+    }
+
+    if (ancestors.includes(value)) {
+        return '[Circular]'
+    }
+
+    const path = [...ancestors, value]
+
+    if (value instanceof Error) {
+        return {name: value.name, message: redactText(value.message), stack: redactText(value.stack ?? '')}
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => sanitize(item, '', path))
+    }
+
+    // SDK objects like `Sdk.Address` print their useful form through `toString`
+    if (value.constructor !== Object && value.toString !== Object.prototype.toString) {
+        return redactText(value.toString())
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, sanitize(v, k, path)]))
+}
@@ -1,31 +1,20 @@
 import 'dotenv/config'
 import {expect, jest, describe, it, beforeAll, afterAll} from '@jest/globals'
 
-import {createServer, CreateServerReturnType} from 'prool'
-import {anvil} from 'prool/instances'
-
 import Sdk from '@1inch/cross-chain-sdk'
-import {
-    computeAddress,
-    ContractFactory,
-    JsonRpcProvider,
-    MaxUint256,
-    parseEther,
-    parseUnits,
-    randomBytes,
-    Wallet as SignerWallet
-} from 'ethers'
+import {parseEther, parseUnits, randomBytes} from 'ethers'
 import {uint8ArrayToHex, UINT_40_MAX} from '@1inch/byte-utils'
-import assert from 'node:assert'
-import {ChainConfig, config} from './config'
+import {config} from './config'
 import {Wallet} from './wallet'
 import {Resolver} from './resolver'
 import {EscrowFactory} from './escrow-factory'
-import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
-import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
-import crypto from 'crypto'
-import {defaultCrossChainConfig} from './cross-chain-config'
-import {CrossChainCoordinator} from './cross-chain-order'
+import {EscrowInspector} from './escrow-inspector'
+import {APTOS_CHAIN_ID, getAddressCommitment, toOrderChainId} from './address-commitment'
+import {Chain, initChain} from './chain'
+import {advanceToSrcStage} from './clock'
+import {loadCrossChainConfig} from './cross-chain-config'
+import {CrossChainCoordinator, DstSwapResult} from './cross-chain-order'
+import {logger} from './logger'
 
 const {Address} = Sdk
 
@@ -35,18 +24,9 @@ jest.setTimeout(1000 * 60)
 const userPkSourceChain = config.chain.source.ownerPrivateKey
 const resolverPkForSourceChain = config.chain.source.resolverPrivateKey
 
-// eslint-disable-next-line max-lines-per-function
 describe('Resolving example', () => {
     const srcChainId = config.chain.source.chainId
-    const dstChainId = Sdk.NetworkEnum.ETHEREUM // APTOS and ethereum has the same chainId
-
-    type Chain = {
-        node?: CreateServerReturnType | undefined
-        provider: JsonRpcProvider
-        escrowFactory: string
-        resolver: string
-        createFork: boolean
-    }
+    const dstChainId = APTOS_CHAIN_ID
 
     let src: Chain
 
@@ -58,9 +38,7 @@ describe('Resolving example', () => {
 
     let srcTimestamp: bigint
 
-    async function increaseTime(t: number): Promise<void> {
-        await new Promise((resolve) => setTimeout(resolve, t * 1000))
-    }
+    const log = logger.child({module: 'resolving-example', chainId: srcChainId})
 
     beforeAll(async () => {
         ;[src] = await Promise.all([initChain(config.chain.source)])
@@ -70,13 +48,6 @@ describe('Resolving example', () => {
 
         srcFactory = new EscrowFactory(src.provider, src.escrowFactory)
 
-        // we need to approve the token to the limit order protocol
-        await srcChainUser.approveToken(
-            config.chain.source.tokens.USDC.address,
-            config.chain.source.limitOrderProtocol,
-            MaxUint256
-        )
-
         srcResolverContract = new Wallet(resolverPkForSourceChain, src.provider)
         srcTimestamp = BigInt((await src.provider.getBlock('latest'))!.timestamp)
     })
@@ -90,20 +61,15 @@ describe('Resolving example', () => {
 
     async function handleCrossChainIntegration(
         secret: string,
-        srcEscrowEvent: [any, any] // Your existing Sdk.Immutables and Sdk.DstImmutablesComplement types
-    ): Promise<{
-        aptosCreateTxHash: string
-        aptosWithdrawTxHash?: string
-        aptosEscrowAddress?: string
-    }> {
-        console.log('\n🌉 === CROSS-CHAIN INTEGRATION PHASE ===')
-
+        srcEscrowEvent: [Sdk.Immutables, Sdk.DstImmutablesComplement]
+    ): Promise<DstSwapResult> {
         // Initialize cross-chain coordinator
-        const coordinator = new CrossChainCoordinator(defaultCrossChainConfig)
+        const coordinator = new CrossChainCoordinator(loadCrossChainConfig())
 
         // Perform health check
         const healthCheck = await coordinator.healthCheck()
-        if (!healthCheck.aptos || !healthCheck.config) {
+
+        if (!healthCheck.config || !healthCheck.chains[dstChainId]?.healthy) {
             throw new Error('Cross-chain health check failed')
         }
 
@@ -113,17 +79,8 @@ describe('Resolving example', () => {
         }
 
         // Process the cross-chain events and create destination escrow on Aptos
-        console.log('🔄 Processing cross-chain events and creating Aptos escrow...')
-        const result = await coordinator.processCrossChainEvents(secret, srcEscrowEvent)
-
-        // Wait for finalization if needed
-        await coordinator.waitForFinalization()
-
-        console.log('✅ Cross-chain integration completed successfully')
-        console.log('📊 Results:')
-        console.log('  - Aptos escrow creation tx:', result.aptosCreateTxHash)
-        console.log('  - Aptos escrow withdrawal tx:', result.aptosWithdrawTxHash || 'Skipped')
-        console.log('  - Aptos escrow address:', result.aptosEscrowAddress || 'N/A')
+        const result = await coordinator.processCrossChainEvents(secret, srcEscrowEvent, dstChainId)
+        log.info('Cross-chain integration completed', {...result})
 
         return result
     }
@@ -133,36 +90,47 @@ describe('Resolving example', () => {
         await Promise.all([src.node?.stop()])
     })
 
-    // eslint-disable-next-line max-lines-per-function
     describe('Fill', () => {
         it('should swap Ethereum USDC -> Bsc USDC. Single fill only', async () => {
-            const initialBalances = await getBalance(config.chain.source.tokens.USDC.address)
+            const initialBalances = await getBalance(src.config.tokens.USDC.address)
 
             // User creates order
             const secret = uint8ArrayToHex(randomBytes(32)) // note: use crypto secure random number in real world
 
-            // Create SHA1 hashes of the Aptos addresses for EVM compatibility
+            // Commit to the Aptos addresses with the destination chain's scheme, they do not fit into EVM addresses
             const aptosReceiverAddress = '0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497'
             const aptosTakerAssetAddress = '0x000000000000000000000000000000000000000000000000000000000000000a'
 
-            const receiverSha1 = '0x' + crypto.createHash('sha1').update(aptosReceiverAddress).digest('hex')
-            const takerAssetSha1 = '0x' + crypto.createHash('sha1').update(aptosTakerAssetAddress).digest('hex')
+            const commitment = getAddressCommitment(dstChainId)
+            const receiverCommitment = commitment.commit(aptosReceiverAddress)
+            const takerAssetCommitment = commitment.commit(aptosTakerAssetAddress)
 
-            console.log('Original Aptos receiver address:', aptosReceiverAddress)
-            console.log('Receiver SHA1 hash:', receiverSha1)
-            console.log('Original Aptos taker asset address:', aptosTakerAssetAddress)
-            console.log('Taker asset SHA1 hash:', takerAssetSha1)
+            log.info('Aptos address commitments', {
+                algorithm: commitment.algorithm,
+                receiver: aptosReceiverAddress,
+                receiverCommitment,
+                takerAsset: aptosTakerAssetAddress,
+                takerAssetCommitment
+            })
+
+            // The maker signs an EIP-2612 permit for the limit order protocol instead of approving USDC on chain
+            const makingAmount = parseUnits('0.00001', 6)
+            const permit = await srcChainUser.signMakerPermit(
+                src.config.tokens.USDC.address,
+                src.config.limitOrderProtocol,
+                makingAmount
+            )
 
             const order = Sdk.CrossChainOrder.new(
                 new Address(src.escrowFactory),
                 {
                     salt: Sdk.randBigInt(1000n),
                     maker: new Address(await srcChainUser.getAddress()),
-                    makingAmount: parseUnits('0.00001', 6),
+                    makingAmount,
                     takingAmount: parseUnits('0.00001', 6),
-                    makerAsset: new Address(config.chain.source.tokens.USDC.address),
-                    takerAsset: new Address(takerAssetSha1), // SHA1 hash of Aptos address
-                    receiver: new Address(receiverSha1) // SHA1 hash of Aptos address
+                    makerAsset: new Address(src.config.tokens.USDC.address),
+                    takerAsset: new Address(takerAssetCommitment), // commitment to the Aptos asset address
+                    receiver: new Address(receiverCommitment) // commitment to the Aptos receiver address
                 },
                 {
                     hashLock: Sdk.HashLock.forSingleFill(secret),
@@ -176,7 +144,7 @@ describe('Resolving example', () => {
                         dstCancellation: 101n // 1sec public withdrawal
                     }),
                     srcChainId,
-                    dstChainId,
+                    dstChainId: toOrderChainId(dstChainId),
                     srcSafetyDeposit: parseEther('0.000000001'), // lowering down the eth safe deposit for tests
                     dstSafetyDeposit: parseEther('0.000000001')
                 },
@@ -198,7 +166,8 @@ describe('Resolving example', () => {
                 {
                     nonce: Sdk.randBigInt(UINT_40_MAX),
                     allowPartialFills: false,
-                    allowMultipleFills: false
+                    allowMultipleFills: false,
+                    ...permit
                 }
             )
 
@@ -207,11 +176,7 @@ describe('Resolving example', () => {
             // Resolver fills order
             const resolverContract = new Resolver(src.resolver)
 
-            console.log(`[${srcChainId}]`, `Filling order ${orderHash}`)
-
-            console.log('order', order)
-            console.log('Order receiver SHA1 address:', order.receiver.toString())
-            console.log('Order takerAsset SHA1 address:', order.takerAsset.toString())
+            log.info('Filling order', {orderHash})
 
             const fillAmount = order.makingAmount
             const {txHash: orderFillHash, blockHash: srcDeployBlock} = await srcChainResolver.send(
@@ -227,137 +192,44 @@ describe('Resolving example', () => {
                 )
             )
 
-            console.log(`[${srcChainId}]`, `Order ${orderHash} filled for ${fillAmount} in tx ${orderFillHash}`)
+            log.info('Order filled', {orderHash, fillAmount, txHash: orderFillHash})
 
-            const srcEscrowEvent = await srcFactory.getSrcDeployEvent(srcDeployBlock)
+            const srcEscrowEvent = await srcFactory.getSrcDeployEvent(srcDeployBlock, {
+                orderHash,
+                expected: {receiver: receiverCommitment, takerAsset: takerAssetCommitment}
+            })
 
-            const ESCROW_SRC_IMPLEMENTATION = await srcFactory.getSourceImpl()
+            // The local chain runs without any RPC, so the Aptos leg is only exercised against live networks.
+            // The coordinator hands the secret to the resolver only after the Aptos escrow passed `releaseSecret`
+            if (!src.config.local) {
+                await handleCrossChainIntegration(secret, srcEscrowEvent)
+            }
 
-            const crossChainResult = await handleCrossChainIntegration(secret, srcEscrowEvent)
-            console.log('✅ Cross-chain integration completed, proceeding with Optimism withdrawal...\n')
-            console.log('crossChainResult', crossChainResult)
+            // factory view and offline computation must agree
+            const srcEscrowAddress = await srcFactory.addressOfEscrowSrc(srcEscrowEvent[0])
 
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(src.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
-            )
+            await advanceToSrcStage(src.clock, srcEscrowEvent[0].timeLocks, Sdk.SrcStage.PrivateWithdrawal)
 
-            await increaseTime(11)
-            // User shares key after validation of dst escrow deployment
+            const srcEscrow = new EscrowInspector(src.provider, srcEscrowAddress.toString(), 'src', srcEscrowEvent[0])
+            expect((await srcEscrow.inspect(src.resolver)).allowedActions).toContain('withdraw')
 
-            console.log(`[${srcChainId}]`, `Withdrawing funds for resolver from ${srcEscrowAddress}`)
+            log.info('Withdrawing funds for resolver', {escrow: srcEscrowAddress})
             const {txHash: resolverWithdrawHash} = await srcChainResolver.send(
                 resolverContract.withdraw('src', srcEscrowAddress, secret, srcEscrowEvent[0])
             )
-            console.log(
-                `[${srcChainId}]`,
-                `Withdrew funds for resolver from ${srcEscrowAddress} to ${src.resolver} in tx ${resolverWithdrawHash}`
-            )
-        })
-    })
-})
-
-async function initChain(cnf: ChainConfig): Promise<{
-    node?: CreateServerReturnType
-    provider: JsonRpcProvider
-    escrowFactory: string
-    resolver: string
-    createFork: boolean
-}> {
-    const {node, provider} = await getProvider(cnf)
-    const deployer = new SignerWallet(cnf.ownerPrivateKey, provider)
-
-    // For Optimism mainnet, deploy contracts on-the-fly
-    if (cnf.chainId === Sdk.NetworkEnum.OPTIMISM && !cnf.createFork) {
-        console.log(`[${cnf.chainId}]`, `Using real Optimism mainnet - deploying contracts on-the-fly...`)
-    }
-
-    // deploy EscrowFactory
-    const escrowFactory = await deploy(
-        factoryContract,
-        [
-            cnf.limitOrderProtocol,
-            cnf.wrappedNative, // feeToken,
-            Address.fromBigInt(0n).toString(), // accessToken,
-            deployer.address, // owner
-            60 * 30, // src rescue delay
-            60 * 30 // dst rescue delay
-        ],
-        provider,
-        deployer
-    )
-    console.log(
-        `Escrow factory contract deployed to`,
-        escrowFactory,
-        ' at chain ',
-        cnf.chainId == Sdk.NetworkEnum.OPTIMISM ? 'Optimism' : 'BSC'
-    )
-    let resolverPk = ''
-    if (cnf.chainId === Sdk.NetworkEnum.OPTIMISM) {
-        resolverPk = resolverPkForSourceChain
-        }
-    // deploy Resolver contract
-    const resolver = await deploy(
-        resolverContract,
-        [
-            escrowFactory,
-            cnf.limitOrderProtocol,
-            computeAddress(resolverPk) // resolver as owner of contract
-        ],
-        provider,
-        deployer
-    )
-    console.log(
-        `Resolver contract deployed to`,
-        resolver,
-        ' at chain ',
-        cnf.chainId == Sdk.NetworkEnum.OPTIMISM ? 'Optimism' : 'BSC'
-    )
-
-    return {node: node, provider, resolver, escrowFactory, createFork: cnf.createFork}
-}
-
-async function getProvider(cnf: ChainConfig): Promise<{node?: CreateServerReturnType; provider: JsonRpcProvider}> {
-    if (!cnf.createFork) {
-        return {
-            provider: new JsonRpcProvider(cnf.url, cnf.chainId, {
-                cacheTimeout: -1,
-                staticNetwork: true
+            log.info('Withdrew funds for resolver', {
+                escrow: srcEscrowAddress,
+                to: src.resolver,
+                txHash: resolverWithdrawHash
             })
-        }
-    }
-
-    const node = createServer({
-        instance: anvil({forkUrl: cnf.url, chainId: cnf.chainId}),
-        limit: 1
-    })
-    await node.start()
 
-    const address = node.address()
-    assert(address)
+            const srcEscrowReport = await srcEscrow.inspect(src.resolver)
+            expect(srcEscrowReport.withdrawn).toBe(true)
+            expect(srcEscrowReport.secret).toBe(secret)
+            expect(srcEscrowReport.tokenBalance).toBe(0n)
 
-    const provider = new JsonRpcProvider(`http://[${address.address}]:${address.port}/1`, cnf.chainId, {
-        cacheTimeout: -1,
-        staticNetwork: true
+            const resultBalances = await getBalance(src.config.tokens.USDC.address)
+            expect(initialBalances.user - resultBalances.user).toBe(order.makingAmount)
+        })
     })
-
-    return {
-        provider,
-        node
-    }
-}
-
-/**
- * Deploy contract and return its address
- */
-async function deploy(
-    json: {abi: any; bytecode: any},
-    params: unknown[],
-    provider: JsonRpcProvider,
-    deployer: SignerWallet
-): Promise<string> {
-    const deployed = await new ContractFactory(json.abi, json.bytecode, deployer).deploy(...params)
-    await deployed.waitForDeployment()
-
-    return await deployed.getAddress()
-}
+})
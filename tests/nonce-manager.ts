@@ -0,0 +1,109 @@
+import {isError, JsonRpcProvider} from 'ethers'
+
+export type PendingTransaction = {
+    nonce: number
+    // latest hash sent with the nonce, a replacement overwrites it
+    hash: string
+    sentAt: number
+}
+
+const managers = new WeakMap<JsonRpcProvider, Map<string, NonceManager>>()
+
+/**
+ * Hands out the nonces of one account, so its transactions can be sent without waiting for the previous ones
+ * to be mined, and tracks the ones sent but not mined yet.
+ *
+ * A nonce whose transaction the node rejected (a revert in the gas estimation, no funds) is handed out again before
+ * any new one, so no gap stops the later transactions. When the chain is ahead of the local count (nonce too low, e.g.
+ * another process sent with the key) or a transport error leaves open whether the transaction reached the node,
+ * the next nonce is read from the chain again.
+ */
+export class NonceManager {
+    private next?: number
+
+    private readonly released: number[] = []
+
+    private readonly inFlight = new Map<number, PendingTransaction>()
+
+    private lock: Promise<unknown> = Promise.resolve()
+
+    constructor(
+        private readonly provider: JsonRpcProvider,
+        public readonly address: string
+    ) {}
+
+    /**
+     * Manager of `address` on the chain of `provider`, shared by every wallet of the key
+     */
+    public static for(provider: JsonRpcProvider, address: string): NonceManager {
+        if (!managers.has(provider)) {
+            managers.set(provider, new Map())
+        }
+
+        const byAddress = managers.get(provider)!
+        const key = address.toLowerCase()
+
+        if (!byAddress.has(key)) {
+            byAddress.set(key, new NonceManager(provider, address))
+        }
+
+        return byAddress.get(key)!
+    }
+
+    public reserve(): Promise<number> {
+        return this.exclusive(async () => {
+            if (this.released.length > 0) {
+                this.released.sort((a, b) => a - b)
+
+                return this.released.shift()!
+            }
+
+            if (this.next === undefined) {
+                this.next = await this.provider.getTransactionCount(this.address, 'pending')
+            }
+
+            return this.next++
+        })
+    }
+
+    public sent(nonce: number, hash: string): void {
+        this.inFlight.set(nonce, {nonce, hash, sentAt: Date.now()})
+    }
+
+    public mined(nonce: number): void {
+        this.inFlight.delete(nonce)
+    }
+
+    /**
+     * The broadcast of a transaction with `nonce` failed
+     */
+    public failed(nonce: number, error: unknown): void {
+        if (isError(error, 'CALL_EXCEPTION') || isError(error, 'INSUFFICIENT_FUNDS')) {
+            this.released.push(nonce)
+
+            return
+        }
+
+        this.resync()
+    }
+
+    /**
+     * Read the next nonce from the chain on the next `reserve`, the pending count of the node skips neither
+     * a dropped transaction nor a released nonce
+     */
+    public resync(): void {
+        this.next = undefined
+        this.released.length = 0
+    }
+
+    public pending(): PendingTransaction[] {
+        return [...this.inFlight.values()].sort((a, b) => a.nonce - b.nonce)
+    }
+
+    private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+        const result = this.lock.then(fn)
+        this.lock = result.catch(() => undefined)
+
+        return result
+    }
+}
@@ -0,0 +1,78 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {parseEther, parseUnits, randomBytes} from 'ethers'
+import {uint8ArrayToHex, UINT_40_MAX} from '@1inch/byte-utils'
+import {Chain} from './chain'
+import {getChainConfig} from './config'
+import {OrderPermit} from './permit'
+
+const {Address} = Sdk
+
+export type TestOrderParams = {
+    maker: string
+    makerAsset: string
+    makingAmount: bigint
+    dstChainId: number
+    permit?: OrderPermit
+}
+
+/**
+ * Single-fill order of `maker` on `src` to USDC of `dstChainId`, only the resolver contract of `src` may fill it.
+ * The auction starts at the latest block of `src`.
+ */
+export async function newTestOrder(src: Chain, params: TestOrderParams): Promise<Sdk.CrossChainOrder> {
+    const srcTimestamp = BigInt((await src.provider.getBlock('latest'))!.timestamp)
+
+    return Sdk.CrossChainOrder.new(
+        new Address(src.escrowFactory),
+        {
+            salt: Sdk.randBigInt(1000n),
+            maker: new Address(params.maker),
+            makingAmount: params.makingAmount,
+            takingAmount: parseUnits('99', 18),
+            makerAsset: new Address(params.makerAsset),
+            takerAsset: new Address(getChainConfig(params.dstChainId).tokens.USDC.address)
+        },
+        {
+            hashLock: Sdk.HashLock.forSingleFill(uint8ArrayToHex(randomBytes(32))),
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }),
+            srcChainId: src.config.chainId,
+            dstChainId: params.dstChainId,
+            srcSafetyDeposit: parseEther('0.001'),
+            dstSafetyDeposit: parseEther('0.001')
+        },
+        {
+            auction: new Sdk.AuctionDetails({
+                initialRateBump: 0,
+                points: [],
+                duration: 120n,
+                startTime: srcTimestamp
+            }),
+            whitelist: [{address: new Address(src.resolver), allowFrom: 0n}],
+            resolvingStartTime: 0n
+        },
+        {
+            nonce: Sdk.randBigInt(UINT_40_MAX),
+            allowPartialFills: false,
+            allowMultipleFills: false,
+            ...params.permit
+        }
+    )
+}
+
+/**
+ * Taker traits filling the whole making amount of `order`
+ */
+export function fullFillTraits(order: Sdk.CrossChainOrder): Sdk.TakerTraits {
+    return Sdk.TakerTraits.default()
+        .setExtension(order.extension)
+        .setAmountMode(Sdk.AmountMode.maker)
+        .setAmountThreshold(order.takingAmount)
+}
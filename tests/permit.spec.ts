@@ -0,0 +1,116 @@
+import {expect, jest, describe, it, beforeAll, afterAll} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {Contract, MaxUint256, parseEther, parseUnits, toBeHex, Wallet as SignerWallet} from 'ethers'
+import {Chain, initChain} from './chain'
+import {getChainConfig} from './config'
+import {EscrowFactory} from './escrow-factory'
+import {fullFillTraits, newTestOrder} from './order-fixture'
+import {OrderPermit, PERMIT2_ADDRESS} from './permit'
+import {Resolver} from './resolver'
+import {Wallet} from './wallet'
+import tokenContract from '../dist/contracts/TokenCustomDecimalsMock.sol/TokenCustomDecimalsMock.json'
+import {bytecode as permit2Bytecode} from '../contracts/lib/cross-chain-swap/lib/solidity-utils/src/permit2.json'
+
+jest.setTimeout(1000 * 60)
+
+describe('Maker permits', () => {
+    const srcChainId = Sdk.NetworkEnum.OPTIMISM
+    const dstChainId = Sdk.NetworkEnum.BINANCE
+    const makingAmount = parseUnits('100', 6)
+
+    let src: Chain
+    let usdc: string
+    let owner: Wallet
+    let resolver: Wallet
+    let srcFactory: EscrowFactory
+    let token: Contract
+
+    beforeAll(async () => {
+        // unforked anvil, USDC is a mintable EIP-2612 token
+        src = await initChain(getChainConfig(srcChainId, {local: true}))
+        usdc = src.config.tokens.USDC.address
+        token = new Contract(usdc, tokenContract.abi, src.provider)
+
+        owner = new Wallet(src.config.ownerPrivateKey, src.provider)
+        resolver = new Wallet(src.config.resolverPrivateKey, src.provider)
+        srcFactory = new EscrowFactory(src.provider, src.escrowFactory)
+
+        await src.provider.send('anvil_setCode', [PERMIT2_ADDRESS, permit2Bytecode])
+    })
+
+    afterAll(async () => {
+        src.provider.destroy()
+        await src.node?.stop()
+    })
+
+    // a maker holding USDC and no native token
+    async function newMaker(): Promise<Wallet> {
+        const maker = new Wallet(SignerWallet.createRandom().privateKey, src.provider)
+        await owner.send({
+            to: usdc,
+            data: token.interface.encodeFunctionData('mint', [await maker.getAddress(), makingAmount])
+        })
+
+        return maker
+    }
+
+    async function fill(maker: Wallet, permit: OrderPermit): Promise<Sdk.Immutables> {
+        const order = await newTestOrder(src, {
+            maker: await maker.getAddress(),
+            makerAsset: usdc,
+            makingAmount,
+            dstChainId,
+            permit
+        })
+        const signature = await maker.signOrder(srcChainId, order)
+
+        const {blockHash} = await resolver.send(
+            new Resolver(src.resolver).deploySrc(
+                srcChainId,
+                order,
+                signature,
+                fullFillTraits(order),
+                order.makingAmount
+            )
+        )
+        const [immutables] = await srcFactory.getSrcDeployEvent(blockHash, {orderHash: order.getOrderHash(srcChainId)})
+
+        return immutables
+    }
+
+    it('fills the order of a maker who never sent a transaction with an EIP-2612 permit', async () => {
+        const maker = await newMaker()
+        const permit = await maker.signMakerPermit(usdc, src.config.limitOrderProtocol, makingAmount)
+        expect(permit.enablePermit2).toBe(false)
+        // compact `(value, deadline, r, vs)`
+        expect(permit.permit.length).toBe(2 + 100 * 2)
+
+        const immutables = await fill(maker, permit)
+        const escrow = await srcFactory.addressOfEscrowSrc(immutables)
+
+        expect(await maker.tokenBalance(usdc)).toBe(0n)
+        expect(await token.balanceOf(escrow.toString())).toBe(makingAmount)
+        expect(await src.provider.getTransactionCount(await maker.getAddress())).toBe(0)
+    })
+
+    it('fills the order through Permit2 once the maker approved Permit2', async () => {
+        const maker = await newMaker()
+        await src.provider.send('anvil_setBalance', [await maker.getAddress(), toBeHex(parseEther('1'))])
+        // one-time approval of the token to Permit2, every later order only needs a signature
+        await maker.approveToken(usdc, PERMIT2_ADDRESS, MaxUint256)
+
+        const permit = await maker.signMakerPermit(usdc, src.config.limitOrderProtocol, makingAmount, {
+            kind: 'permit2',
+            deadline: BigInt((await src.provider.getBlock('latest'))!.timestamp) + 3600n
+        })
+        expect(permit.enablePermit2).toBe(true)
+        // compact `(amount, expiration, nonce, sigDeadline, r, vs)`
+        expect(permit.permit.length).toBe(2 + 96 * 2)
+
+        await fill(maker, permit)
+
+        expect(await maker.tokenBalance(usdc)).toBe(0n)
+        expect(await src.provider.getTransactionCount(await maker.getAddress())).toBe(1)
+    })
+})
@@ -0,0 +1,152 @@
+import {Contract, JsonRpcProvider, Signature, Signer, solidityPacked} from 'ethers'
+
+// canonical Permit2 deployment, the same address on every chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3'
+
+export type PermitKind = 'eip2612' | 'permit2'
+
+export type PermitOptions = {
+    kind?: PermitKind
+    // unix seconds, the permit never expires when omitted. With Permit2 also the expiration of the allowance
+    deadline?: bigint
+    // EIP-712 domain version of an EIP-2612 token, read from the token when omitted
+    version?: string
+}
+
+/**
+ * Maker permit of an order, spread into the `extra` argument of `Sdk.CrossChainOrder.new`. The limit order
+ * protocol applies it on the first fill, before pulling the maker asset.
+ */
+export type OrderPermit = {
+    // compact permit call, the SDK prefixes it with the maker asset
+    permit: string
+    // the maker asset is pulled through Permit2 instead of `transferFrom` of the token
+    enablePermit2: boolean
+}
+
+const permitToken = new Contract('0x0000000000000000000000000000000000000000', [
+    'function name() view returns (string)',
+    'function nonces(address owner) view returns (uint256)',
+    'function version() view returns (string)',
+    'function eip712Domain() view returns (bytes1, string, string version, uint256, address, bytes32, uint256[])'
+])
+
+const permit2 = new Contract(PERMIT2_ADDRESS, [
+    'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)'
+])
+
+// compact permits carry deadlines as uint32, 0 for none and `deadline + 1` otherwise
+const MAX_COMPACT_DEADLINE = 2n ** 32n - 2n
+
+/**
+ * Sign an EIP-2612 permit of `value` for `spender` and compress it to the 100 bytes
+ * `(uint256 value, uint32 deadline, uint256 r, uint256 vs)` the limit order protocol accepts as maker permit
+ */
+export async function signPermit(
+    signer: Signer,
+    provider: JsonRpcProvider,
+    token: string,
+    spender: string,
+    value: bigint,
+    options: Omit<PermitOptions, 'kind'> = {}
+): Promise<string> {
+    const owner = await signer.getAddress()
+    const contract = permitToken.attach(token).connect(provider) as Contract
+    const [name, nonce, version, {chainId}] = await Promise.all([
+        contract.name() as Promise<string>,
+        contract.nonces(owner) as Promise<bigint>,
+        options.version ?? domainVersion(contract),
+        provider.getNetwork()
+    ])
+    const deadline = options.deadline ?? 2n ** 256n - 1n
+
+    const signature = await signer.signTypedData(
+        {name, version, chainId, verifyingContract: token},
+        {
+            Permit: [
+                {name: 'owner', type: 'address'},
+                {name: 'spender', type: 'address'},
+                {name: 'value', type: 'uint256'},
+                {name: 'nonce', type: 'uint256'},
+                {name: 'deadline', type: 'uint256'}
+            ]
+        },
+        {owner, spender, value, nonce, deadline}
+    )
+    const {r, yParityAndS: vs} = Signature.from(signature)
+
+    return solidityPacked(
+        ['uint256', 'uint32', 'bytes32', 'bytes32'],
+        [value, compactDeadline(options.deadline), r, vs]
+    )
+}
+
+/**
+ * Sign a Permit2 allowance of `amount` for `spender` and compress it to the 96 bytes
+ * `(uint160 amount, uint32 expiration, uint32 nonce, uint32 sigDeadline, uint256 r, uint256 vs)`.
+ * Permit2 only moves tokens the owner approved to it, that approval is a one-time transaction per token.
+ */
+export async function signPermit2(
+    signer: Signer,
+    provider: JsonRpcProvider,
+    token: string,
+    spender: string,
+    amount: bigint,
+    options: Pick<PermitOptions, 'deadline'> = {}
+): Promise<string> {
+    const owner = await signer.getAddress()
+    const [{nonce}, {chainId}] = await Promise.all([
+        (permit2.connect(provider) as Contract).allowance(owner, token, spender) as Promise<{nonce: bigint}>,
+        provider.getNetwork()
+    ])
+    const deadline = options.deadline ?? 2n ** 48n - 1n
+
+    const signature = await signer.signTypedData(
+        {name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS},
+        {
+            PermitSingle: [
+                {name: 'details', type: 'PermitDetails'},
+                {name: 'spender', type: 'address'},
+                {name: 'sigDeadline', type: 'uint256'}
+            ],
+            PermitDetails: [
+                {name: 'token', type: 'address'},
+                {name: 'amount', type: 'uint160'},
+                {name: 'expiration', type: 'uint48'},
+                {name: 'nonce', type: 'uint48'}
+            ]
+        },
+        {details: {token, amount, expiration: deadline, nonce}, spender, sigDeadline: deadline}
+    )
+    const {r, yParityAndS: vs} = Signature.from(signature)
+    const compact = compactDeadline(options.deadline)
+
+    return solidityPacked(
+        ['uint160', 'uint32', 'uint32', 'uint32', 'bytes32', 'bytes32'],
+        [amount, compact, nonce, compact, r, vs]
+    )
+}
+
+function compactDeadline(deadline: bigint | undefined): bigint {
+    if (deadline === undefined) {
+        return 0n
+    }
+
+    if (deadline > MAX_COMPACT_DEADLINE) {
+        throw new Error(`Permit deadline ${deadline} does not fit a compact permit, omit it for no deadline`)
+    }
+
+    return deadline + 1n
+}
+
+/**
+ * EIP-712 version of a token from its ERC-5267 domain, or its `version()` as USDC has, "1" for OpenZeppelin
+ * tokens predating ERC-5267
+ */
+async function domainVersion(token: Contract): Promise<string> {
+    try {
+        return (await token.eip712Domain()).version
+    } catch {
+        return token.version().catch(() => '1')
+    }
+}
@@ -0,0 +1,206 @@
+import {expect, describe, it, beforeAll, afterAll} from '@jest/globals'
+
+import {BaseWallet, getBytes, hexlify, parseUnits, randomBytes, Wallet as SignerWallet} from 'ethers'
+import {APTOS_CHAIN_ID, getAddressCommitment, toOrderChainId} from './address-commitment'
+import {OrderBook, Relayer, RelayerError, SubmitOrderRequest} from './relayer'
+import {sdk} from './sdk'
+
+const {Address, AuctionDetails, CrossChainOrder, HashLock, NetworkEnum, randBigInt, TimeLocks} = sdk
+
+const srcChainId = NetworkEnum.OPTIMISM
+const receiver = '0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497'
+const takerAsset = '0x1::aptos_coin::AptosCoin'
+
+async function signedOrder(
+    maker: BaseWallet,
+    options: {secret?: string; startTime?: bigint; dstChainId?: number} = {}
+): Promise<SubmitOrderRequest> {
+    const commitment = getAddressCommitment(APTOS_CHAIN_ID)
+    const startTime = options.startTime ?? BigInt(Math.floor(Date.now() / 1000))
+    const order = CrossChainOrder.new(
+        new Address('0x' + '11'.repeat(20)),
+        {
+            salt: randBigInt(1000n),
+            maker: new Address(maker.address),
+            makingAmount: parseUnits('100', 6),
+            takingAmount: parseUnits('99', 8),
+            makerAsset: new Address('0x' + '22'.repeat(20)),
+            takerAsset: new Address(commitment.commit(takerAsset)),
+            receiver: new Address(commitment.commit(receiver))
+        },
+        {
+            hashLock: HashLock.forSingleFill(options.secret ?? hexlify(randomBytes(32))),
+            timeLocks: TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }),
+            srcChainId,
+            dstChainId: toOrderChainId(options.dstChainId ?? APTOS_CHAIN_ID),
+            srcSafetyDeposit: 1n,
+            dstSafetyDeposit: 1n
+        },
+        {
+            auction: new AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime}),
+            whitelist: [{address: new Address('0x' + '33'.repeat(20)), allowFrom: 0n}],
+            resolvingStartTime: 0n
+        },
+        {nonce: randBigInt(2n ** 40n - 1n), allowPartialFills: false, allowMultipleFills: false}
+    )
+    const typedData = order.getTypedData(srcChainId)
+
+    return {
+        srcChainId,
+        order: order.build(),
+        extension: order.extension.encode(),
+        signature: await maker.signTypedData(
+            typedData.domain,
+            {Order: typedData.types[typedData.primaryType]},
+            typedData.message
+        ),
+        receiver,
+        takerAsset
+    }
+}
+
+describe('OrderBook', () => {
+    const maker = SignerWallet.createRandom()
+
+    it('accepts an order signed by its maker with matching commitments', async () => {
+        const book = new OrderBook()
+        const relayed = book.submit(await signedOrder(maker))
+
+        expect(relayed.status).toBe('open')
+        expect(relayed.dstChainId).toBe(APTOS_CHAIN_ID)
+        expect(book.getActive().map((o) => o.orderHash)).toEqual([relayed.orderHash])
+        expect(() => book.submit(relayed)).toThrow(expect.objectContaining({status: 409}))
+    })
+
+    it('rejects orders whose commitments do not match the plaintext addresses', async () => {
+        const book = new OrderBook()
+        const request = await signedOrder(maker)
+
+        expect(() => book.submit({...request, receiver: '0x' + 'ab'.repeat(32)})).toThrow(/does not match commitment/)
+        expect(() => book.submit({...request, takerAsset: '0x2::coin::Other'})).toThrow(/does not match commitment/)
+    })
+
+    it('reports client errors as 400', async () => {
+        const book = new OrderBook()
+        const request = await signedOrder(maker)
+        const status = (fn: () => unknown): number | undefined => {
+            try {
+                fn()
+            } catch (error) {
+                return error instanceof RelayerError ? error.status : undefined
+            }
+
+            return 200
+        }
+
+        expect(status(() => book.submit({...request, receiver: 'not an address'}))).toBe(400)
+        expect(status(() => book.submit({...request, takerAsset: '0x1::'}))).toBe(400)
+        expect(status(() => book.submit({...request, signature: '0x1234'}))).toBe(400)
+        // recovers some address, just not the maker
+        const foreign = SignerWallet.createRandom().signMessageSync('x')
+        expect(status(() => book.submit({...request, signature: foreign}))).toBe(400)
+        expect(status(() => book.submit({...request, extension: '0xzz'}))).toBe(400)
+    })
+
+    it('rejects orders to a destination chain without a commitment scheme', async () => {
+        const book = new OrderBook()
+        const request = await signedOrder(maker, {dstChainId: NetworkEnum.ARBITRUM})
+
+        expect(() => book.submit(request)).toThrow(expect.objectContaining({status: 400}))
+    })
+
+    it('fills an order once the maker released its secret', async () => {
+        const book = new OrderBook()
+        const secret = hexlify(randomBytes(32))
+        const {orderHash} = book.submit(await signedOrder(maker, {secret}))
+
+        expect(() => book.submitSecret(orderHash, hexlify(randomBytes(32)))).toThrow(/does not match hash/)
+
+        const filled = book.submitSecret(orderHash, secret)
+        expect(filled.status).toBe('filled')
+        expect(filled.secrets).toEqual([secret])
+        expect(book.getActive()).toEqual([])
+    })
+
+    it('cancels an order with the maker signature of the order hash bytes', async () => {
+        const book = new OrderBook()
+        const {orderHash} = book.submit(await signedOrder(maker))
+
+        // a signature of the hex text is not a signature of the hash
+        expect(() => book.cancel(orderHash, maker.signMessageSync(orderHash))).toThrow(
+            expect.objectContaining({status: 403})
+        )
+        expect(() => book.cancel(orderHash, SignerWallet.createRandom().signMessageSync(getBytes(orderHash)))).toThrow(
+            expect.objectContaining({status: 403})
+        )
+        expect(() => book.cancel(orderHash, '0x00')).toThrow(expect.objectContaining({status: 400}))
+
+        expect(book.cancel(orderHash, maker.signMessageSync(getBytes(orderHash))).status).toBe('cancelled')
+        expect(() => book.submitSecret(orderHash, hexlify(randomBytes(32)))).toThrow(/is cancelled/)
+    })
+
+    it('expires orders past their deadline', async () => {
+        const book = new OrderBook()
+        const {orderHash} = book.submit(await signedOrder(maker, {startTime: 1_000_000n}))
+
+        expect(book.get(orderHash).status).toBe('expired')
+        expect(book.getActive()).toEqual([])
+        expect(() => book.cancel(orderHash, maker.signMessageSync(getBytes(orderHash)))).toThrow(/is expired/)
+    })
+})
+
+describe('Relayer', () => {
+    const relayer = new Relayer()
+    let url: string
+
+    beforeAll(async () => {
+        url = await relayer.listen()
+    })
+
+    afterAll(async () => {
+        await relayer.close()
+    })
+
+    async function post(path: string, body: unknown): Promise<{status: number; body: {orderHash?: string}}> {
+        const res = await fetch(url + path, {method: 'POST', body: JSON.stringify(body)})
+
+        return {status: res.status, body: (await res.json()) as {orderHash?: string}}
+    }
+
+    // bigints as decimal strings, like a client sends them
+    function asJson(request: SubmitOrderRequest): Record<string, unknown> {
+        return JSON.parse(JSON.stringify(request, (_, v) => (typeof v === 'bigint' ? v.toString() : v)))
+    }
+
+    it('serves submitted orders and answers bad requests with 400', async () => {
+        const json = asJson(await signedOrder(SignerWallet.createRandom()))
+
+        expect((await post('/orders', {...json, receiver: 'not an address'})).status).toBe(400)
+
+        const submitted = await post('/orders', json)
+        expect(submitted.status).toBe(200)
+
+        const res = await fetch(`${url}/orders/${submitted.body.orderHash}`)
+        expect(res.status).toBe(200)
+        expect(((await res.json()) as {status: string}).status).toBe('open')
+        expect((await fetch(`${url}/orders/0x1234`)).status).toBe(404)
+    })
+
+    it('answers a secret release without a valid secret with 400', async () => {
+        const {body} = await post('/orders', asJson(await signedOrder(SignerWallet.createRandom())))
+        const release = async (secret: unknown): Promise<number> =>
+            (await post(`/orders/${body.orderHash}/secrets`, secret)).status
+
+        expect(await release({})).toBe(400)
+        expect(await release({secret: '0x1234'})).toBe(400)
+        expect(await release({secret: hexlify(randomBytes(32)), index: -1})).toBe(400)
+    })
+})
@@ -0,0 +1,339 @@
+import type {CrossChainOrder, LimitOrderV4Struct} from '@1inch/cross-chain-sdk'
+import {getBytes, isHexString, verifyMessage, verifyTypedData} from 'ethers'
+import {createServer, IncomingMessage, Server, ServerResponse} from 'node:http'
+import {AddressInfo} from 'node:net'
+import {AddressFormatError} from './address-codec'
+import {AddressCommitment, fromOrderChainId, getAddressCommitment} from './address-commitment'
+import {sdk} from './sdk'
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'expired'
+
+/**
+ * Body of `POST /orders`: the signed order as built by the SDK plus the plaintext destination addresses
+ * the order's `receiver` and `takerAsset` commit to
+ */
+export type SubmitOrderRequest = {
+    srcChainId: number
+    order: LimitOrderV4Struct
+    extension: string
+    signature: string
+    receiver: string
+    takerAsset: string
+    // keccak256 of every secret, required for orders with multiple fills
+    secretHashes?: string[]
+}
+
+export type RelayedOrder = SubmitOrderRequest & {
+    orderHash: string
+    dstChainId: number
+    deadline: bigint
+    status: OrderStatus
+    // released by the maker, index `i` is the secret of `secretHashes[i]`
+    secrets: (string | undefined)[]
+}
+
+export class RelayerError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message)
+        this.name = 'RelayerError'
+    }
+}
+
+/**
+ * Order book of the relayer: keeps signed orders together with the real non-EVM receiver and asset,
+ * which are checked against the commitments in the order before it is accepted.
+ *
+ * Order and cancellation signatures are recovered as EOA signatures, orders of contract makers
+ * (EIP-1271) are rejected: verifying those needs a call to the maker contract on the source chain
+ */
+export class OrderBook {
+    private readonly orders = new Map<string, RelayedOrder>()
+
+    public submit(request: SubmitOrderRequest): RelayedOrder {
+        const order = this.decode(request)
+        const orderHash = order.getOrderHash(request.srcChainId)
+
+        if (this.orders.has(orderHash)) {
+            throw new RelayerError(409, `Order ${orderHash} already submitted`)
+        }
+
+        const signer = this.recoverSigner(order, request)
+
+        if (!order.maker.equal(new sdk.Address(signer))) {
+            throw new RelayerError(400, `Order ${orderHash} is not signed by its maker ${order.maker}`)
+        }
+
+        const commitment = this.commitmentOf(order)
+
+        if (!this.commits(commitment, request.receiver, order.receiver.toString())) {
+            throw new RelayerError(400, `Receiver ${request.receiver} does not match commitment ${order.receiver}`)
+        }
+
+        if (!this.commits(commitment, request.takerAsset, order.takerAsset.toString())) {
+            throw new RelayerError(
+                400,
+                `Taker asset ${request.takerAsset} does not match commitment ${order.takerAsset}`
+            )
+        }
+
+        const secretHashes = this.checkSecretHashes(order, request.secretHashes)
+        const relayed: RelayedOrder = {
+            ...request,
+            secretHashes,
+            orderHash,
+            dstChainId: fromOrderChainId(order.dstChainId),
+            deadline: order.deadline,
+            status: 'open',
+            secrets: secretHashes.map(() => undefined)
+        }
+
+        this.orders.set(orderHash, relayed)
+
+        return relayed
+    }
+
+    public get(orderHash: string): RelayedOrder {
+        const order = this.orders.get(orderHash.toLowerCase())
+
+        if (!order) {
+            throw new RelayerError(404, `Unknown order ${orderHash}`)
+        }
+
+        return this.withExpiry(order)
+    }
+
+    /**
+     * Orders resolvers can still fill
+     */
+    public getActive(): RelayedOrder[] {
+        return [...this.orders.values()].map((o) => this.withExpiry(o)).filter((o) => o.status === 'open')
+    }
+
+    /**
+     * Called by the maker once the escrows on both chains are verified, the order is filled when all secrets are out
+     */
+    public submitSecret(orderHash: string, secret: string, index = 0): RelayedOrder {
+        // the request body is not validated on the way in
+        if (!isHexString(secret, 32)) {
+            throw new RelayerError(400, 'Expected the secret as 0x-prefixed 32 byte hex')
+        }
+
+        if (!Number.isSafeInteger(index) || index < 0) {
+            throw new RelayerError(400, `Invalid secret index ${index}`)
+        }
+
+        const order = this.get(orderHash)
+
+        if (order.status !== 'open') {
+            throw new RelayerError(409, `Order ${orderHash} is ${order.status}`)
+        }
+
+        const secretHash = order.secretHashes![index]
+
+        if (secretHash === undefined) {
+            throw new RelayerError(400, `Order ${orderHash} has no secret with index ${index}`)
+        }
+
+        if (sdk.HashLock.hashSecret(secret) !== secretHash.toLowerCase()) {
+            throw new RelayerError(400, `Secret does not match hash ${secretHash}`)
+        }
+
+        order.secrets[index] = secret
+
+        if (order.secrets.every((s) => s !== undefined)) {
+            order.status = 'filled'
+        }
+
+        return order
+    }
+
+    /**
+     * @param signature maker's EIP-191 signature of the order hash bytes, made with the maker's own key
+     */
+    public cancel(orderHash: string, signature: string): RelayedOrder {
+        const order = this.get(orderHash)
+
+        if (order.status !== 'open') {
+            throw new RelayerError(409, `Order ${orderHash} is ${order.status}`)
+        }
+
+        if (this.recoverMessageSigner(order.orderHash, signature) !== order.order.maker.toLowerCase()) {
+            throw new RelayerError(403, `Cancellation of ${orderHash} is not signed by the maker`)
+        }
+
+        order.status = 'cancelled'
+
+        return order
+    }
+
+    private decode(request: SubmitOrderRequest): CrossChainOrder {
+        try {
+            return sdk.CrossChainOrder.fromDataAndExtension(request.order, sdk.Extension.decode(request.extension))
+        } catch (error) {
+            throw new RelayerError(400, `Malformed order: ${(error as Error).message}`)
+        }
+    }
+
+    private recoverSigner(order: CrossChainOrder, request: SubmitOrderRequest): string {
+        const typedData = order.getTypedData(request.srcChainId)
+
+        try {
+            return verifyTypedData(
+                typedData.domain,
+                {Order: typedData.types[typedData.primaryType]},
+                typedData.message,
+                request.signature
+            )
+        } catch (error) {
+            throw new RelayerError(400, `Malformed order signature: ${(error as Error).message}`)
+        }
+    }
+
+    // EIP-191 signature of the 32 bytes of the order hash, not of its hex text
+    private recoverMessageSigner(orderHash: string, signature: string): string {
+        try {
+            return verifyMessage(getBytes(orderHash), signature).toLowerCase()
+        } catch (error) {
+            throw new RelayerError(400, `Malformed cancellation signature: ${(error as Error).message}`)
+        }
+    }
+
+    private commitmentOf(order: CrossChainOrder): AddressCommitment {
+        try {
+            return getAddressCommitment(fromOrderChainId(order.dstChainId))
+        } catch (error) {
+            throw new RelayerError(400, (error as Error).message)
+        }
+    }
+
+    /**
+     * Whether `commitment` was made for `address`, a malformed address is a client error
+     */
+    private commits(commitment: AddressCommitment, address: string, value: string): boolean {
+        try {
+            return commitment.verify(address, value)
+        } catch (error) {
+            if (error instanceof AddressFormatError) {
+                throw new RelayerError(400, error.message)
+            }
+
+            throw error
+        }
+    }
+
+    private checkSecretHashes(order: CrossChainOrder, secretHashes?: string[]): string[] {
+        const hashLock = order.escrowExtension.hashLockInfo
+
+        if (!order.multipleFillsAllowed) {
+            return [hashLock.toString()]
+        }
+
+        const leaves = sdk.HashLock.getMerkleLeavesFromSecretHashes(secretHashes ?? [])
+
+        if (!secretHashes?.length || !sdk.HashLock.forMultipleFills(leaves).eq(hashLock)) {
+            throw new RelayerError(400, 'Secret hashes do not match the hash lock of a multiple fill order')
+        }
+
+        return secretHashes.map((h) => h.toLowerCase())
+    }
+
+    private withExpiry(order: RelayedOrder): RelayedOrder {
+        if (order.status === 'open' && BigInt(Math.floor(Date.now() / 1000)) > order.deadline) {
+            order.status = 'expired'
+        }
+
+        return order
+    }
+}
+
+/**
+ * Minimal HTTP front of `OrderBook`:
+ *
+ * - `POST /orders` submit a `SubmitOrderRequest`
+ * - `GET /orders/active` orders resolvers can fill
+ * - `GET /orders/:hash` order with its status and released secrets
+ * - `POST /orders/:hash/secrets` `{secret, index?}` released by the maker
+ * - `POST /orders/:hash/cancel` `{signature}` maker's signature of the order hash
+ */
+export class Relayer {
+    public readonly book = new OrderBook()
+
+    private readonly server: Server = createServer((req, res) => this.handle(req, res))
+
+    public async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(port, host, resolve))
+        const address = this.server.address() as AddressInfo
+
+        return `http://${host}:${address.port}`
+    }
+
+    public async close(): Promise<void> {
+        await new Promise<void>((resolve, reject) => this.server.close((err) => (err ? reject(err) : resolve())))
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        try {
+            const body = await this.route(req.method ?? 'GET', req.url ?? '/', req)
+            this.send(res, 200, body)
+        } catch (error) {
+            const status = error instanceof RelayerError ? error.status : 500
+            this.send(res, status, {error: (error as Error).message})
+        }
+    }
+
+    private async route(method: string, url: string, req: IncomingMessage): Promise<unknown> {
+        const [, resource, orderHash, action] = new URL(url, 'http://relayer').pathname.split('/')
+
+        if (resource !== 'orders') {
+            throw new RelayerError(404, `Unknown path ${url}`)
+        }
+
+        if (method === 'POST' && orderHash === undefined) {
+            return this.book.submit(await readJson<SubmitOrderRequest>(req))
+        }
+
+        if (method === 'GET' && orderHash === 'active') {
+            return this.book.getActive()
+        }
+
+        if (method === 'GET' && orderHash && action === undefined) {
+            return this.book.get(orderHash)
+        }
+
+        if (method === 'POST' && orderHash && action === 'secrets') {
+            const {secret, index} = await readJson<{secret: string; index?: number}>(req)
+
+            return this.book.submitSecret(orderHash, secret, index)
+        }
+
+        if (method === 'POST' && orderHash && action === 'cancel') {
+            const {signature} = await readJson<{signature: string}>(req)
+
+            return this.book.cancel(orderHash, signature)
+        }
+
+        throw new RelayerError(404, `Unknown route ${method} ${url}`)
+    }
+
+    private send(res: ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, {'content-type': 'application/json'})
+        res.end(JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value)))
+    }
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+    const chunks: Buffer[] = []
+
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer)
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T
+    } catch {
+        throw new RelayerError(400, 'Request body is not valid JSON')
+    }
+}
@@ -1,13 +1,14 @@
 import {Interface, Signature, TransactionRequest} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
 import Contract from '../dist/contracts/Resolver.sol/Resolver.json'
+import EscrowSrcContract from '../dist/contracts/EscrowSrc.sol/EscrowSrc.json'
 
 export class Resolver {
     private readonly iface = new Interface(Contract.abi)
 
-    constructor(
-        public readonly srcAddress: string
-    ) {}
+    private readonly escrowIface = new Interface(EscrowSrcContract.abi)
+
+    constructor(public readonly srcAddress: string) {}
 
     public deploySrc(
         chainId: number,
@@ -36,6 +37,49 @@ export class Resolver {
         }
     }
 
+    /**
+     * Fill an order of a contract maker, e.g. a smart-contract wallet, the limit order protocol checks `signature`
+     * with EIP-1271 `isValidSignature` of the maker
+     *
+     * @param signature as produced by the signing scheme of the maker, see `ContractWallet.signOrder`
+     */
+    public deploySrcContractOrder(
+        chainId: number,
+        order: Sdk.CrossChainOrder,
+        signature: string,
+        takerTraits: Sdk.TakerTraits,
+        amount: bigint,
+        hashLock = order.escrowExtension.hashLockInfo
+    ): TransactionRequest {
+        const {args, trait} = takerTraits.encode()
+        const immutables = order.toSrcImmutables(chainId, new Sdk.Address(this.srcAddress), amount, hashLock)
+
+        return {
+            to: this.srcAddress,
+            data: this.iface.encodeFunctionData('deploySrcContractOrder', [
+                immutables.build(),
+                order.build(),
+                signature,
+                amount,
+                trait,
+                args
+            ]),
+            value: order.escrowExtension.srcSafetyDeposit
+        }
+    }
+
+    /**
+     * @param immutables destination escrow immutables, taker is the resolver contract
+     * @param srcCancellationTimestamp start of private cancellation of the source escrow
+     */
+    public deployDst(immutables: Sdk.Immutables, srcCancellationTimestamp: bigint): TransactionRequest {
+        return {
+            to: this.srcAddress,
+            data: this.iface.encodeFunctionData('deployDst', [immutables.build(), srcCancellationTimestamp]),
+            value: immutables.token.isNative() ? immutables.safetyDeposit + immutables.amount : immutables.safetyDeposit
+        }
+    }
+
     public withdraw(
         side: 'src' | 'dst',
         escrow: Sdk.Address,
@@ -50,8 +94,34 @@ export class Resolver {
 
     public cancel(side: 'src' | 'dst', escrow: Sdk.Address, immutables: Sdk.Immutables): TransactionRequest {
         return {
-            to:  this.srcAddress ,
+            to: this.srcAddress,
             data: this.iface.encodeFunctionData('cancel', [escrow.toString(), immutables.build()])
         }
     }
+
+    /**
+     * `publicWithdraw` of a source escrow through `arbitraryCalls`, the resolver contract must hold the access token
+     */
+    public publicWithdraw(escrow: Sdk.Address, secret: string, immutables: Sdk.Immutables): TransactionRequest {
+        return {
+            to: this.srcAddress,
+            data: this.iface.encodeFunctionData('arbitraryCalls', [
+                [escrow.toString()],
+                [this.escrowIface.encodeFunctionData('publicWithdraw', [secret, immutables.build()])]
+            ])
+        }
+    }
+
+    /**
+     * `publicCancel` of a source escrow through `arbitraryCalls`, so the safety deposit goes to the resolver contract
+     */
+    public publicCancel(escrow: Sdk.Address, immutables: Sdk.Immutables): TransactionRequest {
+        return {
+            to: this.srcAddress,
+            data: this.iface.encodeFunctionData('arbitraryCalls', [
+                [escrow.toString()],
+                [this.escrowIface.encodeFunctionData('publicCancel', [immutables.build()])]
+            ])
+        }
+    }
 }
@@ -0,0 +1,66 @@
+import {expect, describe, it} from '@jest/globals'
+
+import {makeError} from 'ethers'
+import {classifyError, defaultRetryPolicy, RetryableError, retryDelay, RetryExhaustedError, RetryPolicy} from './retry'
+import {TransactionRevertedError} from './revert-decoder'
+
+describe('classifyError', () => {
+    it('retries transport failures, rate limits and nonce races', () => {
+        const retryable = [
+            new RetryableError('logs not indexed yet'),
+            makeError('request timeout', 'TIMEOUT'),
+            makeError('network error', 'NETWORK_ERROR'),
+            makeError('bad response', 'SERVER_ERROR'),
+            makeError('nonce has already been used', 'NONCE_EXPIRED'),
+            makeError('replacement fee too low', 'REPLACEMENT_UNDERPRICED'),
+            new Error('fetch failed'),
+            new Error('connect ECONNREFUSED 127.0.0.1:8545'),
+            {error: {code: -32005, message: 'daily request count exceeded, request rate limited'}},
+            new Error('429 Too Many Requests'),
+            {status: 503, message: 'Service Unavailable'},
+            {data: {error_code: 'mempool_is_full'}},
+            {transaction: {vm_status: 'SEQUENCE_NUMBER_TOO_OLD'}}
+        ]
+
+        for (const error of retryable) {
+            expect([error, classifyError(error)]).toEqual([error, 'retryable'])
+        }
+    })
+
+    it('fails reverts, Move aborts and unknown errors at once', () => {
+        const fatal = [
+            new TransactionRevertedError('0x' + '00'.repeat(32), undefined, undefined),
+            makeError('execution reverted', 'CALL_EXCEPTION'),
+            // an inner retry gave up, retrying it again from outside multiplies the attempts
+            new RetryExhaustedError('Get block', 5, makeError('request timeout', 'TIMEOUT')),
+            // revert data wins over a retryable looking message
+            {message: 'request timed out', info: {error: {data: '0x08c379a0' + '00'.repeat(32)}}},
+            makeError('insufficient funds for intrinsic transaction cost', 'INSUFFICIENT_FUNDS'),
+            {status: 400, message: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE'},
+            new Error('something unexpected'),
+            'a string'
+        ]
+
+        for (const error of fatal) {
+            expect([error, classifyError(error)]).toEqual([error, 'fatal'])
+        }
+    })
+})
+
+describe('retryDelay', () => {
+    const policy: RetryPolicy = {...defaultRetryPolicy, initialDelayMs: 100, maxDelayMs: 1000, multiplier: 3}
+
+    it('grows exponentially up to the maximum delay', () => {
+        const noJitter = {...policy, jitter: 0}
+
+        expect([1, 2, 3, 4].map((retry) => retryDelay(noJitter, retry))).toEqual([100, 300, 900, 1000])
+    })
+
+    it('takes at most the jitter share off the delay', () => {
+        const jittered = {...policy, jitter: 0.5}
+
+        expect(retryDelay(jittered, 2, () => 0)).toBe(300)
+        expect(retryDelay(jittered, 2, () => 1)).toBe(150)
+        expect(retryDelay(jittered, 5, () => 0.5)).toBe(750)
+    })
+})
@@ -0,0 +1,164 @@
+import {Logger, logger} from './logger'
+import {revertData, TransactionRevertedError} from './revert-decoder'
+
+export type RetryPolicy = {
+    // tries in total, the first one included
+    attempts: number
+    // delay before the first retry, multiplied by `multiplier` for every following one, ms
+    initialDelayMs: number
+    maxDelayMs: number
+    multiplier: number
+    // share of every delay that is randomized, 0 waits the exact delay, 1 anything between 0 and the delay
+    jitter: number
+    // no retry is started later than this after the first try, ms
+    deadlineMs?: number
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+    attempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 10_000,
+    multiplier: 2,
+    jitter: 0.2,
+    deadlineMs: 60_000
+}
+
+export type ErrorClass = 'retryable' | 'fatal'
+
+/**
+ * Thrown by an operation to have it retried, e.g. when an RPC has not indexed the logs of a new block yet
+ */
+export class RetryableError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'RetryableError'
+    }
+}
+
+export class RetryExhaustedError extends Error {
+    constructor(
+        public readonly label: string,
+        public readonly attempts: number,
+        public readonly lastError: Error
+    ) {
+        super(`${label} failed after ${attempts} attempts: ${lastError.message}`)
+        this.name = 'RetryExhaustedError'
+    }
+}
+
+const retryableCodes = new Set(['TIMEOUT', 'NETWORK_ERROR', 'SERVER_ERROR', 'NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED'])
+
+const retryableMessages = [
+    // transport
+    /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|fetch failed|bad gateway|service unavailable/i,
+    // rate limits, `-32005` is the JSON-RPC limit exceeded code
+    /rate limit|too many requests|\b429\b|-32005/i,
+    // the nonce is taken, by another transaction or by our own accepted one, which `Wallet` finds by its hash
+    /nonce too low|nonce has already been used|replacement transaction underpriced|already known/i,
+    // Aptos sequence number races and a full mempool
+    /sequence_number_too_(old|new)|mempool_is_full|mempool is full/i
+]
+
+/**
+ * Transport failures, rate limits, nonce and sequence number races are retryable. Reverts, Move aborts
+ * and anything not recognized are fatal, retrying a transaction for an unknown reason could send it twice.
+ * An exhausted inner retry is fatal as well, its message repeats the retryable last error
+ */
+export function classifyError(error: unknown): ErrorClass {
+    if (error instanceof RetryableError) {
+        return 'retryable'
+    }
+
+    if (error instanceof RetryExhaustedError) {
+        return 'fatal'
+    }
+
+    // a revert is decided by the state of the contracts and fails the same way when sent again
+    if (error instanceof TransactionRevertedError || revertData(error) || field(error, 'code') === 'CALL_EXCEPTION') {
+        return 'fatal'
+    }
+
+    const code = field(error, 'code')
+
+    if (typeof code === 'string' && retryableCodes.has(code)) {
+        return 'retryable'
+    }
+
+    // Aptos API errors carry the HTTP status
+    const status = field(error, 'status')
+
+    if (typeof status === 'number' && (status === 429 || status >= 500)) {
+        return 'retryable'
+    }
+
+    const text = errorText(error)
+
+    return retryableMessages.some((pattern) => pattern.test(text)) ? 'retryable' : 'fatal'
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first one), with exponential backoff and jitter
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, random = Math.random): number {
+    const delay = Math.min(policy.initialDelayMs * policy.multiplier ** (retry - 1), policy.maxDelayMs)
+
+    return Math.round(delay * (1 - policy.jitter * random()))
+}
+
+/**
+ * Run `operation` until it succeeds, fails with a fatal error or the policy is exhausted
+ *
+ * @param label what the operation does, for logs and errors
+ * @throws the error of the operation when it is fatal, `RetryExhaustedError` when every attempt failed
+ */
+export async function withRetry<T>(
+    label: string,
+    operation: (attempt: number) => Promise<T>,
+    options: {policy?: RetryPolicy; classify?: (error: unknown) => ErrorClass; log?: Logger} = {}
+): Promise<T> {
+    const {policy = defaultRetryPolicy, classify = classifyError, log = logger} = options
+    const startedAt = Date.now()
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt)
+        } catch (error) {
+            if (classify(error) === 'fatal') {
+                throw error
+            }
+
+            const delay = retryDelay(policy, attempt)
+            const pastDeadline = policy.deadlineMs !== undefined && Date.now() + delay - startedAt > policy.deadlineMs
+
+            if (attempt >= policy.attempts || pastDeadline) {
+                throw new RetryExhaustedError(label, attempt, error as Error)
+            }
+
+            log.warn(`${label} failed, retrying`, {attempt, attempts: policy.attempts, delayMs: delay, error})
+            await new Promise((resolve) => setTimeout(resolve, delay))
+        }
+    }
+}
+
+function field(value: unknown, ...path: string[]): unknown {
+    return path.reduce<unknown>(
+        (current, key) =>
+            typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined,
+        value
+    )
+}
+
+function errorText(error: unknown): string {
+    const parts = [
+        error instanceof Error ? error.message : String(error),
+        field(error, 'shortMessage'),
+        field(error, 'data', 'message'),
+        field(error, 'data', 'error_code'),
+        field(error, 'data', 'vm_error_code'),
+        field(error, 'transaction', 'vm_status'),
+        field(error, 'error', 'message'),
+        field(error, 'info', 'error', 'message')
+    ]
+
+    return parts.filter((part) => part !== undefined).join(' ')
+}
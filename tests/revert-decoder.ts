@@ -0,0 +1,150 @@
+import {ErrorFragment, Interface, InterfaceAbi, JsonRpcProvider, TransactionReceipt, TransactionRequest} from 'ethers'
+import EscrowFactoryContract from '../dist/contracts/EscrowFactory.sol/EscrowFactory.json'
+import EscrowSrcContract from '../dist/contracts/EscrowSrc.sol/EscrowSrc.json'
+import LimitOrderProtocolContract from '../dist/contracts/LimitOrderProtocol.sol/LimitOrderProtocol.json'
+import ResolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
+
+export type DecodedRevert = {
+    name: string
+    // e.g. `InvalidSecret()`
+    signature: string
+    args: unknown[]
+}
+
+// ERC-6093 errors of OpenZeppelin tokens and the `SafeERC20` errors of 1inch solidity-utils
+const erc20Errors = [
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InvalidSender(address sender)',
+    'error ERC20InvalidReceiver(address receiver)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    'error ERC20InvalidApprover(address approver)',
+    'error ERC20InvalidSpender(address spender)',
+    'error SafeTransferFailed()',
+    'error SafeTransferFromFailed()',
+    'error ForceApproveFailed()'
+]
+
+// `require(cond, "reason")` and failed assertions, arithmetic overflows
+const builtinErrors = ['error Error(string message)', 'error Panic(uint256 code)']
+
+/**
+ * Errors of `Resolver`, the escrows (`IBaseEscrow`), the escrow factory, the limit order protocol and ERC20 tokens,
+ * one fragment per selector
+ */
+const registry = new Interface(
+    uniqueErrors([
+        ResolverContract.abi,
+        EscrowSrcContract.abi,
+        EscrowFactoryContract.abi,
+        LimitOrderProtocolContract.abi,
+        erc20Errors,
+        builtinErrors
+    ])
+)
+
+function uniqueErrors(abis: InterfaceAbi[]): ErrorFragment[] {
+    const bySelector = new Map<string, ErrorFragment>()
+
+    for (const fragment of abis.flatMap((abi) => new Interface(abi).fragments)) {
+        if (ErrorFragment.isFragment(fragment) && !bySelector.has(fragment.selector)) {
+            bySelector.set(fragment.selector, fragment)
+        }
+    }
+
+    return [...bySelector.values()]
+}
+
+export class TransactionRevertedError extends Error {
+    constructor(
+        // undefined when the transaction reverted in simulation, before it was sent
+        public readonly txHash: string | undefined,
+        public readonly revert: DecodedRevert | undefined,
+        // raw revert data, `0x` when the revert carried none
+        public readonly data: string | undefined
+    ) {
+        super(
+            `${txHash ? `Transaction ${txHash}` : 'Transaction simulation'} reverted` +
+                (revert ? ` with ${revert.name}(${revert.args.map(String).join(', ')})` : '') +
+                (!revert && data && data !== '0x' ? ` with unknown error data ${data}` : '')
+        )
+        this.name = 'TransactionRevertedError'
+    }
+}
+
+/**
+ * Decode revert data against the registry of known errors
+ */
+export function decodeRevert(data: string): DecodedRevert | undefined {
+    try {
+        const decoded = registry.parseError(data)
+
+        return decoded ? {name: decoded.name, signature: decoded.signature, args: [...decoded.args]} : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Revert data carried by an ethers error, as thrown by `call` or `estimateGas`
+ */
+export function revertData(error: unknown): string | undefined {
+    const candidates = [error, field(error, 'info', 'error'), field(error, 'error')]
+
+    for (const candidate of candidates) {
+        const data = field(candidate, 'data')
+
+        if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) {
+            return data
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Typed error of a reverted simulation, `error` itself when it is not a revert
+ */
+export function toRevertError(error: unknown, txHash?: string): unknown {
+    if (error instanceof TransactionRevertedError || field(error, 'code') !== 'CALL_EXCEPTION') {
+        return error
+    }
+
+    const data = revertData(error)
+
+    return new TransactionRevertedError(txHash, data ? decodeRevert(data) : undefined, data)
+}
+
+/**
+ * Simulate a reverted transaction again at the block it was mined in to get its revert data, receipts carry none
+ */
+export async function explainRevert(
+    provider: JsonRpcProvider,
+    tx: TransactionRequest,
+    receipt: TransactionReceipt
+): Promise<TransactionRevertedError> {
+    try {
+        await provider.call({
+            from: tx.from,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            gasLimit: tx.gasLimit,
+            blockTag: receipt.blockNumber
+        })
+    } catch (error) {
+        const data = revertData(error)
+
+        return new TransactionRevertedError(receipt.hash, data ? decodeRevert(data) : undefined, data)
+    }
+
+    // the state the transaction saw is gone, e.g. a later transaction of the block changed it
+    return new TransactionRevertedError(receipt.hash, undefined, undefined)
+}
+
+function field(value: unknown, ...path: string[]): unknown {
+    return path.reduce<unknown>(
+        (current, key) =>
+            typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined,
+        value
+    )
+}
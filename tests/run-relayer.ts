@@ -0,0 +1,17 @@
+import {Relayer} from './relayer'
+
+/**
+ * Start a local relayer, usage: RELAYER_PORT=8080 npm run relayer
+ */
+async function main(): Promise<void> {
+    const relayer = new Relayer()
+    const url = await relayer.listen(Number(process.env.RELAYER_PORT ?? 8080))
+
+    console.log(`Relayer listening on ${url}`)
+
+    process.on('SIGINT', () => {
+        relayer.close().then(() => process.exit(0))
+    })
+}
+
+main()
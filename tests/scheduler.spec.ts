@@ -0,0 +1,143 @@
+import {expect, describe, it} from '@jest/globals'
+
+import {Clock} from './clock'
+import {JobExpiredError, ScheduledJob, TimelockScheduler} from './scheduler'
+
+// chain clock which jumps to any timestamp it is asked to wait for
+class ManualClock implements Clock {
+    constructor(public time: bigint) {}
+
+    public async now(): Promise<bigint> {
+        return this.time
+    }
+
+    public async advanceTo(timestamp: bigint): Promise<void> {
+        this.time = timestamp > this.time ? timestamp : this.time
+    }
+
+    public async advance(seconds: bigint): Promise<void> {
+        this.time += seconds
+    }
+}
+
+class BrokenClock extends ManualClock {
+    public async now(): Promise<bigint> {
+        throw new Error('RPC down')
+    }
+}
+
+describe('TimelockScheduler', () => {
+    function schedulerOf(clocks: Record<number, Clock>): TimelockScheduler {
+        return new TimelockScheduler((chainId) => clocks[chainId])
+    }
+
+    // job recording its id in `ran` when it runs
+    function job(
+        ran: string[],
+        id: string,
+        chainId: number,
+        notBefore: bigint,
+        extra: Partial<ScheduledJob> = {}
+    ): ScheduledJob {
+        return {
+            id,
+            chainId,
+            notBefore,
+            run: async (): Promise<ScheduledJob[]> => {
+                ran.push(id)
+
+                return []
+            },
+            ...extra
+        }
+    }
+
+    it('runs jobs in the order their own chain clocks reach them', async () => {
+        const ran: string[] = []
+        // chain 2 is 4000s ahead of chain 1
+        const scheduler = schedulerOf({1: new ManualClock(1000n), 2: new ManualClock(5000n)})
+
+        scheduler.schedule(job(ran, 'src', 1, 1100n), job(ran, 'dst', 2, 5050n), job(ran, 'late', 2, 6000n))
+
+        expect(await scheduler.run()).toEqual([])
+        expect(ran).toEqual(['dst', 'src', 'late'])
+    })
+
+    it('runs the follow-ups of a job and replaces jobs scheduled again under the same id', async () => {
+        const ran: string[] = []
+        const clock = new ManualClock(1000n)
+        const scheduler = schedulerOf({1: clock})
+
+        scheduler.schedule(
+            job(ran, 'withdraw', 1, 1010n, {
+                run: async () => {
+                    ran.push('withdraw')
+
+                    return [job(ran, 'cancel', 1, 1100n)]
+                }
+            }),
+            job(ran, 'stale', 1, 1005n),
+            job(ran, 'stale', 1, 1200n)
+        )
+
+        expect(await scheduler.run()).toEqual([])
+        expect(ran).toEqual(['withdraw', 'cancel', 'stale'])
+        expect(clock.time).toBe(1200n)
+    })
+
+    it('hands expired jobs and failed runs to recover, and reports the rest', async () => {
+        const ran: string[] = []
+        const recovered: Error[] = []
+        const scheduler = schedulerOf({1: new ManualClock(2000n)})
+        const failing = job(ran, 'failing', 1, 2000n, {
+            run: async () => {
+                throw new Error('reverted')
+            }
+        })
+
+        scheduler.schedule(
+            job(ran, 'expired', 1, 1000n, {
+                notAfter: 1500n,
+                recover: async (error) => {
+                    recovered.push(error)
+
+                    return [job(ran, 'refund', 1, 2100n)]
+                }
+            }),
+            failing,
+            job(ran, 'ok', 1, 2200n)
+        )
+
+        const failures = await scheduler.run()
+
+        expect(recovered).toEqual([expect.any(JobExpiredError)])
+        expect(ran).toEqual(['refund', 'ok'])
+        expect(failures).toEqual([{job: failing, error: new Error('reverted')}])
+    })
+
+    it('reports a failed recovery', async () => {
+        const scheduler = schedulerOf({1: new ManualClock(1000n)})
+        const expired = job([], 'expired', 1, 0n, {
+            notAfter: 500n,
+            recover: async () => {
+                throw new Error('cancel failed')
+            }
+        })
+
+        scheduler.schedule(expired)
+
+        expect(await scheduler.run()).toEqual([{job: expired, error: new Error('cancel failed')}])
+    })
+
+    it('fails only the jobs of a chain whose clock can not be read', async () => {
+        const ran: string[] = []
+        const scheduler = schedulerOf({1: new BrokenClock(0n), 2: new ManualClock(1000n)})
+        const broken = job(ran, 'broken', 1, 0n)
+
+        scheduler.schedule(broken, job(ran, 'healthy', 2, 1010n))
+
+        expect(await scheduler.run()).toEqual([{job: broken, error: new Error('RPC down')}])
+        expect(ran).toEqual(['healthy'])
+        expect(scheduler.pending()).toEqual([])
+    })
+})
@@ -0,0 +1,119 @@
+import {Clock} from './clock'
+
+/**
+ * Action that becomes valid at a timelock stage of one chain
+ */
+export type ScheduledJob = {
+    // scheduling a job with the same id again replaces it
+    id: string
+    chainId: number
+    // chain timestamp from which the action is valid, seconds
+    notBefore: bigint
+    // chain timestamp from which it is not anymore, e.g. the cancellation start for a withdrawal
+    notAfter?: bigint
+    // resolves with the jobs that follow it
+    run(): Promise<ScheduledJob[]>
+    // called with the error of `run`, or a `JobExpiredError`, instead of reporting a failure
+    recover?(error: Error): Promise<ScheduledJob[]>
+}
+
+export type JobFailure = {
+    job: ScheduledJob
+    error: Error
+}
+
+export class JobExpiredError extends Error {
+    constructor(
+        public readonly job: ScheduledJob,
+        public readonly now: bigint
+    ) {
+        super(`Job ${job.id} was only reached at ${now} on chain ${job.chainId}, it expired at ${job.notAfter}`)
+        this.name = 'JobExpiredError'
+    }
+}
+
+/**
+ * Runs jobs in the order their chains reach them. Time is always read from the chain clock of the job,
+ * so the local clock and the skew between chains do not matter.
+ */
+export class TimelockScheduler {
+    private readonly jobs = new Map<string, ScheduledJob>()
+
+    constructor(private readonly clockOf: (chainId: number) => Clock) {}
+
+    public schedule(...jobs: ScheduledJob[]): void {
+        jobs.forEach((job) => this.jobs.set(job.id, job))
+    }
+
+    public pending(): ScheduledJob[] {
+        return [...this.jobs.values()]
+    }
+
+    /**
+     * Run until no job is left, scheduling the follow-ups of every job that ran
+     *
+     * @returns jobs that failed without recovering, the other jobs are unaffected by them, also when the clock
+     * of their chain can not be read
+     */
+    public async run(): Promise<JobFailure[]> {
+        const failures: JobFailure[] = []
+
+        while (this.jobs.size > 0) {
+            const {job, clockError} = await this.next()
+            this.jobs.delete(job.id)
+
+            try {
+                if (clockError) {
+                    throw clockError
+                }
+
+                const clock = this.clockOf(job.chainId)
+                await clock.advanceTo(job.notBefore)
+                const now = await clock.now()
+
+                if (job.notAfter !== undefined && now >= job.notAfter) {
+                    throw new JobExpiredError(job, now)
+                }
+
+                this.schedule(...(await job.run()))
+            } catch (error) {
+                if (!job.recover) {
+                    failures.push({job, error: error as Error})
+                    continue
+                }
+
+                try {
+                    this.schedule(...(await job.recover(error as Error)))
+                } catch (recoveryError) {
+                    failures.push({job, error: recoveryError as Error})
+                }
+            }
+        }
+
+        return failures
+    }
+
+    // the job with the least time left on its own chain clock, or the first one whose clock fails
+    private async next(): Promise<{job: ScheduledJob; clockError?: Error}> {
+        const now = new Map<number, bigint>()
+        let next: {job: ScheduledJob; dueIn: bigint} | undefined
+
+        for (const job of this.jobs.values()) {
+            try {
+                if (!now.has(job.chainId)) {
+                    now.set(job.chainId, await this.clockOf(job.chainId).now())
+                }
+            } catch (error) {
+                return {job, clockError: error as Error}
+            }
+
+            const dueIn = job.notBefore - now.get(job.chainId)!
+
+            if (!next || dueIn < next.dueIn) {
+                next = {job, dueIn}
+            }
+        }
+
+        return {job: next!.job}
+    }
+}
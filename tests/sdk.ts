@@ -0,0 +1,8 @@
+import * as SdkModule from '@1inch/cross-chain-sdk'
+
+/**
+ * Runtime exports of the SDK under both loaders of the repo: jest in ESM mode only sees the default export of its
+ * transformed build, tsx only the named exports of the CJS build. Modules run by `tsx` scripts take SDK values from
+ * here, types still come from `@1inch/cross-chain-sdk`.
+ */
+export const sdk: typeof SdkModule = (SdkModule as {default?: typeof SdkModule}).default ?? SdkModule
@@ -0,0 +1,111 @@
+import {expect, describe, it} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify, randomBytes} from 'ethers'
+import {APTOS_CHAIN_ID, getAddressCommitment} from './address-commitment'
+import {DstEscrowDetails, DstEscrowRequest} from './chain-adapter'
+import {checkDstEscrow} from './secret-release'
+
+const {Address} = Sdk
+
+const deployedAt = 1_000_000n
+const srcCancellation = deployedAt + 121n
+const receiver = '0x8b48e313cf5275cf04f33d07245ec6c386f44316a6b2edd1a8ae645f2a349497'
+const takerAsset = '0x1::aptos_coin::AptosCoin'
+
+function request(dstChainId: number, maker: string, token: string): DstEscrowRequest {
+    const commitment = dstChainId === APTOS_CHAIN_ID ? getAddressCommitment(APTOS_CHAIN_ID) : undefined
+
+    return {
+        srcChainId: Sdk.NetworkEnum.OPTIMISM,
+        dstChainId,
+        srcImmutables: Sdk.Immutables.new({
+            orderHash: hexlify(randomBytes(32)),
+            hashLock: Sdk.HashLock.forSingleFill(hexlify(randomBytes(32))),
+            maker: new Address('0x' + '11'.repeat(20)),
+            taker: new Address('0x' + '22'.repeat(20)),
+            token: new Address('0x' + '33'.repeat(20)),
+            amount: 100n,
+            safetyDeposit: 1n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }).setDeployedAt(deployedAt)
+        }),
+        complement: Sdk.DstImmutablesComplement.new({
+            maker: new Address(commitment ? commitment.commit(maker) : maker),
+            amount: 99n,
+            token: new Address(commitment ? commitment.commit(token) : token),
+            safetyDeposit: 2n
+        }),
+        ...(commitment ? {receiver: maker, takerAsset: token} : {})
+    }
+}
+
+function matching(req: DstEscrowRequest, maker: string, token: string): DstEscrowDetails {
+    return {
+        hashLock: req.srcImmutables.hashLock.toString(),
+        amount: req.complement.amount,
+        token,
+        receiver: maker,
+        safetyDeposit: req.complement.safetyDeposit,
+        withdrawalStart: deployedAt + 10n,
+        cancellationStart: srcCancellation - 1n
+    }
+}
+
+describe('checkDstEscrow', () => {
+    const evmMaker = '0x' + 'aa'.repeat(20)
+    const evmToken = '0x' + 'bb'.repeat(20)
+
+    it('accepts an escrow matching the order, comparing EVM addresses case-insensitively', () => {
+        const req = request(Sdk.NetworkEnum.BINANCE, evmMaker, evmToken)
+
+        expect(checkDstEscrow(req, matching(req, '0x' + 'AA'.repeat(20), evmToken))).toEqual([])
+        expect(checkDstEscrow(req, {...matching(req, evmMaker, evmToken), amount: 1000n})).toEqual([])
+    })
+
+    it('reports every field which does not match', () => {
+        const req = request(Sdk.NetworkEnum.BINANCE, evmMaker, evmToken)
+        const details: DstEscrowDetails = {
+            hashLock: hexlify(randomBytes(32)),
+            amount: req.complement.amount - 1n,
+            token: '0x' + 'cc'.repeat(20),
+            receiver: '0x' + 'dd'.repeat(20),
+            safetyDeposit: req.complement.safetyDeposit - 1n,
+            withdrawalStart: deployedAt + 10n,
+            cancellationStart: srcCancellation
+        }
+
+        expect(checkDstEscrow(req, details).map((m) => m.check)).toEqual([
+            'hashLock',
+            'amount',
+            'token',
+            'receiver',
+            'safetyDeposit',
+            'cancellation'
+        ])
+    })
+
+    it('skips the safety deposit on chains without one', () => {
+        const req = request(Sdk.NetworkEnum.BINANCE, evmMaker, evmToken)
+
+        expect(checkDstEscrow(req, {...matching(req, evmMaker, evmToken), safetyDeposit: undefined})).toEqual([])
+    })
+
+    it('checks plaintext receivers and assets against the commitments of the order', () => {
+        const req = request(APTOS_CHAIN_ID, receiver, takerAsset)
+
+        expect(checkDstEscrow(req, matching(req, receiver, takerAsset))).toEqual([])
+        // the short form of the same address commits to the same bytes
+        expect(checkDstEscrow(req, matching(req, receiver, '0x00001::aptos_coin::AptosCoin'))).toEqual([])
+        expect(
+            checkDstEscrow(req, matching(req, '0x' + 'ab'.repeat(32), '0x2::coin::Other')).map((m) => m.check)
+        ).toEqual(['token', 'receiver'])
+    })
+})
@@ -0,0 +1,101 @@
+import {getAddressCommitment} from './address-commitment'
+import {ChainAdapter, DstEscrow, DstEscrowDetails, DstEscrowRequest} from './chain-adapter'
+
+export type SecretReleaseCheck =
+    'status' | 'hashLock' | 'amount' | 'token' | 'receiver' | 'safetyDeposit' | 'cancellation'
+
+export type SecretReleaseMismatch = {
+    check: SecretReleaseCheck
+    expected: string
+    actual: string
+}
+
+export class SecretReleaseError extends Error {
+    constructor(
+        public readonly escrow: DstEscrow,
+        public readonly mismatches: SecretReleaseMismatch[]
+    ) {
+        super(
+            `Secret withheld, destination escrow ${escrow.address ?? escrow.txHash} does not match the order: ` +
+                mismatches.map((m) => `${m.check} expected ${m.expected}, got ${m.actual}`).join('; ')
+        )
+        this.name = 'SecretReleaseError'
+    }
+}
+
+/**
+ * Compare a destination escrow read back from its chain with what the source escrow requires.
+ *
+ * Non-EVM receivers and tokens (the request carries their plaintext) are checked against the commitments
+ * in the complement, EVM ones against the complement addresses directly
+ */
+export function checkDstEscrow(request: DstEscrowRequest, details: DstEscrowDetails): SecretReleaseMismatch[] {
+    const {srcImmutables, complement} = request
+    const mismatches: SecretReleaseMismatch[] = []
+    const commitment = request.receiver ? getAddressCommitment(request.dstChainId) : undefined
+    const sameAddress = (actual: string, expected: string): boolean =>
+        commitment ? commitment.verify(actual, expected) : actual.toLowerCase() === expected.toLowerCase()
+
+    if (details.hashLock.toLowerCase() !== srcImmutables.hashLock.toString().toLowerCase()) {
+        mismatches.push({check: 'hashLock', expected: srcImmutables.hashLock.toString(), actual: details.hashLock})
+    }
+
+    if (details.amount < complement.amount) {
+        mismatches.push({check: 'amount', expected: `>= ${complement.amount}`, actual: details.amount.toString()})
+    }
+
+    if (!sameAddress(details.token, complement.token.toString())) {
+        mismatches.push({check: 'token', expected: complement.token.toString(), actual: details.token})
+    }
+
+    if (!sameAddress(details.receiver, complement.maker.toString())) {
+        mismatches.push({check: 'receiver', expected: complement.maker.toString(), actual: details.receiver})
+    }
+
+    if (details.safetyDeposit !== undefined && details.safetyDeposit < complement.safetyDeposit) {
+        mismatches.push({
+            check: 'safetyDeposit',
+            expected: `>= ${complement.safetyDeposit}`,
+            actual: details.safetyDeposit.toString()
+        })
+    }
+
+    // otherwise the resolver could cancel the source escrow while the destination one is still locked
+    const srcCancellation = srcImmutables.timeLocks.toSrcTimeLocks().privateCancellation
+
+    if (details.cancellationStart >= srcCancellation) {
+        mismatches.push({
+            check: 'cancellation',
+            expected: `< ${srcCancellation}`,
+            actual: details.cancellationStart.toString()
+        })
+    }
+
+    return mismatches
+}
+
+/**
+ * Gate between the destination escrow deployment and the maker sharing the secret: `secret` is only returned
+ * when the escrow is still active and every check of `checkDstEscrow` passes
+ *
+ * @throws SecretReleaseError
+ */
+export async function releaseSecret(
+    adapter: ChainAdapter,
+    request: DstEscrowRequest,
+    escrow: DstEscrow,
+    secret: string
+): Promise<string> {
+    const [state, details] = await Promise.all([adapter.getEscrowState(escrow), adapter.readDstEscrow(escrow)])
+    const mismatches = checkDstEscrow(request, details)
+
+    if (state.status !== 'active') {
+        mismatches.unshift({check: 'status', expected: 'active', actual: state.status})
+    }
+
+    if (mismatches.length > 0) {
+        throw new SecretReleaseError(escrow, mismatches)
+    }
+
+    return secret
+}
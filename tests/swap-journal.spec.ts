@@ -0,0 +1,123 @@
+import {expect, describe, it, beforeEach, afterEach} from '@jest/globals'
+
+import {hexlify, randomBytes} from 'ethers'
+import {mkdtempSync, rmSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {isFinal, SwapJournal, SwapRecord, SwapState, SwapTransitionError} from './swap-journal'
+
+const happyPath = [
+    SwapState.SRC_DEPLOYED,
+    SwapState.DST_DEPLOYED,
+    SwapState.SECRET_REVEALED,
+    SwapState.DST_WITHDRAWN,
+    SwapState.SRC_WITHDRAWN
+]
+
+// every allowed step, all the others must be rejected
+const allowed: [SwapState, SwapState][] = [
+    [SwapState.ORDER_SIGNED, SwapState.SRC_DEPLOYED],
+    [SwapState.SRC_DEPLOYED, SwapState.DST_DEPLOYED],
+    [SwapState.SRC_DEPLOYED, SwapState.REFUNDED],
+    [SwapState.DST_DEPLOYED, SwapState.SECRET_REVEALED],
+    [SwapState.DST_DEPLOYED, SwapState.CANCELLED],
+    [SwapState.DST_DEPLOYED, SwapState.REFUNDED],
+    [SwapState.SECRET_REVEALED, SwapState.DST_WITHDRAWN],
+    [SwapState.DST_WITHDRAWN, SwapState.SRC_WITHDRAWN],
+    [SwapState.CANCELLED, SwapState.REFUNDED]
+]
+
+// shortest way from ORDER_SIGNED to every state
+const pathTo: Record<SwapState, SwapState[]> = {
+    [SwapState.ORDER_SIGNED]: [],
+    [SwapState.SRC_DEPLOYED]: happyPath.slice(0, 1),
+    [SwapState.DST_DEPLOYED]: happyPath.slice(0, 2),
+    [SwapState.SECRET_REVEALED]: happyPath.slice(0, 3),
+    [SwapState.DST_WITHDRAWN]: happyPath.slice(0, 4),
+    [SwapState.SRC_WITHDRAWN]: happyPath,
+    [SwapState.CANCELLED]: [...happyPath.slice(0, 2), SwapState.CANCELLED],
+    [SwapState.REFUNDED]: [...happyPath.slice(0, 1), SwapState.REFUNDED]
+}
+
+describe('SwapJournal', () => {
+    let dir: string
+    let journal: SwapJournal
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'swap-journal-'))
+        journal = new SwapJournal(join(dir, 'swaps.json'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, {recursive: true, force: true})
+    })
+
+    function newSwap(state = SwapState.ORDER_SIGNED): SwapRecord {
+        const {id} = journal.create({
+            id: hexlify(randomBytes(32)),
+            srcChainId: 10,
+            dstChainId: 56,
+            secret: hexlify(randomBytes(32)),
+            order: {data: {} as SwapRecord['order']['data'], extension: '0x', signature: '0x'},
+            destination: {}
+        })
+
+        for (const to of pathTo[state]) {
+            journal.transition(id, to)
+        }
+
+        return journal.get(id)
+    }
+
+    it('walks the happy path and records its history', () => {
+        const {id} = newSwap()
+
+        for (const to of happyPath) {
+            journal.transition(id, to)
+        }
+
+        // read back from disk, order hashes in any case
+        const record = new SwapJournal(journal.path).get(id.toUpperCase().replace('0X', '0x'))
+        expect(record.state).toBe(SwapState.SRC_WITHDRAWN)
+        expect(record.history.map((h) => h.state)).toEqual([SwapState.ORDER_SIGNED, ...happyPath])
+        expect(isFinal(record.state)).toBe(true)
+    })
+
+    it('only allows the transitions of the table', () => {
+        const states = Object.values(SwapState)
+
+        for (const from of states) {
+            for (const to of states) {
+                const {id} = newSwap(from)
+                const isAllowed = allowed.some(([a, b]) => a === from && b === to)
+
+                if (isAllowed) {
+                    expect(journal.transition(id, to).state).toBe(to)
+                } else {
+                    expect(() => journal.transition(id, to)).toThrow(SwapTransitionError)
+                    expect(journal.get(id).state).toBe(from)
+                }
+            }
+        }
+    })
+
+    it('only ends in SRC_WITHDRAWN and REFUNDED', () => {
+        expect(Object.values(SwapState).filter(isFinal)).toEqual([SwapState.SRC_WITHDRAWN, SwapState.REFUNDED])
+    })
+
+    it('settles the pending send on the next transition', () => {
+        const {id} = newSwap(SwapState.SRC_DEPLOYED)
+
+        const updated = journal.update(id, {pending: {action: 'createDst', cursor: '100', txHash: '0x01'}})
+        expect(updated.state).toBe(SwapState.SRC_DEPLOYED)
+        expect(journal.get(id).pending).toEqual({action: 'createDst', cursor: '100', txHash: '0x01'})
+
+        expect(journal.transition(id, SwapState.DST_DEPLOYED).pending).toBeUndefined()
+    })
+
+    it('refuses to create a swap twice', () => {
+        const record = newSwap()
+
+        expect(() => journal.create(record)).toThrow(/already exists/)
+    })
+})
@@ -0,0 +1,236 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'node:fs'
+import {DstEscrow} from './chain-adapter'
+
+/**
+ * Happy path: ORDER_SIGNED -> SRC_DEPLOYED -> DST_DEPLOYED -> SECRET_REVEALED -> DST_WITHDRAWN -> SRC_WITHDRAWN
+ *
+ * CANCELLED: the destination escrow was cancelled and the resolver got its funds back,
+ * REFUNDED: the source escrow was cancelled and the maker got its funds back
+ */
+export enum SwapState {
+    ORDER_SIGNED = 'ORDER_SIGNED',
+    SRC_DEPLOYED = 'SRC_DEPLOYED',
+    DST_DEPLOYED = 'DST_DEPLOYED',
+    SECRET_REVEALED = 'SECRET_REVEALED',
+    DST_WITHDRAWN = 'DST_WITHDRAWN',
+    SRC_WITHDRAWN = 'SRC_WITHDRAWN',
+    CANCELLED = 'CANCELLED',
+    REFUNDED = 'REFUNDED'
+}
+
+const transitions: Record<SwapState, SwapState[]> = {
+    [SwapState.ORDER_SIGNED]: [SwapState.SRC_DEPLOYED],
+    [SwapState.SRC_DEPLOYED]: [SwapState.DST_DEPLOYED, SwapState.REFUNDED],
+    // straight to REFUNDED when the destination escrow could not be cancelled, see `refund.dstError`
+    [SwapState.DST_DEPLOYED]: [SwapState.SECRET_REVEALED, SwapState.CANCELLED, SwapState.REFUNDED],
+    [SwapState.SECRET_REVEALED]: [SwapState.DST_WITHDRAWN],
+    [SwapState.DST_WITHDRAWN]: [SwapState.SRC_WITHDRAWN],
+    [SwapState.SRC_WITHDRAWN]: [],
+    [SwapState.CANCELLED]: [SwapState.REFUNDED],
+    [SwapState.REFUNDED]: []
+}
+
+/**
+ * JSON form of everything needed to continue a swap, bigints as decimal strings and SDK objects encoded
+ */
+export type SwapRecord = {
+    // order hash
+    id: string
+    state: SwapState
+    srcChainId: number
+    dstChainId: number
+    secret: string
+    order: {data: Sdk.LimitOrderV4Struct; extension: string; signature: string}
+    // plaintext destination addresses for orders committing to non-EVM ones
+    destination: {receiver?: string; takerAsset?: string}
+    src?: {
+        txHash: string
+        escrow: string
+        // `Immutables.encode()` with `deployedAt` set
+        immutables: string
+        complement: {maker: string; amount: string; token: string; safetyDeposit: string}
+    }
+    dst?: {
+        chainId: number
+        txHash: string
+        address?: string
+        createdAt: string
+        immutables?: string
+        // `TimeLocks.build()` as a decimal string
+        timeLocks?: string
+    }
+    withdrawals: {dst?: string; src?: string}
+    refund?: SwapRefund
+    // escrow creation sent in the current state, journalled before it is sent and cleared by the next transition
+    pending?: PendingSend
+    history: {state: SwapState; at: string}[]
+}
+
+export type PendingSend = {
+    action: 'deploySrc' | 'createDst'
+    // block number, or account sequence number on Aptos, before the transaction was sent
+    cursor: string
+    // set once the node accepted the transaction
+    txHash?: string
+}
+
+export type SwapRefund = {
+    // why the swap was abandoned
+    reason: string
+    dst?: string
+    dstError?: string
+    src?: string
+    // `cancel` by the resolver from `srcCancellation`, `publicCancel` from `srcPublicCancellation`
+    method?: 'cancel' | 'publicCancel'
+}
+
+export class SwapTransitionError extends Error {
+    constructor(
+        public readonly swapId: string,
+        public readonly from: SwapState,
+        public readonly to: SwapState
+    ) {
+        super(`Swap ${swapId} cannot go from ${from} to ${to}`)
+        this.name = 'SwapTransitionError'
+    }
+}
+
+/**
+ * Swaps journalled to a JSON file, rewritten atomically on every transition so a crash leaves
+ * either the previous or the next confirmed state on disk
+ */
+export class SwapJournal {
+    constructor(public readonly path: string) {}
+
+    public list(): SwapRecord[] {
+        return Object.values(this.read())
+    }
+
+    public get(id: string): SwapRecord {
+        const record = this.read()[id.toLowerCase()]
+
+        if (!record) {
+            throw new Error(`Unknown swap ${id}`)
+        }
+
+        return record
+    }
+
+    public create(record: Omit<SwapRecord, 'state' | 'history' | 'withdrawals' | 'refund' | 'pending'>): SwapRecord {
+        const swaps = this.read()
+        const id = record.id.toLowerCase()
+
+        if (swaps[id]) {
+            throw new Error(`Swap ${id} already exists in state ${swaps[id].state}`)
+        }
+
+        swaps[id] = {
+            ...record,
+            id,
+            state: SwapState.ORDER_SIGNED,
+            withdrawals: {},
+            history: [{state: SwapState.ORDER_SIGNED, at: new Date().toISOString()}]
+        }
+        this.write(swaps)
+
+        return swaps[id]
+    }
+
+    /**
+     * Move the swap to `to` and merge `patch` into it, only called once the step is confirmed on chain,
+     * which settles its `pending` send
+     */
+    public transition(id: string, to: SwapState, patch: Partial<SwapRecord> = {}): SwapRecord {
+        const swaps = this.read()
+        const record = this.get(id)
+
+        if (!transitions[record.state].includes(to)) {
+            throw new SwapTransitionError(record.id, record.state, to)
+        }
+
+        swaps[record.id] = {
+            ...record,
+            pending: undefined,
+            ...patch,
+            state: to,
+            history: [...record.history, {state: to, at: new Date().toISOString()}]
+        }
+        this.write(swaps)
+
+        return swaps[record.id]
+    }
+
+    /**
+     * Merge `patch` into the swap without changing its state
+     */
+    public update(id: string, patch: Partial<Omit<SwapRecord, 'id' | 'state' | 'history'>>): SwapRecord {
+        const swaps = this.read()
+        const record = this.get(id)
+
+        swaps[record.id] = {...record, ...patch}
+        this.write(swaps)
+
+        return swaps[record.id]
+    }
+
+    private read(): Record<string, SwapRecord> {
+        if (!existsSync(this.path)) {
+            return {}
+        }
+
+        return JSON.parse(readFileSync(this.path, 'utf8'))
+    }
+
+    private write(swaps: Record<string, SwapRecord>): void {
+        const tmp = `${this.path}.tmp`
+        writeFileSync(tmp, JSON.stringify(swaps, null, 4) + '\n')
+        renameSync(tmp, this.path)
+    }
+}
+
+export function isFinal(state: SwapState): boolean {
+    return transitions[state].length === 0
+}
+
+export function encodeSrcEscrow(
+    txHash: string,
+    escrow: string,
+    [immutables, complement]: [Sdk.Immutables, Sdk.DstImmutablesComplement]
+): NonNullable<SwapRecord['src']> {
+    return {txHash, escrow, immutables: immutables.encode(), complement: complement.toJSON()}
+}
+
+export function decodeSrcEscrow(src: NonNullable<SwapRecord['src']>): [Sdk.Immutables, Sdk.DstImmutablesComplement] {
+    return [
+        Sdk.Immutables.decode(src.immutables),
+        Sdk.DstImmutablesComplement.new({
+            maker: new Sdk.Address(src.complement.maker),
+            amount: BigInt(src.complement.amount),
+            token: new Sdk.Address(src.complement.token),
+            safetyDeposit: BigInt(src.complement.safetyDeposit)
+        })
+    ]
+}
+
+export function encodeDstEscrow(escrow: DstEscrow): NonNullable<SwapRecord['dst']> {
+    return {
+        chainId: escrow.chainId,
+        txHash: escrow.txHash,
+        address: escrow.address,
+        createdAt: escrow.createdAt.toString(),
+        immutables: escrow.immutables?.encode(),
+        timeLocks: escrow.timeLocks?.build().toString()
+    }
+}
+
+export function decodeDstEscrow(dst: NonNullable<SwapRecord['dst']>): DstEscrow {
+    return {
+        chainId: dst.chainId,
+        txHash: dst.txHash,
+        address: dst.address,
+        createdAt: BigInt(dst.createdAt),
+        immutables: dst.immutables ? Sdk.Immutables.decode(dst.immutables) : undefined,
+        timeLocks: dst.timeLocks ? Sdk.TimeLocks.fromBigInt(BigInt(dst.timeLocks)) : undefined
+    }
+}
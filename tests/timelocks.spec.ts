@@ -0,0 +1,107 @@
+import {expect, jest, describe, it, beforeAll, afterAll} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {CreateServerReturnType} from 'prool'
+import {Contract, JsonRpcProvider, Wallet as SignerWallet} from 'ethers'
+import {deploy, getProvider} from './chain'
+import {getChainConfig, LOCAL_CHAIN_ID} from './config'
+import {Timelocks, TimelockStage} from './timelocks'
+import harnessContract from '../dist/contracts/TimelocksHarness.sol/TimelocksHarness.json'
+
+jest.setTimeout(1000 * 60)
+
+const stages = [
+    TimelockStage.SrcWithdrawal,
+    TimelockStage.SrcPublicWithdrawal,
+    TimelockStage.SrcCancellation,
+    TimelockStage.SrcPublicCancellation,
+    TimelockStage.DstWithdrawal,
+    TimelockStage.DstPublicWithdrawal,
+    TimelockStage.DstCancellation
+]
+
+describe('Timelocks', () => {
+    const timelocks = new Timelocks({
+        srcWithdrawal: 10n,
+        srcPublicWithdrawal: 120n,
+        srcCancellation: 121n,
+        srcPublicCancellation: 122n,
+        dstWithdrawal: 10n,
+        dstPublicWithdrawal: 100n,
+        dstCancellation: 101n
+    })
+    // every slot set, including bits which would be lost by a wrong mask or shift
+    const edgeTimelocks = new Timelocks(
+        {
+            srcWithdrawal: 0xffffffffn,
+            srcPublicWithdrawal: 1n,
+            srcCancellation: 0x80000000n,
+            srcPublicCancellation: 0n,
+            dstWithdrawal: 0x7fffffffn,
+            dstPublicWithdrawal: 0xfffffffen,
+            dstCancellation: 0x12345678n
+        },
+        0xffffffffn
+    )
+
+    let node: CreateServerReturnType | undefined
+    let provider: JsonRpcProvider
+    let harness: Contract
+
+    beforeAll(async () => {
+        const cnf = getChainConfig(LOCAL_CHAIN_ID)
+        ;({node, provider} = await getProvider(cnf))
+
+        const deployer = new SignerWallet(cnf.ownerPrivateKey, provider)
+        harness = new Contract(await deploy(harnessContract, [], provider, deployer), harnessContract.abi, provider)
+    })
+
+    afterAll(async () => {
+        provider.destroy()
+        await node?.stop()
+    })
+
+    it('should round-trip through encode and decode', () => {
+        for (const value of [timelocks, timelocks.withDeployedAt(1_700_000_000n), edgeTimelocks]) {
+            expect(Timelocks.decode(value.encode())).toEqual(value)
+        }
+    })
+
+    it('should match the SDK layout', () => {
+        const sdkTimelocks = Sdk.TimeLocks.new(timelocks.delays).setDeployedAt(1_700_000_000n)
+
+        expect(timelocks.withDeployedAt(1_700_000_000n).encode()).toBe(sdkTimelocks.build())
+        expect(Timelocks.fromSdk(sdkTimelocks)).toEqual(timelocks.withDeployedAt(1_700_000_000n))
+    })
+
+    it('should reject delays which do not fit into uint32', () => {
+        expect(() => new Timelocks({...timelocks.delays, dstCancellation: 1n << 32n})).toThrow('dstCancellation')
+        expect(() => timelocks.withDeployedAt(-1n)).toThrow('deployedAt')
+    })
+
+    it('should set deployedAt like TimelocksLib', async () => {
+        for (const value of [timelocks, edgeTimelocks]) {
+            for (const deployedAt of [0n, 1_700_000_000n, 0xffffffffn]) {
+                expect(await harness.setDeployedAt(value.encode(), deployedAt)).toBe(
+                    value.withDeployedAt(deployedAt).encode()
+                )
+            }
+        }
+    })
+
+    it('should return stage timestamps like TimelocksLib', async () => {
+        for (const value of [timelocks.withDeployedAt(1_700_000_000n), edgeTimelocks]) {
+            for (const stage of stages) {
+                expect(await harness.get(value.encode(), stage)).toBe(value.get(stage))
+            }
+        }
+    })
+
+    it('should return rescueStart like TimelocksLib', async () => {
+        const value = timelocks.withDeployedAt(1_700_000_000n)
+
+        for (const rescueDelay of [0n, 1800n, 0xffffffffn]) {
+            expect(await harness.rescueStart(value.encode(), rescueDelay)).toBe(value.rescueStart(rescueDelay))
+        }
+    })
+})
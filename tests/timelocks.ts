@@ -0,0 +1,109 @@
+import Sdk from '@1inch/cross-chain-sdk'
+
+/**
+ * Same order as `TimelocksLib.Stage`, the value is the index of the stage's 32 bit slot
+ */
+export enum TimelockStage {
+    SrcWithdrawal,
+    SrcPublicWithdrawal,
+    SrcCancellation,
+    SrcPublicCancellation,
+    DstWithdrawal,
+    DstPublicWithdrawal,
+    DstCancellation
+}
+
+/**
+ * Seconds from the escrow deployment to the start of each stage
+ */
+export type TimelockDelays = {
+    srcWithdrawal: bigint
+    srcPublicWithdrawal: bigint
+    srcCancellation: bigint
+    srcPublicCancellation: bigint
+    dstWithdrawal: bigint
+    dstPublicWithdrawal: bigint
+    dstCancellation: bigint
+}
+
+const UINT_32_MAX = 0xffffffffn
+const DEPLOYED_AT_OFFSET = 224n
+
+const stageKeys: Record<TimelockStage, keyof TimelockDelays> = {
+    [TimelockStage.SrcWithdrawal]: 'srcWithdrawal',
+    [TimelockStage.SrcPublicWithdrawal]: 'srcPublicWithdrawal',
+    [TimelockStage.SrcCancellation]: 'srcCancellation',
+    [TimelockStage.SrcPublicCancellation]: 'srcPublicCancellation',
+    [TimelockStage.DstWithdrawal]: 'dstWithdrawal',
+    [TimelockStage.DstPublicWithdrawal]: 'dstPublicWithdrawal',
+    [TimelockStage.DstCancellation]: 'dstCancellation'
+}
+
+/**
+ * TS counterpart of `TimelocksLib.sol`: seven 32 bit stage delays from the lowest bits up,
+ * `deployedAt` in the top 32 bits.
+ *
+ * Unlike `Sdk.TimeLocks` it does not require the stages to be ordered, so any on-chain value can be decoded.
+ */
+export class Timelocks {
+    constructor(
+        public readonly delays: TimelockDelays,
+        public readonly deployedAt = 0n
+    ) {
+        for (const [key, value] of Object.entries(delays)) {
+            if (value < 0n || value > UINT_32_MAX) {
+                throw new Error(`Timelock ${key} does not fit into uint32: ${value}`)
+            }
+        }
+
+        if (deployedAt < 0n || deployedAt > UINT_32_MAX) {
+            throw new Error(`Timelocks deployedAt does not fit into uint32: ${deployedAt}`)
+        }
+    }
+
+    static decode(value: bigint): Timelocks {
+        const slot = (i: bigint): bigint => (value >> (i * 32n)) & UINT_32_MAX
+
+        const delays = Object.fromEntries(
+            Object.entries(stageKeys).map(([stage, key]) => [key, slot(BigInt(stage))])
+        ) as TimelockDelays
+
+        return new Timelocks(delays, value >> DEPLOYED_AT_OFFSET)
+    }
+
+    static fromSdk(timeLocks: Sdk.TimeLocks): Timelocks {
+        return Timelocks.decode(timeLocks.build())
+    }
+
+    public encode(): bigint {
+        return Object.entries(stageKeys).reduce(
+            (acc, [stage, key]) => acc | (this.delays[key] << (BigInt(stage) * 32n)),
+            this.deployedAt << DEPLOYED_AT_OFFSET
+        )
+    }
+
+    public toSdk(): Sdk.TimeLocks {
+        return Sdk.TimeLocks.fromBigInt(this.encode())
+    }
+
+    /**
+     * Same as `TimelocksLib.setDeployedAt`, the factory sets it to the escrow creation block timestamp
+     */
+    public withDeployedAt(deployedAt: bigint): Timelocks {
+        return new Timelocks(this.delays, deployedAt)
+    }
+
+    /**
+     * Absolute timestamp at which `stage` starts, same as `TimelocksLib.get`
+     */
+    public get(stage: TimelockStage): bigint {
+        return this.deployedAt + this.delays[stageKeys[stage]]
+    }
+
+    /**
+     * Timestamp from which funds can be rescued, same as `TimelocksLib.rescueStart`
+     */
+    public rescueStart(rescueDelay: bigint): bigint {
+        return this.deployedAt + rescueDelay
+    }
+}
@@ -0,0 +1,222 @@
+import {expect, jest, describe, it, beforeAll, afterAll} from '@jest/globals'
+
+import Sdk from '@1inch/cross-chain-sdk'
+import {Contract, Interface, makeError, parseEther, toBeHex, Wallet as SignerWallet} from 'ethers'
+import {Chain, initChain} from './chain'
+import {getChainConfig} from './config'
+import {bumpFees, suggestFees} from './fees'
+import {NonceManager} from './nonce-manager'
+import {decodeRevert, TransactionRevertedError} from './revert-decoder'
+import {Wallet, WalletOptions} from './wallet'
+import tokenContract from '../dist/contracts/TokenCustomDecimalsMock.sol/TokenCustomDecimalsMock.json'
+
+jest.setTimeout(1000 * 60)
+
+const fastRetries: WalletOptions['retryPolicy'] = {
+    attempts: 3,
+    initialDelayMs: 10,
+    maxDelayMs: 10,
+    multiplier: 1,
+    jitter: 0
+}
+
+describe('Wallet', () => {
+    const srcChainId = Sdk.NetworkEnum.OPTIMISM
+
+    let src: Chain
+    let token: Contract
+
+    beforeAll(async () => {
+        src = await initChain(getChainConfig(srcChainId, {local: true}))
+        src.provider.pollingInterval = 100
+        token = new Contract(src.config.tokens.USDC.address, tokenContract.abi, src.provider)
+    })
+
+    afterAll(async () => {
+        src.provider.destroy()
+        await src.node?.stop()
+    })
+
+    // fresh funded account, so its nonces are not shared with other tests
+    async function newWallet(options: WalletOptions = {}): Promise<Wallet> {
+        const key = SignerWallet.createRandom().privateKey
+        const wallet = new Wallet(key, src.provider, {retryPolicy: fastRetries, ...options})
+        await src.provider.send('anvil_setBalance', [await wallet.getAddress(), toBeHex(parseEther('10'))])
+
+        return wallet
+    }
+
+    // self transfer, independent of any other transaction
+    async function ping(wallet: Wallet): Promise<{to: string; value: bigint}> {
+        return {to: await wallet.getAddress(), value: 1n}
+    }
+
+    async function untilPending(wallet: Wallet, done: (hashes: string[]) => boolean): Promise<void> {
+        while (!done((await wallet.pending()).map((tx) => tx.hash))) {
+            await new Promise((resolve) => setTimeout(resolve, 50))
+        }
+    }
+
+    describe('fees', () => {
+        it('follows the base fee and the node priority fee, capped by an explicit strategy', async () => {
+            const [block, feeData] = await Promise.all([src.provider.getBlock('latest'), src.provider.getFeeData()])
+            const baseFee = block!.baseFeePerGas!
+            const tip = feeData.maxPriorityFeePerGas!
+
+            expect(await suggestFees(src.provider, 'normal')).toEqual({
+                maxFeePerGas: baseFee * 2n + tip,
+                maxPriorityFeePerGas: tip
+            })
+            expect(await suggestFees(src.provider, 'fast')).toEqual({
+                maxFeePerGas: baseFee * 3n + tip * 2n,
+                maxPriorityFeePerGas: tip * 2n
+            })
+            expect(await suggestFees(src.provider, {maxFeePerGas: baseFee})).toEqual({
+                maxFeePerGas: baseFee,
+                maxPriorityFeePerGas: tip < baseFee ? tip : baseFee
+            })
+            expect(await suggestFees(src.provider, {maxFeePerGas: baseFee * 10n, maxPriorityFeePerGas: 1n})).toEqual({
+                maxFeePerGas: baseFee * 2n + tip,
+                maxPriorityFeePerGas: 1n
+            })
+        })
+
+        it('bumps every fee by more than the percentage', () => {
+            expect(bumpFees({maxFeePerGas: 100n, maxPriorityFeePerGas: 10n}, 10)).toEqual({
+                maxFeePerGas: 111n,
+                maxPriorityFeePerGas: 12n
+            })
+            expect(bumpFees({gasPrice: 1000n}, 20)).toEqual({gasPrice: 1201n})
+        })
+    })
+
+    describe('nonces', () => {
+        it('hands out a rejected nonce again and rereads the count after a transport error', async () => {
+            const wallet = await newWallet()
+            const nonces = new NonceManager(src.provider, await wallet.getAddress())
+
+            expect([await nonces.reserve(), await nonces.reserve()]).toEqual([0, 1])
+
+            nonces.failed(0, makeError('execution reverted', 'CALL_EXCEPTION'))
+            expect(await nonces.reserve()).toBe(0)
+
+            // the transaction may have reached the node, only the chain knows the next nonce
+            nonces.failed(1, makeError('socket hang up', 'NETWORK_ERROR'))
+            await wallet.send(await ping(wallet))
+            expect(await nonces.reserve()).toBe(1)
+        })
+
+        it('does not send a transaction accepted before a transport error again', async () => {
+            const wallet = await newWallet()
+            const broadcast = src.provider.broadcastTransaction.bind(src.provider)
+            const spy = jest.spyOn(src.provider, 'broadcastTransaction').mockImplementationOnce(async (raw) => {
+                await broadcast(raw)
+                throw makeError('request timeout', 'TIMEOUT')
+            })
+
+            try {
+                const {txHash} = await wallet.send(await ping(wallet))
+
+                expect((await src.provider.getTransaction(txHash))!.nonce).toBe(0)
+                expect(await src.provider.getTransactionCount(await wallet.getAddress())).toBe(1)
+            } finally {
+                spy.mockRestore()
+            }
+        })
+
+        it('resyncs when another process sent with the key', async () => {
+            const wallet = await newWallet()
+            await wallet.send(await ping(wallet))
+
+            // not through the nonce manager of the wallet
+            const foreign = new SignerWallet((wallet.signer as SignerWallet).privateKey, src.provider)
+            await (await foreign.sendTransaction({...(await ping(wallet)), nonce: 1})).wait()
+
+            const {txHash} = await wallet.send(await ping(wallet))
+
+            expect((await src.provider.getTransaction(txHash))!.nonce).toBe(2)
+        })
+    })
+
+    describe('sending', () => {
+        it('pipelines a batch under consecutive nonces into one block', async () => {
+            const wallet = await newWallet()
+            await src.provider.send('evm_setAutomine', [false])
+
+            try {
+                const batch = wallet.sendAll([await ping(wallet), await ping(wallet), await ping(wallet)])
+                await untilPending(wallet, (hashes) => hashes.length === 3)
+                await src.provider.send('evm_mine', [])
+
+                const results = await batch
+                const nonces = await Promise.all(
+                    results.map(async (r) => (await src.provider.getTransaction(r.txHash))!.nonce)
+                )
+
+                expect(nonces).toEqual([0, 1, 2])
+                expect(new Set(results.map((r) => r.blockHash)).size).toBe(1)
+                expect(await wallet.pending()).toEqual([])
+            } finally {
+                await src.provider.send('evm_setAutomine', [true])
+            }
+        })
+
+        it('replaces a stuck transaction under its nonce with bumped fees', async () => {
+            const wallet = await newWallet({gas: {stuckAfterMs: 1000, feeBumpPercent: 20, maxFeeBumps: 3}})
+            await src.provider.send('evm_setAutomine', [false])
+
+            try {
+                const submitted = await wallet.submit(await ping(wallet))
+                const stuck = await src.provider.getTransaction(submitted.hash)
+                const mined = submitted.wait()
+                await untilPending(wallet, ([hash]) => hash !== submitted.hash)
+                await src.provider.send('evm_mine', [])
+
+                const {txHash} = await mined
+                const replacement = await src.provider.getTransaction(txHash)
+
+                expect(txHash).not.toBe(submitted.hash)
+                expect(replacement!.nonce).toBe(submitted.nonce)
+                expect(replacement!.maxFeePerGas! > stuck!.maxFeePerGas!).toBe(true)
+                expect(await src.provider.getTransactionReceipt(submitted.hash)).toBeNull()
+            } finally {
+                await src.provider.send('evm_setAutomine', [true])
+            }
+        })
+    })
+
+    describe('reverts', () => {
+        const erc20 = new Interface(['error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)'])
+
+        it('decodes known errors, require messages and panics', () => {
+            const sender = '0x' + '11'.repeat(20)
+            const insufficient = erc20.encodeErrorResult('ERC20InsufficientBalance', [sender, 1n, 2n])
+
+            expect(decodeRevert(insufficient)).toMatchObject({
+                name: 'ERC20InsufficientBalance',
+                args: [expect.stringMatching(/^0x1111/), 1n, 2n]
+            })
+            expect(
+                decodeRevert(new Interface(['error Error(string)']).encodeErrorResult('Error', ['no']))
+            ).toMatchObject({name: 'Error', args: ['no']})
+            expect(
+                decodeRevert(new Interface(['error Panic(uint256)']).encodeErrorResult('Panic', [0x11n]))
+            ).toMatchObject({name: 'Panic', args: [0x11n]})
+            expect(decodeRevert('0xdeadbeef')).toBeUndefined()
+        })
+
+        it('explains a transaction reverted on chain by simulating it at its block', async () => {
+            const wallet = await newWallet()
+            const data = token.interface.encodeFunctionData('transfer', [await wallet.getAddress(), 1n])
+
+            // a gas limit skips the estimation, which would catch the revert before sending
+            const sent = wallet.send({to: await token.getAddress(), data, gasLimit: 100_000n})
+
+            await expect(sent).rejects.toThrow(TransactionRevertedError)
+            await expect(sent).rejects.toMatchObject({
+                txHash: expect.stringMatching(/^0x/),
+                revert: {name: 'ERC20InsufficientBalance'}
+            })
+        })
+    })
+})
@@ -1,15 +1,70 @@
-import {AbiCoder, Contract, JsonRpcProvider, Signer, TransactionRequest, Wallet as PKWallet} from 'ethers'
+import {
+    AbiCoder,
+    Contract,
+    isError,
+    JsonRpcProvider,
+    Signer,
+    Transaction,
+    TransactionReceipt,
+    TransactionRequest,
+    TransactionResponse,
+    Wallet as PKWallet
+} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
+import {ChainConfig, TokenConfig} from './config'
+import {
+    bumpFees,
+    defaultGasSettings,
+    Fees,
+    FeeStrategy,
+    GasSettings,
+    InsufficientFundsForGasError,
+    maxTransactionCost,
+    suggestFees,
+    TransactionFee,
+    transactionFee
+} from './fees'
+import {Logger, logger} from './logger'
+import {NonceManager, PendingTransaction} from './nonce-manager'
+import {OrderPermit, PermitOptions, signPermit, signPermit2} from './permit'
+import {explainRevert, toRevertError} from './revert-decoder'
+import {classifyError, defaultRetryPolicy, RetryPolicy, withRetry} from './retry'
 import ERC20 from '../dist/contracts/IERC20.sol/IERC20.json'
-import {config, ChainConfig} from './config'
 const coder = AbiCoder.defaultAbiCoder()
 
+export type WalletOptions = {
+    retryPolicy?: RetryPolicy
+    gas?: Partial<GasSettings>
+}
+
+export type SendResult = {
+    txHash: string
+    blockTimestamp: bigint
+    blockHash: string
+    fee: TransactionFee
+}
+
+type SignedTransaction = {raw: string; hash: string}
+
+export type SubmittedTransaction = {
+    hash: string
+    nonce: number
+    // resolves once mined, following replacements of the transaction
+    wait(): Promise<SendResult>
+}
+
 export class Wallet {
     public provider: JsonRpcProvider
 
     public signer: Signer
 
-    constructor(privateKeyOrSigner: string | Signer, provider: JsonRpcProvider) {
+    private readonly retryPolicy: RetryPolicy
+
+    private readonly gas: GasSettings
+
+    constructor(privateKeyOrSigner: string | Signer, provider: JsonRpcProvider, options: WalletOptions = {}) {
+        this.retryPolicy = options.retryPolicy ?? defaultRetryPolicy
+        this.gas = {...defaultGasSettings, ...options.gas}
         this.provider = provider
         this.signer =
             typeof privateKeyOrSigner === 'string'
@@ -17,7 +72,17 @@ export class Wallet {
                 : privateKeyOrSigner
     }
 
-    public static async fromAddress(address: string, provider: JsonRpcProvider, chainId: number ): Promise<Wallet> {
+    public static async fromChain(cnf: ChainConfig, privateKey: string, provider: JsonRpcProvider): Promise<Wallet> {
+        const {chainId} = await provider.getNetwork()
+
+        if (chainId !== BigInt(cnf.chainId)) {
+            throw new Error(`Provider is connected to chain ${chainId}, expected ${cnf.chainId} (${cnf.name})`)
+        }
+
+        return new Wallet(privateKey, provider, {gas: cnf.gas})
+    }
+
+    public static async fromAddress(address: string, provider: JsonRpcProvider): Promise<Wallet> {
         await provider.send('anvil_impersonateAccount', [address.toString()])
 
         const signer = await provider.getSigner(address.toString())
@@ -31,19 +96,40 @@ export class Wallet {
         return tokenContract.balanceOf(await this.getAddress())
     }
 
+    /**
+     * Fund this wallet from the token donor of a forked chain
+     */
+    async topUpFromDonor(token: TokenConfig, amount: bigint): Promise<void> {
+        if (!token.donor) {
+            throw new Error(`Token ${token.address} has no donor configured`)
+        }
+
+        const donor = await Wallet.fromAddress(token.donor, this.provider)
+
+        await donor.transferToken(token.address, await this.getAddress(), amount)
+    }
+
+    public async transferToken(token: string, dest: string, amount: bigint): Promise<void> {
+        await this.send({
+            to: token.toString(),
+            data: '0xa9059cbb' + coder.encode(['address', 'uint256'], [dest.toString(), amount]).slice(2)
+        })
+    }
+
     public async getAddress(): Promise<string> {
         return this.signer.getAddress()
     }
 
     public async approveToken(token: string, spender: string, amount: bigint): Promise<void> {
-        const tx = await this.signer.sendTransaction({
+        await this.send({
             to: token.toString(),
             data: '0x095ea7b3' + coder.encode(['address', 'uint256'], [spender.toString(), amount]).slice(2)
         })
-
-        await tx.wait()
     }
 
+    /**
+     * ECDSA signature of an order of this account, orders of a smart-contract wallet are signed by `ContractWallet`
+     */
     public async signOrder(srcChainId: number, order: Sdk.CrossChainOrder): Promise<string> {
         const typedData = order.getTypedData(srcChainId)
 
@@ -54,18 +140,293 @@ export class Wallet {
         )
     }
 
-    async send(param: TransactionRequest): Promise<{txHash: string; blockTimestamp: bigint; blockHash: string}> {
-        const res = await this.signer.sendTransaction({...param, gasLimit: 10_000_000, from: this.getAddress()})
-        const receipt = await res.wait(1)
+    /**
+     * Sign a permit letting `spender`, the limit order protocol, pull `amount` of `token`, to be attached to
+     * an order instead of approving the token on chain. An EIP-2612 permit needs no transaction at all, Permit2
+     * needs the token approved to `PERMIT2_ADDRESS` once.
+     */
+    public async signMakerPermit(
+        token: string,
+        spender: string,
+        amount: bigint,
+        options: PermitOptions = {}
+    ): Promise<OrderPermit> {
+        const {kind = 'eip2612', ...rest} = options
+
+        return kind === 'permit2'
+            ? {permit: await signPermit2(this.signer, this.provider, token, spender, amount, rest), enablePermit2: true}
+            : {permit: await signPermit(this.signer, this.provider, token, spender, amount, rest), enablePermit2: false}
+    }
+
+    /**
+     * Send `param` and wait for its receipt, see `submit`
+     */
+    async send(param: TransactionRequest, fees: FeeStrategy = this.gas.fees): Promise<SendResult> {
+        return (await this.submit(param, fees)).wait()
+    }
+
+    /**
+     * Send independent transactions back to back under consecutive nonces and wait for all of them, so they can be
+     * mined in the same block. Their gas is estimated before any of them is mined: a transaction depending on
+     * an earlier one of the batch must set `gasLimit`.
+     */
+    async sendAll(params: TransactionRequest[], fees: FeeStrategy = this.gas.fees): Promise<SendResult[]> {
+        const submitted: SubmittedTransaction[] = []
+
+        for (const param of params) {
+            submitted.push(await this.submit(param, fees))
+        }
+
+        return Promise.all(submitted.map((tx) => tx.wait()))
+    }
+
+    /**
+     * Broadcast `param` under the next nonce of the account without waiting for it to be mined
+     *
+     * The gas limit is estimated unless `param` sets one and the fees follow `fees`. A send failing on a transport
+     * error is broadcast again under the same nonce, and counts as sent once the node knows its hash. A send whose
+     * nonce another transaction took is signed again under a new one, a revert is not retried. A transaction pending
+     * for longer than `stuckAfterMs`, or dropped by the node, is replaced by one with the same nonce and bumped fees.
+     *
+     * @throws InsufficientFundsForGasError when the balance can not cover the gas limit at the max fee
+     * @throws TransactionRevertedError when the gas estimation reverts, and from `wait()` when the mined
+     * transaction reverted, with the error decoded from a simulation at its block
+     */
+    async submit(param: TransactionRequest, fees: FeeStrategy = this.gas.fees): Promise<SubmittedTransaction> {
+        const log = logger.child({module: 'wallet', to: param.to})
+        const tx = await this.prepare(param, fees).catch((error) => {
+            // the gas estimation simulates the transaction
+            throw toRevertError(error)
+        })
+        const required = await maxTransactionCost(this.provider, tx, tx)
+        const balance = await this.provider.getBalance(tx.from!)
+
+        if (balance < required) {
+            throw new InsufficientFundsForGasError(tx.from!.toString(), balance, required)
+        }
+
+        const nonces = NonceManager.for(this.provider, tx.from!.toString())
+        const res = await this.broadcast(tx, nonces, log)
+        nonces.sent(res.nonce, res.hash)
+        log.debug('Transaction sent', {txHash: res.hash, nonce: res.nonce})
+
+        return {
+            hash: res.hash,
+            nonce: res.nonce,
+            wait: () => this.confirm(res, tx, fees, nonces, log)
+        }
+    }
+
+    /**
+     * Transactions of the account sent by any wallet of this process and not mined yet
+     */
+    public async pending(): Promise<PendingTransaction[]> {
+        return NonceManager.for(this.provider, await this.getAddress()).pending()
+    }
+
+    private async confirm(
+        res: TransactionResponse,
+        tx: TransactionRequest & Fees,
+        fees: FeeStrategy,
+        nonces: NonceManager,
+        log: Logger
+    ): Promise<SendResult> {
+        let receipt: TransactionReceipt | null
+
+        try {
+            receipt = await this.waitMined(res, tx, fees, nonces, log)
+        } catch (error) {
+            // the nonce is used up by a reverted or a foreign transaction, a stuck one stays pending
+            if (!isError(error, 'TIMEOUT')) {
+                nonces.mined(res.nonce)
+            }
+
+            if (isError(error, 'CALL_EXCEPTION') && error.receipt) {
+                throw await explainRevert(this.provider, tx, error.receipt)
+            }
+
+            throw error
+        }
+
+        nonces.mined(res.nonce)
 
         if (receipt && receipt.status) {
+            const fee = await transactionFee(this.provider, receipt)
+            log.info('Transaction mined', {txHash: receipt.hash, nonce: res.nonce, gasLimit: tx.gasLimit, ...fee})
+
             return {
                 txHash: receipt.hash,
-                blockTimestamp: BigInt((await res.getBlock())!.timestamp),
-                blockHash: receipt.blockHash as string
+                blockTimestamp: BigInt((await receipt.getBlock()).timestamp),
+                blockHash: receipt.blockHash,
+                fee
+            }
+        }
+
+        if (receipt) {
+            throw await explainRevert(this.provider, tx, receipt)
+        }
+
+        throw new Error(`Transaction ${res.hash} has no receipt`)
+    }
+
+    /**
+     * Send `tx` under a reserved nonce. The nonce is only given up when the node rejected the transaction or another
+     * transaction took the nonce: after a transport error the node may have accepted it, sending it under a new nonce
+     * could run it twice.
+     */
+    private async broadcast(tx: TransactionRequest, nonces: NonceManager, log: Logger): Promise<TransactionResponse> {
+        let nonce: number | undefined
+        let signed: SignedTransaction | undefined
+
+        try {
+            return await withRetry(
+                'Send transaction',
+                async () => {
+                    if (nonce === undefined) {
+                        nonce = await nonces.reserve()
+                        signed = await this.sign({...tx, nonce})
+                    }
+
+                    try {
+                        return signed
+                            ? await this.provider.broadcastTransaction(signed.raw)
+                            : await this.signer.sendTransaction({...tx, nonce})
+                    } catch (error) {
+                        // e.g. a timeout after the node accepted it, "already known" or "nonce too low" for it
+                        const accepted = signed && (await this.provider.getTransaction(signed.hash).catch(() => null))
+
+                        if (accepted) {
+                            return accepted
+                        }
+
+                        if (!isTransportError(error)) {
+                            nonces.failed(nonce, error)
+                            nonce = undefined
+                        }
+
+                        throw error
+                    }
+                },
+                {policy: this.retryPolicy, log}
+            )
+        } catch (error) {
+            // out of retries on transport errors, the node may still have the transaction
+            if (nonce !== undefined) {
+                nonces.failed(nonce, error)
+            }
+
+            throw error
+        }
+    }
+
+    /**
+     * Raw form of `tx` and its hash, undefined for signers which can only send, e.g. impersonated accounts
+     */
+    private async sign(tx: TransactionRequest): Promise<SignedTransaction | undefined> {
+        if (!(this.signer instanceof PKWallet)) {
+            return undefined
+        }
+
+        const raw = await this.signer.signTransaction(await this.signer.populateTransaction(tx))
+
+        return {raw, hash: Transaction.from(raw).hash!}
+    }
+
+    private async prepare(param: TransactionRequest, strategy: FeeStrategy): Promise<TransactionRequest & Fees> {
+        const from = await this.getAddress()
+        const [gasLimit, fees] = await Promise.all([
+            param.gasLimit === undefined || param.gasLimit === null
+                ? this.estimateGasLimit({...param, from})
+                : BigInt(param.gasLimit),
+            suggestFees(this.provider, strategy)
+        ])
+
+        return {...param, from, gasLimit, ...fees}
+    }
+
+    private async estimateGasLimit(tx: TransactionRequest): Promise<bigint> {
+        const estimate = await this.provider.estimateGas(tx)
+
+        return (estimate * BigInt(Math.round(this.gas.gasMultiplier * 100))) / 100n
+    }
+
+    /**
+     * Receipt of `res`, or of the replacement it got when it was pending for too long
+     */
+    private async waitMined(
+        res: TransactionResponse,
+        tx: TransactionRequest & Fees,
+        strategy: FeeStrategy,
+        nonces: NonceManager,
+        log: Logger
+    ): Promise<TransactionReceipt | null> {
+        let current = res
+        let fees: Fees = tx
+
+        for (let bumps = 0; ; bumps++) {
+            try {
+                return await withRetry('Wait for receipt', () => current.wait(1, this.gas.stuckAfterMs), {
+                    policy: this.retryPolicy,
+                    // a timeout here means the transaction is stuck, it is replaced below
+                    classify: (error) => (isError(error, 'TIMEOUT') ? 'fatal' : classifyError(error)),
+                    log
+                })
+            } catch (error) {
+                // mined under another hash, e.g. an earlier replacement
+                if (isError(error, 'TRANSACTION_REPLACED') && !error.cancelled) {
+                    return error.receipt
+                }
+
+                fees = bumpFees(fees, this.gas.feeBumpPercent)
+
+                if (!isError(error, 'TIMEOUT') || bumps >= this.gas.maxFeeBumps || exceedsCap(fees, strategy)) {
+                    throw error
+                }
+
+                log.warn('Transaction pending for too long, replacing it with bumped fees', {
+                    txHash: current.hash,
+                    nonce: current.nonce,
+                    ...fees
+                })
+
+                const stuck = current
+                current = await this.signer.sendTransaction({...tx, ...fees, nonce: stuck.nonce}).then(
+                    (replacement) => {
+                        nonces.sent(replacement.nonce, replacement.hash)
+
+                        return replacement
+                    },
+                    (e) => {
+                        // the stuck transaction got mined in the meantime
+                        if (isError(e, 'NONCE_EXPIRED')) {
+                            return stuck
+                        }
+
+                        throw e
+                    }
+                )
             }
         }
+    }
+}
 
-        throw new Error((await receipt?.getResult()) || 'unknown error')
+/**
+ * Whether sending failed without the node deciding on the transaction: it may or may not have accepted it.
+ * Reverts, missing funds and a nonce taken by another transaction are decisions.
+ */
+function isTransportError(error: unknown): boolean {
+    return !(
+        isError(error, 'CALL_EXCEPTION') ||
+        isError(error, 'INSUFFICIENT_FUNDS') ||
+        isError(error, 'NONCE_EXPIRED') ||
+        isError(error, 'REPLACEMENT_UNDERPRICED')
+    )
+}
+
+function exceedsCap(fees: Fees, strategy: FeeStrategy): boolean {
+    if (typeof strategy !== 'object') {
+        return false
     }
+
+    return ('gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas) > strategy.maxFeePerGas
 }